@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER ??= 'local';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_JWT_SECRET ??= 'test';
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'collector-test-'));
+process.env.LOG_LEVEL = 'error';
+
+test('commands are attributed to the participant who typed them', async () => {
+  const { CommandAuditCollector, CommandAuthors } = await import('./collector.js');
+  const { searchCommands } = await import('./store.js');
+  const { logger } = await import('../logging/logger.js');
+
+  const authors = new CommandAuthors('owner');
+  authors.record('1', 'owner', 'ls');
+  authors.record('1', 'owner', '\r');
+  authors.record('2', 'editor', 'make test\r');
+  // Microseconds, as the shell hook reports them
+  const now = Date.now() * 1000;
+  const lines = [
+    `${now}\t1000\t0\t1\t/home/user\tls`,
+    `${now}\t2000\t2\t2\t/home/user\tmake test`,
+    // Started before the editor typed anything there
+    `${now - 60_000_000}\t1000\t0\t2\t/home/user\tpwd`,
+  ];
+  const collector = new CommandAuditCollector(
+    async (skip) => lines.slice(skip),
+    { sessionId: 'session', workspaceId: 'users/owner', sandboxId: null },
+    authors,
+    logger
+  );
+  await collector.collect();
+
+  const { commands } = await searchCommands({ sessionId: 'session' }, 10);
+  assert.deepEqual(
+    commands.map(({ command, userId }) => ({ command, userId })).reverse(),
+    [
+      { command: 'ls', userId: 'owner' },
+      { command: 'make test', userId: 'editor' },
+      { command: 'pwd', userId: 'owner' },
+    ]
+  );
+});
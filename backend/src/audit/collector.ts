@@ -0,0 +1,132 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/env.js';
+import { redactSecrets } from '../secrets/registry.js';
+import { Logger } from '../logging/logger.js';
+import { appendCommands, CommandAuditEntry } from './store.js';
+
+export interface CommandAuditSource {
+  sessionId: string;
+  workspaceId: string;
+  sandboxId: string | null;
+}
+
+// How far a sandbox's clock may be behind the server's for a command to still be matched to its line
+const CLOCK_SKEW_MS = 250;
+// Lines remembered per terminal; far more than are typed between two collections
+const MAX_SUBMISSIONS = 1000;
+
+/**
+ * Who submitted each line typed into a session's terminals, and when, so a
+ * command in a shared session is attributed to the participant who ran it.
+ * A command belongs to the last line submitted in its terminal before it
+ * started; one nobody is known to have submitted goes to the owner.
+ */
+export class CommandAuthors {
+  private readonly submissions = new Map<string, { at: number; userId: string }[]>();
+
+  constructor(private readonly ownerId: string) {}
+
+  /** Notes input a participant sent to a terminal; only input that ends a line counts */
+  record(channel: string, userId: string, data: string): void {
+    if (!/[\r\n]/.test(data)) {
+      return;
+    }
+    const submissions = this.submissions.get(channel) ?? [];
+    submissions.push({ at: Date.now(), userId });
+    if (submissions.length > MAX_SUBMISSIONS) {
+      submissions.shift();
+    }
+    this.submissions.set(channel, submissions);
+  }
+
+  authorOf(channel: string, startedAt: number): string {
+    const submissions = this.submissions.get(channel) ?? [];
+    for (let i = submissions.length - 1; i >= 0; i--) {
+      if (submissions[i].at <= startedAt + CLOCK_SKEW_MS) {
+        return submissions[i].userId;
+      }
+    }
+    return this.ownerId;
+  }
+}
+
+// Undoes the escaping of the .bashrc hook (see commandAuditHook in sandbox/manager.ts)
+function unescapeField(field: string): string {
+  return field.replace(/\\([\\tnr])/g, (_, char: string) => ({ t: '\t', n: '\n', r: '\r' })[char] ?? char);
+}
+
+/**
+ * Every COMMAND_AUDIT_INTERVAL seconds, reads the commands a session's shells
+ * have reported since the last read and adds them to the audit store.
+ */
+export class CommandAuditCollector {
+  private timer: NodeJS.Timeout | null = null;
+  private collecting: Promise<void> | null = null;
+  // Lines of the sandbox's log already stored
+  private linesRead = 0;
+
+  constructor(
+    private readonly read: (skip: number) => Promise<string[]>,
+    private readonly source: CommandAuditSource,
+    private readonly authors: CommandAuthors,
+    private readonly log: Logger
+  ) {}
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => void this.collect(), config.commandAuditInterval * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Stores whatever was reported since the last collection; joins one already in progress */
+  collect(): Promise<void> {
+    this.collecting ??= this.readNew().finally(() => {
+      this.collecting = null;
+    });
+    return this.collecting;
+  }
+
+  private async readNew(): Promise<void> {
+    let lines: string[];
+    try {
+      lines = await this.read(this.linesRead);
+    } catch (error) {
+      this.log.warn('Error reading the command audit log', { error });
+      return;
+    }
+    this.linesRead += lines.length;
+
+    const entries: CommandAuditEntry[] = [];
+    for (const line of lines) {
+      const fields = line.split('\t');
+      const [start, duration, exitCode] = fields.slice(0, 3).map(Number);
+      if (fields.length !== 6 || ![start, duration, exitCode].every(Number.isInteger)) {
+        this.log.warn('Skipping malformed command audit line', { line });
+        continue;
+      }
+      // The hook reports microseconds
+      const startedAt = Math.floor(start / 1000);
+      entries.push({
+        id: randomUUID(),
+        ...this.source,
+        userId: this.authors.authorOf(fields[3], startedAt),
+        // Known secret values typed on the command line are not kept
+        command: redactSecrets(unescapeField(fields[5])),
+        cwd: redactSecrets(unescapeField(fields[4])),
+        exitCode,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Math.round(duration / 1000),
+      });
+    }
+    if (entries.length > 0) {
+      this.log.debug('Collected commands', { count: entries.length });
+      await appendCommands(entries);
+    }
+  }
+}
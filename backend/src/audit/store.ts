@@ -0,0 +1,126 @@
+/**
+ * Command Audit Store
+ *
+ * Every command run in a session's shells, appended to
+ * DATA_DIR/command-audit.jsonl as one JSON object per line. Searches scan the
+ * file, so the newest matches are found without keeping it in memory.
+ */
+
+import { createReadStream } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import { join, resolve } from 'path';
+import { createInterface } from 'readline';
+import { config } from '../config/env.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'CommandAudit' });
+
+export interface CommandAuditEntry {
+  id: string;
+  sessionId: string;
+  // Who typed the command: the session's owner, or an editor of a shared session
+  userId: string;
+  workspaceId: string;
+  sandboxId: string | null;
+  command: string;
+  cwd: string;
+  exitCode: number;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface CommandAuditFilter {
+  userId?: string;
+  sessionId?: string;
+  workspaceId?: string;
+  // Case-insensitive substring of the command
+  text?: string;
+  exitCode?: number;
+  // Only commands that exited non-zero
+  failed?: boolean;
+  // Start time bounds, inclusive
+  from?: Date;
+  to?: Date;
+}
+
+// Serializes appends so entries from concurrent sessions don't interleave
+let writing: Promise<void> = Promise.resolve();
+
+function auditFile(): string {
+  return join(resolve(config.dataDir), 'command-audit.jsonl');
+}
+
+export function appendCommands(entries: CommandAuditEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return writing;
+  }
+  const lines = entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+  writing = writing.then(async () => {
+    try {
+      await mkdir(resolve(config.dataDir), { recursive: true });
+      await appendFile(auditFile(), lines);
+    } catch (error) {
+      log.error('Error writing command audit log', { error, count: entries.length });
+    }
+  });
+  return writing;
+}
+
+function matches(entry: CommandAuditEntry, filter: CommandAuditFilter): boolean {
+  const started = Date.parse(entry.startedAt);
+  return (
+    (filter.userId === undefined || entry.userId === filter.userId) &&
+    (filter.sessionId === undefined || entry.sessionId === filter.sessionId) &&
+    (filter.workspaceId === undefined || entry.workspaceId === filter.workspaceId) &&
+    (filter.text === undefined || entry.command.toLowerCase().includes(filter.text.toLowerCase())) &&
+    (filter.exitCode === undefined || entry.exitCode === filter.exitCode) &&
+    (!filter.failed || entry.exitCode !== 0) &&
+    (filter.from === undefined || started >= filter.from.getTime()) &&
+    (filter.to === undefined || started <= filter.to.getTime())
+  );
+}
+
+/** Matching entries, oldest first */
+export async function* scanCommands(filter: CommandAuditFilter): AsyncGenerator<CommandAuditEntry> {
+  // Let pending appends land first
+  await writing;
+  const stream = createReadStream(auditFile(), { encoding: 'utf-8' });
+  try {
+    for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+      if (!line) continue;
+      let entry: CommandAuditEntry;
+      try {
+        entry = JSON.parse(line) as CommandAuditEntry;
+      } catch {
+        log.warn('Skipping malformed command audit line');
+        continue;
+      }
+      if (matches(entry, filter)) {
+        yield entry;
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+/** The newest `limit` matching entries, newest first, and whether older ones were left out */
+export async function searchCommands(
+  filter: CommandAuditFilter,
+  limit: number
+): Promise<{ commands: CommandAuditEntry[]; truncated: boolean }> {
+  const newest: CommandAuditEntry[] = [];
+  let truncated = false;
+  for await (const entry of scanCommands(filter)) {
+    newest.push(entry);
+    if (newest.length > limit) {
+      newest.shift();
+      truncated = true;
+    }
+  }
+  return { commands: newest.reverse(), truncated };
+}
@@ -0,0 +1,77 @@
+import { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { config } from '../config/env.js';
+import { signToken, verifyToken } from './jwt.js';
+
+export interface UserIdentity {
+  id: string;
+  // Listed in ADMIN_USERS; looked up on every request so changes apply without new tokens
+  admin: boolean;
+}
+
+function identity(id: string): UserIdentity {
+  return { id, admin: config.authAdminUsers.includes(id) };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Exchanges a server-issued API key for a signed session token.
+ * Returns null when the key is unknown.
+ */
+export function loginWithApiKey(apiKey: string): { token: string; user: UserIdentity; expiresAt: string } | null {
+  const entry = Object.entries(config.authApiKeys).find(([, key]) => safeEqual(key, apiKey));
+  if (!entry) {
+    return null;
+  }
+
+  const user = identity(entry[0]);
+  const { token, claims } = signToken(user.id, config.authJwtSecret, config.authTokenTtl);
+  return { token, user, expiresAt: new Date(claims.exp * 1000).toISOString() };
+}
+
+/**
+ * Resolves the caller of an HTTP request or WebSocket upgrade from a bearer
+ * token in the Authorization header or, for browsers that cannot set headers on
+ * WebSockets, the `token` query parameter. Returns null when unauthenticated.
+ */
+export function authenticateRequest(req: IncomingMessage): UserIdentity | null {
+  if (!config.authEnabled) {
+    return identity('anonymous');
+  }
+
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+
+  return token ? authenticateToken(token) : null;
+}
+
+/** Resolves the user a session token was issued to; null if it is invalid, expired or scoped */
+export function authenticateToken(token: string): UserIdentity | null {
+  if (!config.authEnabled) {
+    return identity('anonymous');
+  }
+  const claims = verifyToken(token, config.authJwtSecret);
+  return claims && claims.scope === undefined ? identity(claims.sub) : null;
+}
+
+/** Issues a token that is only good for `scope`, see authenticateScopedToken */
+export function issueScopedToken(user: UserIdentity, scope: string, ttlSeconds: number): { token: string; expiresAt: string } {
+  const { token, claims } = signToken(user.id, config.authJwtSecret, ttlSeconds, scope);
+  return { token, expiresAt: new Date(claims.exp * 1000).toISOString() };
+}
+
+/** Resolves the user a token for `scope` was issued to; login tokens and other scopes are refused */
+export function authenticateScopedToken(token: string | null, scope: string): UserIdentity | null {
+  if (!config.authEnabled) {
+    return identity('anonymous');
+  }
+  const claims = token ? verifyToken(token, config.authJwtSecret) : null;
+  return claims?.scope === scope ? identity(claims.sub) : null;
+}
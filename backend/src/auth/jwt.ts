@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface TokenClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  // Limits the token to one purpose, e.g. a single preview; login tokens have none
+  scope?: string;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+export function signToken(
+  subject: string,
+  secret: string,
+  ttlSeconds: number,
+  scope?: string
+): { token: string; claims: TokenClaims } {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = { sub: subject, iat: now, exp: now + ttlSeconds, ...(scope ? { scope } : {}) };
+  const body = `${HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return { token: `${body}.${sign(body, secret)}`, claims };
+}
+
+/**
+ * Verifies an HS256 JWT and returns its claims, or null if the token is
+ * malformed, signed with a different secret/algorithm, or expired.
+ */
+export function verifyToken(token: string, secret: string): TokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'HS256') {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || !['string', 'undefined'].includes(typeof claims.scope)) {
+      return null;
+    }
+    if (claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return claims as TokenClaims;
+  } catch {
+    return null;
+  }
+}
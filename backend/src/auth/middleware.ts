@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express';
+import { authenticateRequest, UserIdentity } from './identity.js';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: UserIdentity;
+    }
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const user = authenticateRequest(req);
+  if (!user) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  req.user = user;
+  next();
+}
+
+/** Use after requireAuth; rejects users not listed in ADMIN_USERS */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user?.admin) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+  next();
+}
@@ -1,97 +1,506 @@
 import dotenv from 'dotenv';
+import { ConfigSource, isSettings, parseList, parsePairs } from './source.js';
 
 dotenv.config();
 
 type AzureAuthMode = 'cli' | 'key' | 'sas';
+type SandboxProviderType = 'e2b' | 'local';
+type LocalSandboxMode = 'docker' | 'host';
+export type CloudStorageType = 'r2' | 'azure' | 's3' | 'gcs' | 'local';
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+
+/** Where log lines go: the console (warn and error on stderr) or appended to a file */
+export type LogSinkConfig = { type: 'console' } | { type: 'file'; path: string };
+
+/** A named secret handed to sandbox shells, see parseSecrets */
+export interface SecretDeclaration {
+  name: string;
+  value: string;
+  // env: exported to every PTY; file: written to the sandbox's tmpfs secrets dir
+  mount: 'env' | 'file';
+}
+
+/** An entry of the sandbox template catalog, see parseTemplates */
+export interface SandboxTemplateConfig {
+  name: string;
+  description: string;
+  // Provider template, i.e. an e2b template ID; local sandboxes always run LOCAL_DOCKER_IMAGE
+  image: string;
+  // One of SANDBOX_TIERS
+  tier: string;
+  cpus: number;
+  // Bytes
+  memory: number;
+  // Whether the persistent workspace is mounted; with cloud storage the image needs its FUSE client
+  storage: boolean;
+}
 
 interface Config {
+  // Where settings were read from besides the environment
+  configFile: string | null;
+  configProfile: string | null;
+  sandboxProvider: SandboxProviderType;
+  localSandboxMode: LocalSandboxMode;
+  localDockerImage: string;
   e2bApiKey: string;
   e2bSandboxId?: string;
+  // Catalog ID to template; never empty
+  sandboxTemplates: Record<string, SandboxTemplateConfig>;
+  sandboxDefaultTemplate: string;
+  // Resource tiers, smallest first
+  sandboxTiers: string[];
+  sandboxDefaultTier: string;
+  sandboxUserTiers: Record<string, string>;
+  claudeModel: string;
   anthropicApiKey: string;
   port: number;
   frontendUrl: string;
   sandboxTimeout: number;
+  sandboxPoolSize: number;
+  sandboxPoolTemplates: string[];
+  sandboxPoolMaxIdle: number;
+  sandboxPoolRetryDelay: number;
+  sessionGracePeriod: number;
+  sessionExpiryWarning: number;
+  sessionMaxLifetime: number;
+  sandboxDailyQuota: number;
+  sandboxDailyQuotas: Record<string, number>;
+  sessionScrollbackLimit: number;
+  fileUploadLimit: number;
+  recordingEnabled: boolean;
+  recordingDir: string;
+  previewScanInterval: number;
+  commandAuditInterval: number;
+  maxSessionsPerUser: number;
+  maxSessionsPerIp: number;
+  sandboxCreateLimit: number;
+  sandboxCreateWindow: number;
+  wsMaxMessageSize: number;
+  inputRateLimit: number;
+  authEnabled: boolean;
+  authJwtSecret: string;
+  authTokenTtl: number;
+  authApiKeys: Record<string, string>;
+  authAdminUsers: string[];
+  sandboxSecrets: SecretDeclaration[];
+  userSecrets: Record<string, SecretDeclaration[]>;
   cloudStorageEnabled: boolean;
-  cloudStorageType: 'r2' | 'azure';
+  cloudStorageType: CloudStorageType;
+  storageMountPoint: string;
   r2AccessKeyId?: string;
   r2SecretAccessKey?: string;
   r2Endpoint?: string;
   r2Bucket?: string;
-  azureStorageEnabled: boolean;
+  s3AccessKeyId?: string;
+  s3SecretAccessKey?: string;
+  s3Endpoint?: string;
+  s3Region: string;
+  s3Bucket?: string;
+  gcsBucket?: string;
+  gcsServiceAccountKey?: string;
+  localStorageDir: string;
+  workspaceTeams: Record<string, string>;
+  workspaceQuota: number;
+  workspaceQuotas: Record<string, number>;
+  workspaceQuotaWarnPercent: number;
+  workspaceUsageInterval: number;
+  dataDir: string;
+  snapshotInterval: number;
+  snapshotOnSessionEnd: boolean;
+  snapshotRetention: number;
+  gitToken?: string;
+  gitTokenHost: string;
+  gitTokenUsername: string;
+  gitAllowedHosts: string[];
+  metricsToken?: string;
+  readyCheckTimeout: number;
+  shutdownTimeout: number;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  logSinks: LogSinkConfig[];
   azureAuthMode: AzureAuthMode;
   azureStorageAccount: string;
   azureStorageKey: string;
   azureStorageSas?: string;
   azureStorageContainer: string;
+  azureStorageEndpoint?: string;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+// Byte sizes like "500mb", "10GB" or 1048576; 0 means unlimited where sizes are limits
+function parseSize(value: unknown): number {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)\s*([kmgt]?)b?$/i.exec(value.trim()) : null;
+  if (!match) {
+    throw new Error('expected a size such as 500mb or 10gb');
+  }
+  return Math.floor(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+// SANDBOX_DAILY_QUOTAS maps userId:minutes, e.g. alice:240,bob:0 (0 = unlimited)
+function parseDailyQuotas(value: unknown): Record<string, number> {
+  const pairs = parsePairs(value, 'userId:minutes');
+  return Object.fromEntries(
+    Object.entries(pairs).map(([userId, minutes]) => {
+      if (!/^\d+$/.test(minutes.trim())) {
+        throw new Error(`invalid minutes "${minutes}" for ${userId}`);
+      }
+      return [userId, Number(minutes)];
+    })
+  );
+}
+
+// WORKSPACE_QUOTAS maps workspaceId:size, e.g. users/alice:5gb,teams/core:50gb
+function parseQuotas(value: unknown): Record<string, number> {
+  const pairs = parsePairs(value, 'workspaceId:size');
+  return Object.fromEntries(Object.entries(pairs).map(([workspaceId, size]) => [workspaceId, parseSize(size)]));
+}
+
+const TEMPLATE_ID = /^[A-Za-z0-9._-]+$/;
+const TEMPLATE_FIELDS = ['name', 'description', 'image', 'tier', 'cpus', 'memory', 'storage'];
+
+function parseTemplate(id: string, entry: unknown, tiers: string[]): SandboxTemplateConfig {
+  if (!TEMPLATE_ID.test(id)) {
+    throw new Error(`invalid template ID "${id}", expected letters, digits, '.', '_' or '-'`);
+  }
+  if (!isSettings(entry)) {
+    throw new Error(`template ${id}: expected a mapping of settings`);
+  }
+  const unknown = Object.keys(entry).filter((key) => !TEMPLATE_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`template ${id}: unknown setting ${unknown.join(', ')}`);
+  }
+  const { name = id, description = '', image, tier = tiers[0], cpus = 2, memory = '512mb', storage = true } = entry;
+  if (typeof image !== 'string' || !image) {
+    throw new Error(`template ${id}: image is required`);
+  }
+  if (typeof name !== 'string' || typeof description !== 'string') {
+    throw new Error(`template ${id}: name and description must be strings`);
+  }
+  if (typeof tier !== 'string' || !tiers.includes(tier)) {
+    throw new Error(`template ${id}: tier must be one of SANDBOX_TIERS (${tiers.join(', ')})`);
+  }
+  if (typeof cpus !== 'number' || !(cpus > 0)) {
+    throw new Error(`template ${id}: cpus must be a positive number`);
+  }
+  if (typeof storage !== 'boolean') {
+    throw new Error(`template ${id}: storage must be true or false`);
+  }
+  let memoryBytes: number;
+  try {
+    memoryBytes = parseSize(memory);
+  } catch (error) {
+    throw new Error(`template ${id}: memory: ${(error as Error).message}`);
+  }
+  return { name, description, image, tier, cpus, memory: memoryBytes, storage };
+}
+
+// SANDBOX_TEMPLATES maps catalog IDs to templates; a mapping in the config file, JSON in the environment
+function parseTemplates(value: unknown, tiers: string[]): Record<string, SandboxTemplateConfig> {
+  let catalog = value;
+  if (typeof value === 'string') {
+    try {
+      catalog = JSON.parse(value);
+    } catch {
+      throw new Error('expected a JSON object of templates');
+    }
+  }
+  if (!isSettings(catalog) || Object.keys(catalog).length === 0) {
+    throw new Error('expected a mapping of template IDs to templates');
+  }
+  return Object.fromEntries(Object.entries(catalog).map(([id, entry]) => [id, parseTemplate(id, entry, tiers)]));
+}
+
+// Checks that `value` names one of `allowed`; `what` describes the values for error messages
+function oneOf(allowed: string[], what: string): (value: unknown) => string {
+  return (value) => {
+    const text = String(value);
+    if (!allowed.includes(text)) {
+      throw new Error(`expected one of the ${what}: ${allowed.join(', ')}`);
+    }
+    return text;
+  };
 }
 
-function getRequiredEnv(key: string): string {
-  const value = process.env[key];
+function parseAbsolutePath(value: unknown): string {
+  if (typeof value !== 'string' || !value.startsWith('/') || value.length < 2) {
+    throw new Error('expected an absolute path other than /');
+  }
+  return value.replace(/\/+$/, '');
+}
+
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// One secret entry: [file:]NAME[=SOURCE_ENV]; the value is always read from the environment, never the config file
+function parseSecret(entry: string): SecretDeclaration {
+  const mount = entry.startsWith('file:') ? 'file' : 'env';
+  const declaration = mount === 'file' ? entry.slice('file:'.length) : entry;
+  const [name, source = name] = declaration.split('=');
+  if (!SECRET_NAME.test(name) || !SECRET_NAME.test(source)) {
+    throw new Error(`invalid entry "${entry}", expected [file:]NAME[=SOURCE_ENV]`);
+  }
+  const value = process.env[source];
   if (!value) {
-    throw new Error(`Missing required environment variable: ${key}`);
+    throw new Error(`environment variable ${source} for secret ${name} is not set`);
   }
-  return value;
+  return { name, value, mount };
 }
 
-function getOptionalEnv(key: string, defaultValue: string): string {
-  return process.env[key] || defaultValue;
+// SANDBOX_SECRETS lists secret entries shared by every user
+function parseSecrets(value: unknown): SecretDeclaration[] {
+  return parseList(value).map(parseSecret);
 }
 
-function getConditionalEnv(key: string, condition: boolean): string {
-  if (condition) {
-    const value = process.env[key];
-    if (!value) {
-      throw new Error(`Missing required environment variable: ${key} (required when Azure Storage is enabled)`);
+// SANDBOX_USER_SECRETS lists userId:entry pairs; unlike other pairs a user may appear more than once
+function parseUserSecrets(value: unknown): Record<string, SecretDeclaration[]> {
+  const secrets: Record<string, SecretDeclaration[]> = {};
+  for (const pair of parseList(value)) {
+    const separator = pair.indexOf(':');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`invalid entry "${pair}", expected userId:[file:]NAME[=SOURCE_ENV]`);
     }
-    return value;
+    (secrets[pair.slice(0, separator)] ??= []).push(parseSecret(pair.slice(separator + 1)));
   }
-  return '';
-}
-
-const cloudStorageEnabled = getOptionalEnv('CLOUD_STORAGE_ENABLED', 'false').toLowerCase() === 'true';
-const cloudStorageType = getOptionalEnv('CLOUD_STORAGE_TYPE', 'r2') as 'r2' | 'azure';
-
-const azureStorageEnabled = getOptionalEnv('AZURE_STORAGE_ENABLED', 'false').toLowerCase() === 'true';
-const azureAuthModeRaw = getOptionalEnv('AZURE_AUTH_MODE', 'cli').toLowerCase();
-const azureAuthMode = (azureAuthModeRaw === 'key' ? 'key' : azureAuthModeRaw === 'sas' ? 'sas' : 'cli') as AzureAuthMode;
-
-// When using CLI auth mode, storage key is optional
-// When using key auth mode, storage key is required
-const requiresStorageKey = azureStorageEnabled && azureAuthMode === 'key';
-
-export const config: Config = {
-  e2bApiKey: getRequiredEnv('E2B_API_KEY'),
-  e2bSandboxId: process.env.E2B_SANDBOX_ID,
-  anthropicApiKey: getRequiredEnv('ANTHROPIC_API_KEY'),
-  port: parseInt(getOptionalEnv('PORT', '3000'), 10),
-  frontendUrl: getOptionalEnv('FRONTEND_URL', 'http://localhost:5174'),
-  sandboxTimeout: parseInt(getOptionalEnv('SANDBOX_TIMEOUT', '3600'), 10),
-  cloudStorageEnabled,
-  cloudStorageType,
-  r2AccessKeyId: process.env.R2_ACCESS_KEY_ID,
-  r2SecretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
-  r2Endpoint: process.env.R2_ENDPOINT,
-  r2Bucket: process.env.R2_BUCKET,
-  azureStorageEnabled,
-  azureAuthMode,
-  azureStorageAccount: getConditionalEnv('AZURE_STORAGE_ACCOUNT', azureStorageEnabled),
-  azureStorageKey: getConditionalEnv('AZURE_STORAGE_KEY', requiresStorageKey),
-  azureStorageSas: process.env.AZURE_STORAGE_SAS,
-  azureStorageContainer: azureStorageEnabled ? getOptionalEnv('AZURE_STORAGE_CONTAINER', 'cloud-dev-workspace') : '',
-};
-
-console.log('Configuration loaded:', {
-  port: config.port,
-  frontendUrl: config.frontendUrl,
-  sandboxTimeout: config.sandboxTimeout,
-  e2bApiKey: config.e2bApiKey ? '***' : 'NOT SET',
-  e2bSandboxId: config.e2bSandboxId || 'NOT SET (will create new)',
-  anthropicApiKey: config.anthropicApiKey ? '***' : 'NOT SET',
-  cloudStorageEnabled: config.cloudStorageEnabled,
-  cloudStorageType: config.cloudStorageType,
-  r2Configured: config.r2AccessKeyId && config.r2Bucket ? 'YES' : 'NO',
-  azureStorageEnabled: config.azureStorageEnabled,
-  azureAuthMode: config.azureAuthMode,
-  azureStorageAccount: config.azureStorageAccount ? '***' : 'NOT SET',
-  azureStorageContainer: config.azureStorageContainer || 'NOT SET',
-});
+  return secrets;
+}
+
+// LOG_SINKS lists "console" and "file:<path>" entries
+function parseLogSinks(value: unknown): LogSinkConfig[] {
+  const sinks = parseList(value).map((entry): LogSinkConfig => {
+    if (entry === 'console') {
+      return { type: 'console' };
+    }
+    if (entry.startsWith('file:') && entry.length > 'file:'.length) {
+      return { type: 'file', path: entry.slice('file:'.length) };
+    }
+    throw new Error(`invalid entry "${entry}", expected console or file:<path>`);
+  });
+  if (sinks.length === 0) {
+    throw new Error('expected at least one sink');
+  }
+  return sinks;
+}
+
+function loadConfig(): Config {
+  const source = ConfigSource.load();
+
+  const authEnabled = source.boolean('AUTH_ENABLED', true);
+  const sandboxProvider = source.enumeration<SandboxProviderType>('SANDBOX_PROVIDER', ['e2b', 'local'], 'e2b');
+
+  // AZURE_STORAGE_ENABLED is deprecated; it implies CLOUD_STORAGE_TYPE=azure unless CLOUD_STORAGE_ENABLED is set
+  const legacyAzureEnabled = source.boolean('AZURE_STORAGE_ENABLED', false);
+  const explicitCloudStorage = source.boolean('CLOUD_STORAGE_ENABLED', false);
+  const cloudStorageEnabled = explicitCloudStorage || legacyAzureEnabled;
+  const cloudStorageType = source.enumeration<CloudStorageType>(
+    'CLOUD_STORAGE_TYPE',
+    ['r2', 'azure', 's3', 'gcs', 'local'],
+    legacyAzureEnabled && !explicitCloudStorage ? 'azure' : 'r2'
+  );
+
+  const azureStorageEnabled = cloudStorageEnabled && cloudStorageType === 'azure';
+  const azureAuthMode = source.enumeration<AzureAuthMode>('AZURE_AUTH_MODE', ['cli', 'key', 'sas'], 'cli');
+  const azureReason = 'when Azure Storage is enabled';
+  const azureStorageContainer = source.string('AZURE_STORAGE_CONTAINER', 'cloud-dev-workspace');
+
+  // SANDBOX_TEMPLATE and SANDBOX_STORAGE_TEMPLATE make up the catalog when SANDBOX_TEMPLATES is not set
+  const sandboxTemplate = source.string('SANDBOX_TEMPLATE', 'base');
+  // Custom template with s3fs, blobfuse2 and gcsfuse, used when cloud storage is enabled
+  const sandboxStorageTemplate = source.string('SANDBOX_STORAGE_TEMPLATE', 'hgmbd8en87y8om2hshd2');
+  const listedTiers = source.list('SANDBOX_TIERS');
+  const sandboxTiers = listedTiers.length > 0 ? listedTiers : ['standard'];
+  const defaultCatalog: Record<string, SandboxTemplateConfig> = {
+    default: {
+      name: 'Default',
+      description: 'Standard sandbox',
+      image: cloudStorageEnabled ? sandboxStorageTemplate : sandboxTemplate,
+      tier: sandboxTiers[0],
+      cpus: 2,
+      memory: 512 * 1024 ** 2,
+      storage: true,
+    },
+  };
+  const sandboxTemplates = source.custom('SANDBOX_TEMPLATES', defaultCatalog, (value) => parseTemplates(value, sandboxTiers));
+  const templateIds = Object.keys(sandboxTemplates);
+
+  const loaded: Config = {
+    configFile: source.file,
+    configProfile: source.profile,
+    sandboxProvider,
+    localSandboxMode: source.enumeration<LocalSandboxMode>('LOCAL_SANDBOX_MODE', ['docker', 'host'], 'docker'),
+    localDockerImage: source.string('LOCAL_DOCKER_IMAGE', 'ubuntu:22.04'),
+    e2bApiKey: source.requiredString('E2B_API_KEY', sandboxProvider === 'e2b', 'when SANDBOX_PROVIDER=e2b'),
+    e2bSandboxId: source.optionalString('E2B_SANDBOX_ID'),
+    sandboxTemplates,
+    sandboxDefaultTemplate: source.custom('SANDBOX_DEFAULT_TEMPLATE', templateIds[0], oneOf(templateIds, 'template IDs')),
+    sandboxTiers,
+    // The highest tier users without an entry in SANDBOX_USER_TIERS may use
+    sandboxDefaultTier: source.custom('SANDBOX_DEFAULT_TIER', sandboxTiers[0], oneOf(sandboxTiers, 'tiers')),
+    // SANDBOX_USER_TIERS maps userId:tier or teams/<team>:tier to the highest tier allowed
+    sandboxUserTiers: source.custom('SANDBOX_USER_TIERS', {}, (value) => {
+      const pairs = parsePairs(value, 'userId:tier');
+      Object.values(pairs).forEach(oneOf(sandboxTiers, 'tiers'));
+      return pairs;
+    }),
+    claudeModel: source.string('CLAUDE_MODEL', 'claude-sonnet-4-20250514'),
+    anthropicApiKey: source.requiredString('ANTHROPIC_API_KEY', true),
+    port: source.integer('PORT', 3000, { min: 1, max: 65535 }),
+    frontendUrl: source.string('FRONTEND_URL', 'http://localhost:5174'),
+    sandboxTimeout: source.integer('SANDBOX_TIMEOUT', 3600, { min: 60 }),
+    sandboxPoolSize: source.integer('SANDBOX_POOL_SIZE', 0),
+    // Catalog IDs; empty means "warm the default template"
+    sandboxPoolTemplates: source.custom('SANDBOX_POOL_TEMPLATES', [], (value) => {
+      const ids = parseList(value);
+      ids.forEach(oneOf(templateIds, 'template IDs'));
+      return ids;
+    }),
+    sandboxPoolMaxIdle: source.integer('SANDBOX_POOL_MAX_IDLE', 1800, { min: 60 }),
+    sandboxPoolRetryDelay: source.integer('SANDBOX_POOL_RETRY_DELAY', 30, { min: 1 }),
+    sessionGracePeriod: source.integer('SESSION_GRACE_PERIOD', 300),
+    // Seconds before a session ends that its client is warned; 0 disables warnings
+    sessionExpiryWarning: source.integer('SESSION_EXPIRY_WARNING', 300),
+    // 0 means sessions may run for as long as they are active
+    sessionMaxLifetime: source.integer('SESSION_MAX_LIFETIME', 0),
+    // Minutes of sandbox time per user per UTC day; 0 means unlimited
+    sandboxDailyQuota: source.integer('SANDBOX_DAILY_QUOTA', 0),
+    sandboxDailyQuotas: source.custom('SANDBOX_DAILY_QUOTAS', {}, parseDailyQuotas),
+    sessionScrollbackLimit: source.custom('SESSION_SCROLLBACK_LIMIT', 262144, parseSize),
+    fileUploadLimit: source.custom('FILE_UPLOAD_LIMIT', 50 * 1024 ** 2, parseSize),
+    recordingEnabled: source.boolean('RECORDING_ENABLED', false),
+    recordingDir: source.string('RECORDING_DIR', './recordings'),
+    // Seconds between scans for servers listening in a sandbox; 0 disables port detection and previews
+    previewScanInterval: source.integer('PREVIEW_SCAN_INTERVAL', 5),
+    // Seconds between collections of the commands run in a sandbox's shells; 0 disables the command audit log
+    commandAuditInterval: source.integer('COMMAND_AUDIT_INTERVAL', 10),
+    // Live sessions a user may own, and that may be started from one client address; 0 means unlimited
+    maxSessionsPerUser: source.integer('MAX_SESSIONS_PER_USER', 5),
+    maxSessionsPerIp: source.integer('MAX_SESSIONS_PER_IP', 20),
+    // New sessions (and so sandboxes) a user may start per SANDBOX_CREATE_WINDOW seconds; 0 means unlimited
+    sandboxCreateLimit: source.integer('SANDBOX_CREATE_LIMIT', 10),
+    sandboxCreateWindow: source.integer('SANDBOX_CREATE_WINDOW', 600, { min: 1 }),
+    // Largest WebSocket message accepted from a client; larger ones close the connection
+    wsMaxMessageSize: source.custom('WS_MAX_MESSAGE_SIZE', 1024 ** 2, parseSize),
+    // Terminal input bytes per second per connection, in bursts of up to a second's worth
+    inputRateLimit: source.custom('INPUT_RATE_LIMIT', 512 * 1024, parseSize),
+    authEnabled,
+    authJwtSecret: source.requiredString('AUTH_JWT_SECRET', authEnabled, 'when AUTH_ENABLED=true'),
+    authTokenTtl: source.integer('AUTH_TOKEN_TTL', 43200, { min: 60 }),
+    authApiKeys: source.pairs('AUTH_API_KEYS', 'userId:apiKey'),
+    authAdminUsers: source.list('ADMIN_USERS'),
+    sandboxSecrets: source.custom('SANDBOX_SECRETS', [], parseSecrets),
+    userSecrets: source.custom('SANDBOX_USER_SECRETS', {}, parseUserSecrets),
+    cloudStorageEnabled,
+    cloudStorageType,
+    storageMountPoint: source.custom('STORAGE_MOUNT_POINT', '/workspace/files', parseAbsolutePath),
+    r2AccessKeyId: source.optionalString('R2_ACCESS_KEY_ID'),
+    r2SecretAccessKey: source.optionalString('R2_SECRET_ACCESS_KEY'),
+    r2Endpoint: source.optionalString('R2_ENDPOINT'),
+    r2Bucket: source.optionalString('R2_BUCKET'),
+    s3AccessKeyId: source.optionalString('S3_ACCESS_KEY_ID'),
+    s3SecretAccessKey: source.optionalString('S3_SECRET_ACCESS_KEY'),
+    s3Endpoint: source.optionalString('S3_ENDPOINT'),
+    s3Region: source.string('S3_REGION', 'us-east-1'),
+    s3Bucket: source.optionalString('S3_BUCKET'),
+    gcsBucket: source.optionalString('GCS_BUCKET'),
+    gcsServiceAccountKey: source.optionalString('GCS_SERVICE_ACCOUNT_KEY'),
+    localStorageDir: source.string('LOCAL_STORAGE_DIR', './workspaces'),
+    // WORKSPACE_TEAMS maps userId:team; team members share the teams/<team> workspace
+    workspaceTeams: source.pairs('WORKSPACE_TEAMS', 'userId:team'),
+    workspaceQuota: source.custom('WORKSPACE_QUOTA', 0, parseSize),
+    workspaceQuotas: source.custom('WORKSPACE_QUOTAS', {}, parseQuotas),
+    workspaceQuotaWarnPercent: source.integer('WORKSPACE_QUOTA_WARN_PERCENT', 90, { min: 1, max: 100 }),
+    workspaceUsageInterval: source.integer('WORKSPACE_USAGE_INTERVAL', 300, { min: 10 }),
+    dataDir: source.string('DATA_DIR', './data'),
+    snapshotInterval: source.integer('SNAPSHOT_INTERVAL', 0),
+    snapshotOnSessionEnd: source.boolean('SNAPSHOT_ON_SESSION_END', true),
+    snapshotRetention: source.integer('SNAPSHOT_RETENTION', 20),
+    gitToken: source.optionalString('GIT_TOKEN'),
+    gitTokenHost: source.string('GIT_TOKEN_HOST', 'github.com'),
+    gitTokenUsername: source.string('GIT_TOKEN_USERNAME', 'x-access-token'),
+    // Empty allows repositories on any host
+    gitAllowedHosts: source.list('GIT_ALLOWED_HOSTS'),
+    metricsToken: source.optionalString('METRICS_TOKEN'),
+    readyCheckTimeout: source.integer('READY_CHECK_TIMEOUT', 5, { min: 1 }),
+    shutdownTimeout: source.integer('SHUTDOWN_TIMEOUT', 10, { min: 1 }),
+    logLevel: source.enumeration<LogLevel>('LOG_LEVEL', ['debug', 'info', 'warn', 'error'], 'info'),
+    logFormat: source.enumeration<LogFormat>('LOG_FORMAT', ['json', 'pretty'], 'json'),
+    logSinks: source.custom('LOG_SINKS', [{ type: 'console' }], parseLogSinks),
+    azureAuthMode,
+    azureStorageAccount: source.requiredString('AZURE_STORAGE_ACCOUNT', azureStorageEnabled, azureReason),
+    // CLI and SAS auth don't need the account key
+    azureStorageKey: source.requiredString(
+      'AZURE_STORAGE_KEY',
+      azureStorageEnabled && azureAuthMode === 'key',
+      'when Azure Storage is enabled with AZURE_AUTH_MODE=key'
+    ),
+    azureStorageSas: source.optionalString('AZURE_STORAGE_SAS'),
+    azureStorageContainer: azureStorageEnabled ? azureStorageContainer : '',
+    // Blob endpoint override, e.g. Azurite for local development
+    azureStorageEndpoint: source.optionalString('AZURE_STORAGE_ENDPOINT'),
+  };
+
+  source.finish();
+  return loaded;
+}
+
+export const config: Config = loadConfig();
+
+/** Non-secret summary of the configuration, logged at startup; secrets are reported only as set or not */
+export function describeConfig(): Record<string, unknown> {
+  return {
+    configFile: config.configFile ?? 'none',
+    configProfile: config.configProfile ?? 'none',
+    port: config.port,
+    frontendUrl: config.frontendUrl,
+    sandboxTimeout: config.sandboxTimeout,
+    sandboxProvider: config.sandboxProvider,
+    localSandboxMode: config.sandboxProvider === 'local' ? config.localSandboxMode : 'N/A',
+    sandboxTemplates: Object.keys(config.sandboxTemplates),
+    sandboxDefaultTemplate: config.sandboxDefaultTemplate,
+    sandboxTiers: config.sandboxTiers,
+    sandboxPoolSize: config.sandboxPoolSize,
+    sessionGracePeriod: config.sessionGracePeriod,
+    sessionMaxLifetime: config.sessionMaxLifetime || 'unlimited',
+    sandboxDailyQuota: config.sandboxDailyQuota || 'unlimited',
+    sessionScrollbackLimit: config.sessionScrollbackLimit,
+    recordingEnabled: config.recordingEnabled,
+    previewScanInterval: config.previewScanInterval || 'disabled',
+    commandAuditInterval: config.commandAuditInterval || 'disabled',
+    maxSessionsPerUser: config.maxSessionsPerUser || 'unlimited',
+    maxSessionsPerIp: config.maxSessionsPerIp || 'unlimited',
+    sandboxCreateLimit: config.sandboxCreateLimit ? `${config.sandboxCreateLimit}/${config.sandboxCreateWindow}s` : 'unlimited',
+    wsMaxMessageSize: config.wsMaxMessageSize || 'unlimited',
+    inputRateLimit: config.inputRateLimit || 'unlimited',
+    authEnabled: config.authEnabled,
+    authApiKeys: Object.keys(config.authApiKeys).length,
+    authAdminUsers: config.authAdminUsers,
+    sandboxSecrets: config.sandboxSecrets.map((s) => s.name),
+    userSecrets: Object.values(config.userSecrets).reduce((n, s) => n + s.length, 0),
+    e2bApiKey: Boolean(config.e2bApiKey),
+    e2bSandboxId: config.e2bSandboxId || 'NOT SET (will create new)',
+    anthropicApiKey: Boolean(config.anthropicApiKey),
+    claudeModel: config.claudeModel,
+    cloudStorageEnabled: config.cloudStorageEnabled,
+    cloudStorageType: config.cloudStorageType,
+    storageMountPoint: config.storageMountPoint,
+    r2Configured: config.r2AccessKeyId && config.r2Bucket ? 'YES' : 'NO',
+    s3Configured: config.s3AccessKeyId && config.s3Bucket ? 'YES' : 'NO',
+    gcsConfigured: config.gcsBucket && config.gcsServiceAccountKey ? 'YES' : 'NO',
+    workspaceTeams: Object.keys(config.workspaceTeams).length,
+    workspaceQuota: config.workspaceQuota || 'unlimited',
+    snapshotInterval: config.snapshotInterval || 'disabled',
+    snapshotOnSessionEnd: config.snapshotOnSessionEnd,
+    gitToken: Boolean(config.gitToken),
+    gitTokenHost: config.gitTokenHost,
+    gitAllowedHosts: config.gitAllowedHosts.length > 0 ? config.gitAllowedHosts : 'any',
+    metricsToken: Boolean(config.metricsToken),
+    azureAuthMode: config.azureAuthMode,
+    azureStorageAccount: Boolean(config.azureStorageAccount),
+    azureStorageContainer: config.azureStorageContainer || 'NOT SET',
+    logLevel: config.logLevel,
+    logSinks: config.logSinks.map((sink) => (sink.type === 'file' ? `file:${sink.path}` : sink.type)),
+  };
+}
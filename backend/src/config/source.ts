@@ -0,0 +1,287 @@
+/**
+ * Configuration Sources
+ *
+ * Settings are read from, in increasing precedence: built-in defaults, the
+ * config file, the selected profile in that file, and environment variables
+ * (including .env). Every setting is named after its environment variable;
+ * in the file it is written in camelCase, so SANDBOX_TIMEOUT is
+ * `sandboxTimeout`.
+ *
+ * Readers never throw. An invalid value is recorded as a problem and the
+ * default used instead, so that finish() can report every problem at once.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { parseYaml, YamlError } from './yaml.js';
+
+/** Files looked for in the working directory when CONFIG_FILE is not set */
+export const DEFAULT_CONFIG_FILES = ['cloud-dev.yaml', 'cloud-dev.yml', 'cloud-dev.json'];
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration (${problems.length} problem${problems.length === 1 ? '' : 's'}):\n` +
+        problems.map((problem) => `  - ${problem}`).join('\n')
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+type Settings = Record<string, unknown>;
+
+interface Layer {
+  label: string;
+  settings: Settings;
+}
+
+/** SANDBOX_TIMEOUT -> sandboxTimeout, E2B_API_KEY -> e2bApiKey */
+export function fileKey(name: string): string {
+  return name.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+export function isSettings(value: unknown): value is Settings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+export function parseList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!items || items.some((item) => typeof item !== 'string' && typeof item !== 'number')) {
+    throw new Error('expected a list of strings');
+  }
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+export function parsePairs(value: unknown, format: string): Record<string, string> {
+  if (isSettings(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => {
+        if (typeof entry !== 'string' && typeof entry !== 'number') {
+          throw new Error(`expected a string value for ${key}`);
+        }
+        return [key, String(entry)];
+      })
+    );
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`expected ${format} pairs`);
+  }
+  const pairs: Record<string, string> = {};
+  for (const pair of value.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const separator = pair.indexOf(':');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`invalid entry "${pair}", expected ${format}`);
+    }
+    pairs[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return pairs;
+}
+
+export class ConfigSource {
+  readonly problems: string[] = [];
+  // Searched in order: the profile before the file's top level
+  private readonly layers: Layer[] = [];
+  // Every profile, selected or not, so a typo in one is caught before it is first deployed
+  private readonly profileLayers: Layer[] = [];
+  private readonly read = new Set<string>();
+
+  constructor(
+    private readonly env: NodeJS.ProcessEnv,
+    readonly file: string | null,
+    readonly profile: string | null
+  ) {
+    if (!file) {
+      if (profile) {
+        this.problems.push(`CONFIG_PROFILE is "${profile}" but there is no config file to select it from`);
+      }
+      return;
+    }
+
+    const settings = this.loadFile(file);
+    if (!settings) {
+      return;
+    }
+    const { profiles, ...base } = settings;
+    if (profiles !== undefined && !(isSettings(profiles) && Object.values(profiles).every(isSettings))) {
+      this.problems.push(`profiles in ${basename(file)}: expected a mapping of profile names to settings`);
+    } else {
+      for (const [name, settings] of Object.entries((profiles as Record<string, Settings> | undefined) ?? {})) {
+        this.profileLayers.push({ label: `${basename(file)} (profile ${name})`, settings });
+      }
+    }
+    if (profile && !this.problems.length) {
+      const selected = (profiles as Record<string, Settings> | undefined)?.[profile];
+      if (selected) {
+        this.layers.push({ label: `${basename(file)} (profile ${profile})`, settings: selected });
+      } else {
+        const available = Object.keys(profiles ?? {});
+        this.problems.push(
+          `CONFIG_PROFILE: profile "${profile}" is not defined in ${basename(file)}` +
+            (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+        );
+      }
+    }
+    this.layers.push({ label: basename(file), settings: base });
+  }
+
+  /** Uses CONFIG_FILE, or the first of DEFAULT_CONFIG_FILES in the working directory; both are optional */
+  static load(env: NodeJS.ProcessEnv = process.env): ConfigSource {
+    const file = env.CONFIG_FILE
+      ? resolve(env.CONFIG_FILE)
+      : DEFAULT_CONFIG_FILES.map((name) => resolve(name)).find((path) => existsSync(path)) ?? null;
+    return new ConfigSource(env, file, env.CONFIG_PROFILE || null);
+  }
+
+  string(name: string, defaultValue: string): string {
+    return this.value(name, defaultValue, (value) => {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error('expected a string');
+      }
+      return String(value);
+    });
+  }
+
+  optionalString(name: string): string | undefined {
+    return this.string(name, '') || undefined;
+  }
+
+  /** A string that must be set when `required` is true; returns '' when it isn't required */
+  requiredString(name: string, required: boolean, reason?: string): string {
+    const value = this.string(name, '');
+    if (required && !value) {
+      this.problems.push(`${name} is required${reason ? ` ${reason}` : ''}`);
+    }
+    return required ? value : '';
+  }
+
+  integer(name: string, defaultValue: number, { min = 0, max = Number.MAX_SAFE_INTEGER } = {}): number {
+    return this.value(name, defaultValue, (value) => {
+      const number = typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isInteger(number)) {
+        throw new Error('expected an integer');
+      }
+      if (number < min || number > max) {
+        throw new Error(max === Number.MAX_SAFE_INTEGER ? `must be at least ${min}` : `must be between ${min} and ${max}`);
+      }
+      return number;
+    });
+  }
+
+  boolean(name: string, defaultValue: boolean): boolean {
+    return this.value(name, defaultValue, (value) => {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      const text = String(value).toLowerCase();
+      if (text !== 'true' && text !== 'false') {
+        throw new Error('expected true or false');
+      }
+      return text === 'true';
+    });
+  }
+
+  enumeration<T extends string>(name: string, allowed: readonly T[], defaultValue: T): T {
+    return this.value(name, defaultValue, (value) => {
+      const text = String(value).toLowerCase();
+      if (!(allowed as readonly string[]).includes(text)) {
+        throw new Error(`expected one of: ${allowed.join(', ')}`);
+      }
+      return text as T;
+    });
+  }
+
+  /** A comma-separated string in the environment, a sequence or comma-separated string in the file */
+  list(name: string): string[] {
+    return this.value(name, [], parseList);
+  }
+
+  /**
+   * Comma-separated key:value pairs split at the first ':', so values may
+   * contain ':'; in the file also a mapping. `format` describes an entry for
+   * error messages.
+   */
+  pairs(name: string, format: string): Record<string, string> {
+    return this.value(name, {}, (value) => parsePairs(value, format));
+  }
+
+  /** Any other shape: `parse` throws an Error describing what is wrong with the value */
+  custom<T>(name: string, defaultValue: T, parse: (value: unknown) => T): T {
+    return this.value(name, defaultValue, parse);
+  }
+
+  /** Reports settings in the file that no reader asked for, then throws if anything was invalid */
+  finish(): void {
+    for (const { label, settings } of [...this.layers.slice(-1), ...this.profileLayers]) {
+      for (const key of Object.keys(settings)) {
+        if (![...this.read].some((name) => fileKey(name) === key)) {
+          this.problems.push(`${key} in ${label}: unknown setting`);
+        }
+      }
+    }
+    if (this.problems.length > 0) {
+      throw new ConfigError(this.problems);
+    }
+  }
+
+  private value<T>(name: string, defaultValue: T, parse: (value: unknown) => T): T {
+    this.read.add(name);
+    const found = this.lookup(name);
+    if (!found) {
+      return defaultValue;
+    }
+    try {
+      return parse(found.value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.problems.push(`${found.source}: ${reason} (got ${describe(found.value)})`);
+      return defaultValue;
+    }
+  }
+
+  private lookup(name: string): { value: unknown; source: string } | null {
+    // Empty variables count as unset, as they always have
+    const envValue = this.env[name];
+    if (envValue !== undefined && envValue !== '') {
+      return { value: envValue, source: name };
+    }
+    const key = fileKey(name);
+    for (const { label, settings } of this.layers) {
+      const value = settings[key];
+      if (value !== undefined && value !== null) {
+        return { value, source: `${key} in ${label}` };
+      }
+    }
+    return null;
+  }
+
+  private loadFile(file: string): Settings | null {
+    let text: string;
+    try {
+      text = readFileSync(file, 'utf-8');
+    } catch (error) {
+      this.problems.push(`Cannot read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      const reason = error instanceof YamlError || error instanceof SyntaxError ? error.message : String(error);
+      this.problems.push(`Cannot parse config file ${file}: ${reason}`);
+      return null;
+    }
+    if (parsed === null) {
+      return {};
+    }
+    if (!isSettings(parsed)) {
+      this.problems.push(`Config file ${file} must contain a mapping of settings`);
+      return null;
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Minimal YAML Parser
+ *
+ * Covers the subset config files need: block mappings and sequences nested
+ * by indentation, flow sequences and mappings of scalars on one line, quoted
+ * and plain scalars, and comments. Anchors, tags, block scalars (| and >)
+ * and multiple documents are rejected with the line they appear on rather
+ * than misread.
+ */
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    readonly line: number
+  ) {
+    super(`line ${line}: ${message}`);
+  }
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+// Quotes only open a quoted scalar at the start of a token, so plain scalars like it's stay plain
+function opensQuote(text: string, i: number): boolean {
+  return i === 0 || ' \t[{,:-'.includes(text[i - 1]);
+}
+
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === "'") && opensQuote(text, i)) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || text[i - 1] === ' ' || text[i - 1] === '\t')) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+function splitLines(source: string): Line[] {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const number = index + 1;
+    const text = stripComment(raw).trimEnd();
+    const content = text.trimStart();
+    if (!content) {
+      return;
+    }
+    const indentation = text.slice(0, text.length - content.length);
+    if (indentation.includes('\t')) {
+      throw new YamlError('tabs are not allowed in indentation', number);
+    }
+    if (content === '---' && lines.length === 0) {
+      return;
+    }
+    if (content === '---' || content === '...') {
+      throw new YamlError('multiple documents are not supported', number);
+    }
+    lines.push({ number, indent: indentation.length, text: content });
+  });
+  return lines;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/** Index of the colon separating a mapping key from its value, or -1 if the text is not a mapping entry */
+function mappingColon(text: string): number {
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return -1;
+  }
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i + 1 === text.length || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseQuoted(text: string, line: number): string {
+  if (text[0] === '"') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError(`invalid double-quoted string ${text}`, line);
+    }
+  }
+  if (text.length < 2 || !text.endsWith("'") || text.slice(1, -1).replace(/''/g, '').includes("'")) {
+    throw new YamlError(`invalid single-quoted string ${text}`, line);
+  }
+  return text.slice(1, -1).replace(/''/g, "'");
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return parseQuoted(text, line);
+  }
+  if (/^[&*!|>%@`]/.test(text)) {
+    throw new YamlError(`unsupported YAML syntax "${text[0]}" (anchors, tags and block scalars are not supported)`, line);
+  }
+  if (text === '~' || text === 'null' || text === 'Null' || text === 'NULL') {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?\d+$/.test(text) || /^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/** Splits the inside of a flow collection at top-level commas */
+function splitFlow(inner: string, line: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      throw new YamlError('nested flow collections are not supported', line);
+    } else if (char === ',') {
+      items.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start).trim());
+  if (items.length === 1 && items[0] === '') {
+    return [];
+  }
+  // A trailing comma is allowed, empty entries elsewhere are not
+  if (items[items.length - 1] === '') {
+    items.pop();
+  }
+  if (items.includes('')) {
+    throw new YamlError('empty entry in flow collection', line);
+  }
+  return items;
+}
+
+function parseKey(text: string, line: number): string {
+  const key = text.trim();
+  if (!key) {
+    throw new YamlError('missing mapping key', line);
+  }
+  const parsed = key.startsWith('"') || key.startsWith("'") ? parseQuoted(key, line) : key;
+  return String(parsed);
+}
+
+function parseInline(text: string, line: number): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new YamlError('unterminated flow sequence', line);
+    }
+    return splitFlow(text.slice(1, -1), line).map((item) => parseScalar(item, line));
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) {
+      throw new YamlError('unterminated flow mapping', line);
+    }
+    const result: Record<string, unknown> = {};
+    for (const entry of splitFlow(text.slice(1, -1), line)) {
+      const colon = mappingColon(entry);
+      if (colon < 0) {
+        throw new YamlError(`expected "key: value" in flow mapping, got ${entry}`, line);
+      }
+      result[parseKey(entry.slice(0, colon), line)] = parseScalar(entry.slice(colon + 1).trim(), line);
+    }
+    return result;
+  }
+  return parseScalar(text, line);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly lines: Line[]) {}
+
+  parse(): unknown {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.pos < this.lines.length) {
+      throw new YamlError('unexpected indentation', this.lines[this.pos].number);
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(indent);
+    }
+    if (mappingColon(line.text) >= 0) {
+      return this.parseMapping(indent);
+    }
+    this.pos++;
+    return parseInline(line.text, line.number);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (this.pos < this.lines.length && this.lines[this.pos].indent === indent) {
+      const line = this.lines[this.pos];
+      const colon = mappingColon(line.text);
+      if (colon < 0 || isSequenceItem(line.text)) {
+        throw new YamlError(`expected "key: value", got ${line.text}`, line.number);
+      }
+      const key = parseKey(line.text.slice(0, colon), line.number);
+      if (Object.hasOwn(result, key)) {
+        throw new YamlError(`duplicate key "${key}"`, line.number);
+      }
+      const rest = line.text.slice(colon + 1).trim();
+      this.pos++;
+      result[key] = rest ? parseInline(rest, line.number) : this.parseNested(indent, true);
+    }
+    if (this.pos < this.lines.length && this.lines[this.pos].indent > indent) {
+      throw new YamlError('unexpected indentation', this.lines[this.pos].number);
+    }
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    while (this.pos < this.lines.length && this.lines[this.pos].indent === indent && isSequenceItem(this.lines[this.pos].text)) {
+      const line = this.lines[this.pos];
+      const rest = line.text.slice(1).trim();
+      if (!rest) {
+        this.pos++;
+        result.push(this.parseNested(indent, false));
+      } else if (mappingColon(rest) >= 0) {
+        // "- key: value" starts a mapping whose keys line up with the first one
+        const itemIndent = indent + line.text.length - rest.length;
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: rest };
+        result.push(this.parseMapping(itemIndent));
+      } else {
+        this.pos++;
+        result.push(parseInline(rest, line.number));
+      }
+    }
+    return result;
+  }
+
+  /** The value under a key or dash with nothing after it: a more indented block, or null */
+  private parseNested(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.pos];
+    if (next && next.indent > parentIndent) {
+      return this.parseBlock(next.indent);
+    }
+    // Sequences under a mapping key may start at the key's own indentation
+    if (next && allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.text)) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+}
+
+/** Parses a single YAML document; throws YamlError with the offending line number */
+export function parseYaml(source: string): unknown {
+  return new Parser(splitLines(source)).parse();
+}
@@ -0,0 +1,162 @@
+/**
+ * Git Repositories
+ *
+ * A session can start from a Git repository: it is cloned into the
+ * workspace, or a checkout left there by an earlier session is fetched and
+ * reused, and the session's terminals open in it. Only https URLs without
+ * embedded credentials are accepted; private repositories authenticate with
+ * the server-side GIT_TOKEN through a credential helper.
+ */
+
+import { posix } from 'path';
+import { config } from '../config/env.js';
+import type { SandboxInstance } from '../sandbox/provider.js';
+import { shellQuote } from '../sandbox/shell.js';
+import type { Logger } from '../logging/logger.js';
+
+const MAX_URL_LENGTH = 2048;
+const MAX_REF_LENGTH = 255;
+const MAX_SETUP_SCRIPT_LENGTH = 64 * 1024;
+
+/** A repository request that is malformed or not allowed on this server */
+export class RepositoryError extends Error {}
+
+export interface GitRepository {
+  url: string;
+  // Branch, tag or commit to check out; the remote's default branch when null
+  ref: string | null;
+  // Run once in the checkout by the session's first terminal
+  setupScript: string | null;
+}
+
+/** Repository fields of the client's hello, see protocol.ts */
+export interface RepositoryRequest {
+  repository?: string;
+  ref?: string;
+  setupScript?: string;
+}
+
+type Commands = SandboxInstance['commands'];
+
+async function run(commands: Commands, command: string): Promise<string> {
+  // Never wait for a username prompt nobody can answer
+  const result = await commands.run(`GIT_TERMINAL_PROMPT=0 ${command}`);
+  if (result.exitCode !== 0) {
+    throw new RepositoryError(`${command} failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+  }
+  return result.stdout;
+}
+
+function parseUrl(raw: string): string {
+  if (raw.length > MAX_URL_LENGTH) {
+    throw new RepositoryError(`Repository URL must be at most ${MAX_URL_LENGTH} characters`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new RepositoryError(`Invalid repository URL: ${raw}`);
+  }
+  if (url.protocol !== 'https:') {
+    throw new RepositoryError('Repository URL must use https');
+  }
+  if (url.username || url.password) {
+    throw new RepositoryError('Repository URL must not contain credentials');
+  }
+  if (config.gitAllowedHosts.length > 0 && !config.gitAllowedHosts.includes(url.hostname)) {
+    throw new RepositoryError(`Repositories on ${url.hostname} are not allowed`);
+  }
+  return url.toString();
+}
+
+function parseRef(raw: string): string {
+  // A conservative subset of git-check-ref-format that is also safe on a command line
+  if (raw.length > MAX_REF_LENGTH || !/^[\w./-]+$/.test(raw) || raw.startsWith('-') || raw.includes('..')) {
+    throw new RepositoryError(`Invalid branch or ref: ${raw}`);
+  }
+  return raw;
+}
+
+/** Validates the repository requested in a hello; null when none was requested */
+export function parseRepository(request: RepositoryRequest): GitRepository | null {
+  const url = request.repository?.trim();
+  const ref = request.ref?.trim();
+  const setupScript = request.setupScript?.trim() ? request.setupScript : null;
+
+  if (!url) {
+    if (ref || setupScript) {
+      throw new RepositoryError('A ref or setup script requires a repository');
+    }
+    return null;
+  }
+  if (setupScript && setupScript.length > MAX_SETUP_SCRIPT_LENGTH) {
+    throw new RepositoryError(`Setup script must be at most ${MAX_SETUP_SCRIPT_LENGTH} characters`);
+  }
+
+  return { url: parseUrl(url), ref: ref ? parseRef(ref) : null, setupScript };
+}
+
+/** Directory the repository is checked out to, named after it like `git clone` does */
+export function checkoutDirName(url: string): string {
+  const last = new URL(url).pathname.split('/').filter(Boolean).pop() ?? '';
+  const name = last.replace(/\.git$/, '').replace(/[^\w.-]/g, '_');
+  // Hidden names would collide with .snapshots and dotfiles
+  return name && !name.startsWith('.') ? name : 'repository';
+}
+
+/** Entry for git's "store" credential helper granting the server token to GIT_TOKEN_HOST */
+export function credentialEntry(): string | null {
+  if (!config.gitToken) {
+    return null;
+  }
+  const user = encodeURIComponent(config.gitTokenUsername);
+  return `https://${user}:${encodeURIComponent(config.gitToken)}@${config.gitTokenHost}\n`;
+}
+
+/** Points git at the credential file, for GIT_TOKEN_HOST only */
+export async function configureCredentialHelper(commands: Commands, credentialFile: string): Promise<void> {
+  const key = `credential.https://${config.gitTokenHost}.helper`;
+  await run(commands, `git config --global ${shellQuote(key)} ${shellQuote(`store --file=${credentialFile}`)}`);
+}
+
+/**
+ * Clones the repository into `parentDir`, or fetches and reuses the checkout
+ * already there, then checks out the requested ref. Returns the checkout's
+ * path. A reused checkout keeps its local changes; its branch is only
+ * fast-forwarded when that is possible.
+ */
+export async function checkoutRepository(
+  commands: Commands,
+  parentDir: string,
+  repository: GitRepository,
+  log: Logger
+): Promise<string> {
+  const dir = posix.join(parentDir, checkoutDirName(repository.url));
+  const git = `git -C ${shellQuote(dir)}`;
+
+  const origin = await commands.run(`${git} remote get-url origin`);
+  const reuse = origin.exitCode === 0;
+  if (reuse) {
+    if (origin.stdout.trim() !== repository.url) {
+      throw new RepositoryError(`${dir} already holds a checkout of ${origin.stdout.trim()}`);
+    }
+    log.info(`Reusing checkout of ${repository.url}`, { dir });
+    await run(commands, `${git} fetch --quiet --prune origin`);
+  } else {
+    if ((await commands.run(`test -e ${shellQuote(dir)}`)).exitCode === 0) {
+      throw new RepositoryError(`${dir} already exists and is not a checkout of ${repository.url}`);
+    }
+    log.info(`Cloning ${repository.url}`, { dir });
+    await run(commands, `git clone --quiet -- ${shellQuote(repository.url)} ${shellQuote(dir)}`);
+  }
+
+  if (repository.ref) {
+    await run(commands, `${git} checkout --quiet ${shellQuote(repository.ref)} --`);
+  }
+  if (reuse) {
+    // Fails harmlessly on a detached HEAD, a branch without upstream or diverged history
+    await commands.run(`${git} merge --quiet --ff-only '@{upstream}'`);
+  }
+  return dir;
+}
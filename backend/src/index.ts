@@ -1,8 +1,29 @@
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
-import { config } from './config/env.js';
+import { config, describeConfig } from './config/env.js';
 import { setupWebSocketServer, cleanupAllConnections } from './websocket/handler.js';
+import { authRouter } from './routes/auth.js';
+import { filesRouter } from './routes/files.js';
+import { recordingsRouter } from './routes/recordings.js';
+import { workspacesRouter } from './routes/workspaces.js';
+import { templatesRouter } from './routes/templates.js';
+import { sharesRouter } from './routes/shares.js';
+import { previewsRouter } from './routes/previews.js';
+import { settingsRouter } from './routes/settings.js';
+import { auditRouter } from './routes/audit.js';
+import { sessionSnapshotsRouter, snapshotsRouter } from './routes/snapshots.js';
+import { adminRouter } from './routes/admin.js';
+import { monitoringRouter } from './routes/monitoring.js';
+import { handlePreviewRequest } from './preview/proxy.js';
+import { sandboxPool } from './sandbox/manager.js';
+import { getStorageBackend } from './storage/backend.js';
+import { captureConsole, logger } from './logging/logger.js';
+
+const log = logger.child({ component: 'Server' });
+
+captureConsole();
+log.info('Configuration loaded', describeConfig());
 
 const app = express();
 
@@ -11,6 +32,9 @@ app.use(cors({
   credentials: true,
 }));
 
+// Preview requests are streamed through to the sandbox, so they must come before the body parser
+app.use('/preview', handlePreviewRequest);
+
 app.use(express.json());
 
 app.get('/health', (req, res) => {
@@ -18,35 +42,54 @@ app.get('/health', (req, res) => {
     status: 'healthy',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    pool: sandboxPool.getStats(),
+    storage: getStorageBackend()?.health() ?? null,
   });
 });
 
+app.use(monitoringRouter);
+app.use('/auth', authRouter);
+app.use('/api/sessions/:sessionId/files', filesRouter);
+app.use('/api/sessions/:sessionId/snapshots', sessionSnapshotsRouter);
+app.use('/api/sessions/:sessionId/shares', sharesRouter);
+app.use('/api/sessions/:sessionId/previews', previewsRouter);
+app.use('/api/recordings', recordingsRouter);
+app.use('/api/workspaces', workspacesRouter);
+app.use('/api/templates', templatesRouter);
+app.use('/api/settings', settingsRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/snapshots', snapshotsRouter);
+app.use('/api/admin', adminRouter);
+
 const server = createServer(app);
 
 setupWebSocketServer(server);
 
 const shutdown = async () => {
-  console.log('\n[Server] Shutdown signal received, cleaning up...');
+  log.info('Shutdown signal received, cleaning up...');
 
-  await cleanupAllConnections();
+  await Promise.all([cleanupAllConnections(), sandboxPool.drain()]);
 
   server.close(() => {
-    console.log('[Server] HTTP server closed');
+    log.info('HTTP server closed');
     process.exit(0);
   });
 
   setTimeout(() => {
-    console.error('[Server] Forced shutdown after timeout');
+    log.error('Forced shutdown after timeout');
     process.exit(1);
-  }, 10000);
+  }, config.shutdownTimeout * 1000);
 };
 
 process.on('SIGTERM', shutdown);
 process.on('SIGINT', shutdown);
 
 server.listen(config.port, () => {
-  console.log(`[Server] Backend server running on port ${config.port}`);
-  console.log(`[Server] Health check: http://localhost:${config.port}/health`);
-  console.log(`[Server] WebSocket endpoint: ws://localhost:${config.port}/terminal`);
-  console.log(`[Server] CORS enabled for: ${config.frontendUrl}`);
+  log.info(`Backend server running on port ${config.port}`, {
+    health: `http://localhost:${config.port}/health`,
+    websocket: `ws://localhost:${config.port}/terminal`,
+    corsOrigin: config.frontendUrl,
+  });
+
+  sandboxPool.start();
 });
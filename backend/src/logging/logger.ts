@@ -0,0 +1,185 @@
+/**
+ * Structured Logging
+ *
+ * Every line is one JSON object: time, level, component and message, plus the
+ * context of the logger that wrote it. Sessions hand child loggers carrying
+ * their session, user, workspace and sandbox IDs to everything that works on
+ * their behalf, so one session's lines can be followed across the handler,
+ * the sandbox manager and the storage backends by filtering on sessionId.
+ *
+ * Before a line is written, every value the server knows to be secret is
+ * replaced (see secrets/registry.ts) and fields whose names mark them as
+ * credentials are masked, wherever in the line they appear.
+ */
+
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { dirname } from 'path';
+import { format } from 'util';
+import { config, LogFormat, LogLevel, LogSinkConfig } from '../config/env.js';
+import { redactSecrets } from '../secrets/registry.js';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names whose values are credentials, such as apiKey, accountKey or storage_key
+const SENSITIVE_FIELD = /(pass(word|wd)|secret|token|api[_-]?key|access[_-]?key|account[_-]?key|storage[_-]?key|private[_-]?key|credentials?|authorization|cookie|sas)$/i;
+// Nested objects deeper than this are cut off rather than walked
+const MAX_DEPTH = 5;
+
+function sanitize(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (value instanceof Error) {
+    const code = (value as NodeJS.ErrnoException).code;
+    return {
+      name: value.name,
+      message: redactSecrets(value.message),
+      ...(code ? { code } : {}),
+      ...(value.stack ? { stack: redactSecrets(value.stack) } : {}),
+    };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' ? undefined : value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    // Flags and counts named after a credential say nothing about its value
+    const masked = SENSITIVE_FIELD.test(key) && (typeof field === 'string' || (typeof field === 'object' && field !== null));
+    result[key] = masked ? '[REDACTED]' : sanitize(field, depth + 1);
+  }
+  return result;
+}
+
+interface LogSink {
+  write(level: LogLevel, line: string, entry: LogFields): void;
+}
+
+/** Human-readable one-liners for development: time, level, component, message, then the other fields */
+function formatPretty(entry: LogFields): string {
+  const { time, level, component, msg, error, ...fields } = entry;
+  const context = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  const head = [time, String(level).toUpperCase().padEnd(5), component ? `[${component}]` : null, msg, ...context];
+  const stack = (error as { stack?: string } | undefined)?.stack;
+  return head.filter(Boolean).join(' ') + (stack ? `\n${stack}` : error ? ` error=${JSON.stringify(error)}` : '');
+}
+
+class ConsoleSink implements LogSink {
+  constructor(private readonly format: LogFormat) {}
+
+  write(level: LogLevel, line: string, entry: LogFields): void {
+    const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+    stream.write((this.format === 'pretty' ? formatPretty(entry) : line) + '\n');
+  }
+}
+
+/** Appends JSON lines to a file regardless of LOG_FORMAT, for log shippers to tail */
+class FileSink implements LogSink {
+  private readonly stream: WriteStream;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.stream = createWriteStream(path, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      process.stderr.write(`Failed to write log file ${path}: ${error.message}\n`);
+    });
+  }
+
+  write(level: LogLevel, line: string): void {
+    this.stream.write(line + '\n');
+  }
+}
+
+function createSink(sink: LogSinkConfig): LogSink {
+  return sink.type === 'file' ? new FileSink(sink.path) : new ConsoleSink(config.logFormat);
+}
+
+let sinks: LogSink[] | null = null;
+
+export class Logger {
+  constructor(
+    private readonly context: LogFields = {},
+    private readonly parent: Logger | null = null
+  ) {}
+
+  /** A logger whose lines carry this logger's context plus `context` */
+  child(context: LogFields): Logger {
+    return new Logger({ ...context }, this);
+  }
+
+  /** Adds context to this logger and every child derived from it, e.g. a sandbox ID once one is assigned */
+  assign(context: LogFields): void {
+    Object.assign(this.context, context);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private fields(): LogFields {
+    return { ...this.parent?.fields(), ...this.context };
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.logLevel]) {
+      return;
+    }
+
+    const merged = sanitize({ ...this.fields(), ...fields }) as LogFields;
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      component: merged.component,
+      msg: redactSecrets(message),
+      ...merged,
+    };
+    const line = JSON.stringify(entry);
+    sinks ??= config.logSinks.map(createSink);
+    for (const sink of sinks) {
+      sink.write(level, line, entry);
+    }
+  }
+}
+
+/** Root logger; modules derive their own with `logger.child({ component: 'Name' })` */
+export const logger = new Logger();
+
+/**
+ * Turns console output from dependencies into log lines too, so it is
+ * structured and redacted like everything else.
+ */
+export function captureConsole(): void {
+  const log = logger.child({ component: 'console' });
+  console.log = console.info = (...args: unknown[]) => log.info(format(...args));
+  console.debug = (...args: unknown[]) => log.debug(format(...args));
+  console.warn = (...args: unknown[]) => log.warn(format(...args));
+  console.error = (...args: unknown[]) => log.error(format(...args));
+}
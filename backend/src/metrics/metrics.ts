@@ -0,0 +1,76 @@
+/**
+ * Server Metrics
+ *
+ * Counters and histograms updated where things happen; gauges over live
+ * state are registered next to the /metrics route (see routes/monitoring.ts).
+ */
+
+import { Counter, Histogram, MetricsRegistry } from './registry.js';
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const sandboxAcquireSeconds = metricsRegistry.register(
+  new Histogram(
+    'cloud_dev_sandbox_acquire_seconds',
+    'Time to create a sandbox or connect to an existing one, by provider, operation and outcome',
+    [0.5, 1, 2, 5, 10, 20, 30, 60, 120]
+  )
+);
+
+export const storageMounts = metricsRegistry.register(
+  new Counter('cloud_dev_storage_mounts_total', 'Workspace storage mount attempts by backend and outcome')
+);
+
+export const ptyBytes = metricsRegistry.register(
+  new Counter('cloud_dev_pty_bytes_total', 'Bytes written to (in) and read from (out) sandbox PTYs')
+);
+
+export const websocketDisconnects = metricsRegistry.register(
+  new Counter('cloud_dev_websocket_disconnects_total', 'Closed terminal WebSocket connections by reason')
+);
+
+export const cleanupErrors = metricsRegistry.register(
+  new Counter('cloud_dev_cleanup_errors_total', 'Errors while tearing down sandboxes, by stage')
+);
+
+export const sessionsExpired = metricsRegistry.register(
+  new Counter('cloud_dev_sessions_expired_total', 'Sessions ended by their lifetime policy, by reason: idle, lifetime or quota')
+);
+
+export const rateLimitRejections = metricsRegistry.register(
+  new Counter(
+    'cloud_dev_rate_limit_rejections_total',
+    'Sessions and messages refused by abuse limits, by limit: sessions_per_user, sessions_per_ip, sandbox_creations, message_size or input_rate'
+  )
+);
+
+export type DisconnectReason =
+  | 'client_closed'
+  | 'abnormal'
+  | 'heartbeat_timeout'
+  | 'rejected'
+  | 'message_too_large'
+  | 'sandbox_failed'
+  | 'replaced'
+  | 'share_revoked'
+  | 'session_ended'
+  | 'admin_terminated'
+  | 'session_expired'
+  | 'server_shutdown';
+
+// Why the server is closing a socket, recorded when its close event arrives
+const pendingDisconnects = new WeakMap<object, DisconnectReason>();
+
+/** Call before the server closes a socket; the first reason given wins */
+export function markDisconnect(socket: object, reason: DisconnectReason): void {
+  if (!pendingDisconnects.has(socket)) {
+    pendingDisconnects.set(socket, reason);
+  }
+}
+
+/** Counts a closed socket under the reason it was marked with, or one derived from its close code */
+export function recordDisconnect(socket: object, code: number): void {
+  // 1005 means the client closed without a status code
+  const fallback: DisconnectReason = code === 1000 || code === 1001 || code === 1005 ? 'client_closed' : 'abnormal';
+  websocketDisconnects.inc({ reason: pendingDisconnects.get(socket) ?? fallback });
+}
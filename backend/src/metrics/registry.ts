@@ -0,0 +1,145 @@
+/**
+ * Minimal Prometheus client: counters, gauges and histograms with labels,
+ * rendered in the text exposition format (version 0.0.4).
+ */
+
+export type Labels = Record<string, string>;
+
+export const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabel(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+abstract class BaseMetric implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+  }
+
+  abstract render(): string[];
+}
+
+/** A metric whose series are updated as events happen */
+abstract class LabeledMetric<T> extends BaseMetric {
+  // Keyed by the formatted label set, so equal labels in any order share a series
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  render(): string[] {
+    const lines = [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    return [...this.header(), ...lines];
+  }
+}
+
+/** A gauge whose series are computed on every scrape */
+export class Gauge extends BaseMetric {
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect: () => Array<{ labels?: Labels; value: number }>
+  ) {
+    super(name, help, 'gauge');
+  }
+
+  render(): string[] {
+    const lines = this.collect().map(({ labels = {}, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    return [...this.header(), ...lines];
+  }
+}
+
+interface HistogramValue {
+  // Cumulative counts per bucket, parallel to `buckets`
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabeledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.counts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return [...this.header(), ...lines];
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+}
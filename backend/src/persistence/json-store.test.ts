@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER ??= 'local';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_JWT_SECRET ??= 'test';
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'json-store-test-'));
+
+test('concurrent first loads share one read', async () => {
+  const { JsonFileStore } = await import('./json-store.js');
+  const { logger } = await import('../logging/logger.js');
+
+  writeFileSync(join(process.env.DATA_DIR!, 'items.json'), JSON.stringify({ items: ['stored'] }));
+  const store = new JsonFileStore<{ items: string[] }>('items.json', 'items', () => ({ items: [] }), logger);
+
+  await Promise.all([
+    store.load().then((value) => value.items.push('first')),
+    store.load().then((value) => value.items.push('second')),
+  ]);
+  await store.save();
+
+  assert.deepEqual(JSON.parse(readFileSync(join(process.env.DATA_DIR!, 'items.json'), 'utf-8')), {
+    items: ['stored', 'first', 'second'],
+  });
+});
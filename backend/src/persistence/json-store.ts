@@ -0,0 +1,79 @@
+/**
+ * JSON File Store
+ *
+ * Server state kept in memory and in a JSON file in DATA_DIR. The file is
+ * read on first use; a missing or unreadable one starts from `initial`.
+ * Saves write the whole value as it was when save() was called; before
+ * anything was loaded there is nothing to save.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { config } from '../config/env.js';
+import { Logger } from '../logging/logger.js';
+
+export class JsonFileStore<T> {
+  private value: T | null = null;
+  // The first read, shared by every caller until it finishes
+  private loading: Promise<T> | null = null;
+  // Serializes writes so a slow save can't overwrite a newer one
+  private saving: Promise<void> = Promise.resolve();
+
+  /** `description` names the contents in log messages, e.g. "user settings" */
+  constructor(
+    private readonly fileName: string,
+    private readonly description: string,
+    private readonly initial: () => T,
+    private readonly log: Logger
+  ) {}
+
+  private get path(): string {
+    return join(resolve(config.dataDir), this.fileName);
+  }
+
+  load(): Promise<T> {
+    if (this.value !== null) {
+      return Promise.resolve(this.value);
+    }
+    this.loading ??= this.read().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<T> {
+    let value: T;
+    try {
+      value = JSON.parse(await readFile(this.path, 'utf-8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error(`Error reading ${this.description}, starting empty`, { error });
+      }
+      value = this.initial();
+    }
+    // set() while reading wins over the file
+    this.value ??= value;
+    return this.value;
+  }
+
+  /** Replaces the value in memory; call save() to persist it */
+  set(value: T): void {
+    this.value = value;
+  }
+
+  save(): Promise<void> {
+    if (this.value === null) {
+      return this.saving;
+    }
+    const snapshot = JSON.stringify(this.value, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await mkdir(resolve(config.dataDir), { recursive: true });
+        await writeFile(this.path, snapshot);
+      } catch (error) {
+        this.log.error(`Error saving ${this.description}`, { error });
+      }
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,55 @@
+import { config } from '../config/env.js';
+import { Logger } from '../logging/logger.js';
+
+/**
+ * Polls a session's sandbox every PREVIEW_SCAN_INTERVAL seconds for ports
+ * that servers started from its terminals listen on, and reports the list
+ * whenever it changes. Only these ports can be opened through the preview
+ * proxy (see proxy.ts).
+ */
+export class PortMonitor {
+  private timer: NodeJS.Timeout | null = null;
+  private scanning = false;
+  private current: number[] = [];
+
+  constructor(
+    private readonly scan: () => Promise<number[]>,
+    private readonly onChange: (ports: number[]) => void,
+    private readonly log: Logger
+  ) {}
+
+  get ports(): number[] {
+    return this.current;
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => void this.check(), config.previewScanInterval * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    if (this.scanning) {
+      return;
+    }
+    this.scanning = true;
+    try {
+      const ports = await this.scan();
+      if (ports.join(',') !== this.current.join(',')) {
+        this.log.info('Listening ports changed', { ports });
+        this.current = ports;
+        this.onChange(ports);
+      }
+    } catch (error) {
+      this.log.warn('Error scanning for listening ports', { error });
+    } finally {
+      this.scanning = false;
+    }
+  }
+}
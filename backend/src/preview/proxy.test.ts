@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER ??= 'local';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_JWT_SECRET ??= 'test';
+process.env.AUTH_API_KEYS = 'alice:alice-api-key';
+process.env.LOG_LEVEL = 'error';
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+test('preview requests keep the Authorization header the app asked for', async () => {
+  const { loginWithApiKey } = await import('../auth/identity.js');
+  // The session registry is loaded before the proxy, as the server does; the other order leaves the proxy a partly loaded copy
+  const { createSession } = await import('../session/registry.js');
+  const { handlePreviewRequest, issuePreviewLink } = await import('./proxy.js');
+  const { getTemplate } = await import('../sandbox/templates.js');
+  const { workspaceForUser } = await import('../workspace/workspaces.js');
+  const { config } = await import('../config/env.js');
+
+  // The app answers with the Authorization header it received
+  const app = createServer((req, res) => res.end(JSON.stringify({ authorization: req.headers.authorization ?? null })));
+  const appUrl = await listen(app);
+
+  const proxy = express();
+  proxy.use('/preview', handlePreviewRequest);
+  const proxyServer = createServer(proxy);
+  const proxyUrl = await listen(proxyServer);
+
+  const login = loginWithApiKey('alice-api-key')!;
+  const session = createSession(login.user, workspaceForUser('alice'), getTemplate(config.sandboxDefaultTemplate)!);
+  // Stand in for a dev server the session's port monitor found
+  Object.defineProperty(session, 'ports', { value: [8080] });
+  session.sandboxManager.portUrl = async () => appUrl;
+
+  try {
+    const link = issuePreviewLink(login.user, session, 8080);
+    const opened = await fetch(proxyUrl + link.path, { redirect: 'manual' });
+    assert.equal(opened.status, 302);
+    const cookie = opened.headers.get('set-cookie')!.split(';')[0];
+    const page = proxyUrl + opened.headers.get('location');
+
+    const withAppLogin = await fetch(page, { headers: { cookie, authorization: 'Basic YWRtaW46c2VjcmV0' } });
+    assert.equal(withAppLogin.status, 200);
+    assert.deepEqual(await withAppLogin.json(), { authorization: 'Basic YWRtaW46c2VjcmV0' });
+
+    // A login token is this server's credential and never reaches the app
+    const withLoginToken = await fetch(page, { headers: { authorization: `Bearer ${login.token}` } });
+    assert.equal(withLoginToken.status, 200);
+    assert.deepEqual(await withLoginToken.json(), { authorization: null });
+
+    const withoutPreviewToken = await fetch(page, { headers: { authorization: 'Bearer app-token' } });
+    assert.equal(withoutPreviewToken.status, 401);
+  } finally {
+    await session.terminate();
+    proxyServer.close();
+    app.close();
+  }
+});
@@ -0,0 +1,351 @@
+import { IncomingHttpHeaders, IncomingMessage, OutgoingHttpHeaders, request as httpRequest, ServerResponse, STATUS_CODES } from 'http';
+import { request as httpsRequest } from 'https';
+import { Duplex } from 'stream';
+import { Request, Response } from 'express';
+import { config } from '../config/env.js';
+import { authenticateRequest, authenticateScopedToken, issueScopedToken, UserIdentity } from '../auth/identity.js';
+import { getSession } from '../session/registry.js';
+import { Session } from '../session/session.js';
+import { logger } from '../logging/logger.js';
+
+/**
+ * Preview proxy: `/preview/<sessionId>/<port>/<path>` is forwarded to the
+ * server listening on that port in the session's sandbox, WebSocket upgrades
+ * included, so a dev server started in a terminal can be opened in a browser.
+ *
+ * Only ports the session's PortMonitor detected can be reached, and only by
+ * the session's owner, admins and guests currently in the session. A browser
+ * can't send an Authorization header when it opens a link, so the link
+ * carries a `?token=` that is only good for that session and port, and only
+ * for a minute (see issuePreviewLink). It is exchanged for an HttpOnly cookie
+ * holding a longer-lived token of the same scope, scoped to the preview's
+ * path, and the browser is redirected to the URL without it. Login tokens are
+ * only accepted in the Authorization header, so they never end up in URLs or
+ * in cookies the previewed app's origin sees. A request carrying a preview
+ * token or cookie keeps its Authorization header for the app's own login.
+ *
+ * Paths reach the app without the prefix, so apps should use relative URLs
+ * (or be told the prefix as their base path). Redirects to absolute paths are
+ * rewritten to stay under the prefix.
+ */
+
+const log = logger.child({ component: 'Preview' });
+
+const PREVIEW_PATH = /^\/preview\/([^/]+)\/(\d+)(\/.*)?$/;
+const COOKIE_NAME = 'cloud_dev_preview';
+// How long a link from issuePreviewLink can be opened
+const LINK_TTL_SECONDS = 60;
+
+// Connection-level headers that must not be forwarded by a proxy
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer', 'upgrade'];
+
+interface PreviewAddress {
+  sessionId: string;
+  port: number;
+  // `/preview/<sessionId>/<port>`, without a trailing slash
+  prefix: string;
+  // Path and query forwarded to the app
+  path: string;
+  // The `?token=` the request carried, if any
+  token: string | null;
+}
+
+interface PreviewCaller {
+  user: UserIdentity;
+  // Whether the Authorization header was the caller's login token, rather than credentials for the app
+  loginHeader: boolean;
+}
+
+type PreviewTarget =
+  | { ok: true; address: PreviewAddress; target: URL; session: Session; caller: PreviewCaller }
+  | { ok: false; status: number; error: string };
+
+type ResolvedPreview = Extract<PreviewTarget, { ok: true }>;
+
+export function isPreviewPath(url: string): boolean {
+  return parseAddress(url) !== null;
+}
+
+function parseAddress(url: string): PreviewAddress | null {
+  const parsed = new URL(url, 'http://localhost');
+  const match = PREVIEW_PATH.exec(parsed.pathname);
+  if (!match) {
+    return null;
+  }
+
+  let sessionId: string;
+  try {
+    sessionId = decodeURIComponent(match[1]);
+  } catch {
+    // A malformed escape can't name a session
+    return null;
+  }
+
+  const token = parsed.searchParams.get('token');
+  parsed.searchParams.delete('token');
+  return {
+    sessionId,
+    port: Number(match[2]),
+    prefix: `/preview/${match[1]}/${match[2]}`,
+    path: (match[3] ?? '/') + parsed.search,
+    token,
+  };
+}
+
+function readCookie(req: IncomingMessage, name: string): string | null {
+  for (const pair of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+function previewScope(sessionId: string, port: number): string {
+  return `preview:${sessionId}:${port}`;
+}
+
+function previewCaller(req: IncomingMessage, address: PreviewAddress): PreviewCaller | null {
+  // An expired link still opens while the cookie from an earlier visit is valid
+  const scope = previewScope(address.sessionId, address.port);
+  const user = authenticateScopedToken(address.token, scope) ?? authenticateScopedToken(readCookie(req, COOKIE_NAME), scope);
+  if (user) {
+    return { user, loginHeader: false };
+  }
+  const loginUser = req.headers.authorization ? authenticateRequest(req) : null;
+  return loginUser && { user: loginUser, loginHeader: true };
+}
+
+export function canPreview(user: UserIdentity, session: Session): boolean {
+  return (
+    session.user.id === user.id ||
+    user.admin ||
+    session.participants.some((participant) => participant.user.id === user.id)
+  );
+}
+
+async function resolvePreview(req: IncomingMessage, url: string): Promise<PreviewTarget> {
+  const address = parseAddress(url);
+  if (!address || config.previewScanInterval <= 0) {
+    return { ok: false, status: 404, error: 'Not found' };
+  }
+
+  const caller = previewCaller(req, address);
+  if (!caller) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+
+  // Other users' sessions are reported as missing rather than forbidden
+  const session = getSession(address.sessionId);
+  if (!session || !canPreview(caller.user, session)) {
+    return { ok: false, status: 404, error: 'Session not found' };
+  }
+  if (!session.ports.includes(address.port)) {
+    return { ok: false, status: 502, error: `Nothing is listening on port ${address.port} in the sandbox` };
+  }
+
+  const target = new URL(address.path, await session.sandboxManager.portUrl(address.port));
+  return { ok: true, address, target, session, caller };
+}
+
+function forwardHeaders(req: IncomingMessage, resolved: ResolvedPreview, upgrade: boolean): OutgoingHttpHeaders {
+  const { address, target, caller } = resolved;
+  const headers: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (upgrade ? name !== 'connection' && name !== 'upgrade' && HOP_BY_HOP.includes(name) : HOP_BY_HOP.includes(name)) {
+      continue;
+    }
+    headers[name] = value;
+  }
+
+  // The user's credentials are for this server, not for the app
+  if (caller.loginHeader) {
+    delete headers.authorization;
+  }
+  const cookies = (req.headers.cookie ?? '')
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter((pair) => pair && !pair.startsWith(`${COOKIE_NAME}=`));
+  if (cookies.length > 0) {
+    headers.cookie = cookies.join('; ');
+  } else {
+    delete headers.cookie;
+  }
+
+  headers.host = target.host;
+  headers['x-forwarded-host'] = req.headers.host;
+  headers['x-forwarded-proto'] = 'encrypted' in req.socket && req.socket.encrypted ? 'https' : 'http';
+  headers['x-forwarded-for'] = req.socket.remoteAddress;
+  headers['x-forwarded-prefix'] = address.prefix;
+  return headers;
+}
+
+// Keeps redirects from the app under the preview prefix
+function rewriteLocation(location: string, address: PreviewAddress, target: URL): string {
+  if (location.startsWith('/') && !location.startsWith('//')) {
+    return address.prefix + location;
+  }
+  try {
+    const url = new URL(location);
+    if (url.origin === target.origin) {
+      return address.prefix + url.pathname + url.search + url.hash;
+    }
+  } catch {
+    // Relative locations resolve under the prefix already
+  }
+  return location;
+}
+
+function responseHeaders(headers: IncomingHttpHeaders, address: PreviewAddress, target: URL): OutgoingHttpHeaders {
+  const result: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HOP_BY_HOP.includes(name)) {
+      result[name] = value;
+    }
+  }
+  if (headers.location) {
+    result.location = rewriteLocation(headers.location, address, target);
+  }
+  return result;
+}
+
+function sendRequest(target: URL, method: string, headers: OutgoingHttpHeaders) {
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return send(target, { method, headers });
+}
+
+function proxyRequest(req: IncomingMessage, res: ServerResponse, resolved: ResolvedPreview): void {
+  const { address, target } = resolved;
+  const upstream = sendRequest(target, req.method ?? 'GET', forwardHeaders(req, resolved, false));
+
+  upstream.on('response', (response) => {
+    res.writeHead(response.statusCode ?? 502, responseHeaders(response.headers, address, target));
+    response.pipe(res);
+  });
+  upstream.on('error', (error) => {
+    log.debug('Preview request failed', { target: target.href, error });
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.writeHead(502, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: `Could not reach port ${address.port} in the sandbox` }));
+    }
+  });
+  // The app going away mid-response must not leave the upstream request open
+  res.on('close', () => upstream.destroy());
+
+  req.pipe(upstream);
+}
+
+/** A path that opens the preview of `port` without other credentials, for one minute */
+export function issuePreviewLink(user: UserIdentity, session: Session, port: number): { path: string; expiresAt: string } {
+  const { token, expiresAt } = issueScopedToken(user, previewScope(session.id, port), LINK_TTL_SECONDS);
+  return { path: `/preview/${encodeURIComponent(session.id)}/${port}/?token=${encodeURIComponent(token)}`, expiresAt };
+}
+
+function setPreviewCookie(req: Request, res: Response, address: PreviewAddress, user: UserIdentity): void {
+  const { token } = issueScopedToken(user, previewScope(address.sessionId, address.port), config.authTokenTtl);
+  const attributes = [
+    `${COOKIE_NAME}=${encodeURIComponent(token)}`,
+    `Path=${address.prefix}/`,
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${config.authTokenTtl}`,
+  ];
+  if (req.secure) {
+    attributes.push('Secure');
+  }
+  res.append('Set-Cookie', attributes.join('; '));
+}
+
+/** Express handler for `/preview/<sessionId>/<port>/*`; mount it before any body parser */
+export function handlePreviewRequest(req: Request, res: Response): void {
+  previewRequest(req, res).catch((error) => {
+    log.error('Error handling preview request', { url: req.originalUrl, error });
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+}
+
+async function previewRequest(req: Request, res: Response): Promise<void> {
+  const resolved = await resolvePreview(req, req.originalUrl);
+  if (!resolved.ok) {
+    res.status(resolved.status).json({ error: resolved.error });
+    return;
+  }
+
+  const { address } = resolved;
+  // Swap the query token for a cookie, and make sure relative URLs in the page resolve under the prefix
+  const bare = new URL(req.originalUrl, 'http://localhost').pathname === address.prefix;
+  if (address.token || bare) {
+    if (address.token) {
+      setPreviewCookie(req, res, address, resolved.caller.user);
+    }
+    res.redirect(302, address.prefix + address.path);
+    return;
+  }
+
+  proxyRequest(req, res, resolved);
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+  if (!socket.writable) {
+    socket.destroy();
+    return;
+  }
+  socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  socket.destroy();
+}
+
+/** Passes a WebSocket upgrade for a preview path through to the app */
+export function handlePreviewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+  previewUpgrade(req, socket, head).catch((error) => {
+    log.error('Error handling preview upgrade', { url: req.url, error });
+    rejectUpgrade(socket, 500);
+  });
+}
+
+async function previewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+  const resolved = await resolvePreview(req, req.url ?? '/');
+  if (!resolved.ok) {
+    rejectUpgrade(socket, resolved.status);
+    return;
+  }
+
+  const { target } = resolved;
+  const upstream = sendRequest(target, 'GET', forwardHeaders(req, resolved, true));
+
+  upstream.on('upgrade', (response, upstreamSocket, upstreamHead) => {
+    const lines = [`HTTP/1.1 101 ${response.statusMessage ?? 'Switching Protocols'}`];
+    for (let i = 0; i < response.rawHeaders.length; i += 2) {
+      lines.push(`${response.rawHeaders[i]}: ${response.rawHeaders[i + 1]}`);
+    }
+    socket.write(lines.join('\r\n') + '\r\n\r\n');
+    if (upstreamHead.length > 0) {
+      socket.write(upstreamHead);
+    }
+    if (head.length > 0) {
+      upstreamSocket.write(head);
+    }
+
+    upstreamSocket.on('error', () => socket.destroy());
+    socket.on('error', () => upstreamSocket.destroy());
+    upstreamSocket.pipe(socket).pipe(upstreamSocket);
+  });
+  // The app answered without switching protocols
+  upstream.on('response', (response) => {
+    response.resume();
+    rejectUpgrade(socket, response.statusCode ?? 502);
+  });
+  upstream.on('error', (error) => {
+    log.debug('Preview upgrade failed', { target: target.href, error });
+    rejectUpgrade(socket, 502);
+  });
+  socket.on('close', () => upstream.destroy());
+
+  upstream.end();
+}
@@ -0,0 +1,117 @@
+/**
+ * Session Recorder
+ *
+ * Streams one terminal channel into an asciicast v2 file: a JSON header line
+ * followed by `[elapsedSeconds, code, data]` events, where code is "o" for
+ * output, "i" for input and "r" for a "COLSxROWS" resize. Known secrets are
+ * redacted from input and output before they are written.
+ */
+
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import { performance } from 'perf_hooks';
+import { castPath, RecordingInfo, recordingsDir, saveRecordingInfo } from './store.js';
+import { createRedactionStream } from '../secrets/registry.js';
+import { Logger, logger } from '../logging/logger.js';
+
+type EventCode = 'o' | 'i' | 'r';
+
+export class Recorder {
+  readonly info: RecordingInfo;
+
+  private stream: WriteStream;
+  private startTime = performance.now();
+  private finishPromise: Promise<void> | null = null;
+  private initialSave: Promise<void>;
+  // PTY output arrives as raw bytes that may split multi-byte characters
+  private decoder = new TextDecoder();
+  private outputRedaction = createRedactionStream();
+  private inputRedaction = createRedactionStream();
+  private readonly log: Logger;
+
+  constructor(sessionId: string, channel: string, user: string, cols: number, rows: number) {
+    const startedAt = new Date();
+    this.info = {
+      id: `${sessionId}-${channel}`,
+      sessionId,
+      channel,
+      user,
+      startedAt: startedAt.toISOString(),
+      endedAt: null,
+      duration: null,
+    };
+    this.log = logger.child({ component: 'Recorder', sessionId, userId: user, recording: this.info.id });
+
+    mkdirSync(recordingsDir(), { recursive: true });
+    this.stream = createWriteStream(castPath(this.info.id));
+    this.stream.on('error', (error) => {
+      this.log.error('Error writing recording', { error });
+    });
+
+    this.stream.write(JSON.stringify({
+      version: 2,
+      width: cols,
+      height: rows,
+      timestamp: Math.floor(startedAt.getTime() / 1000),
+      title: `Session ${sessionId} terminal ${channel}`,
+      env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+    }) + '\n');
+
+    this.initialSave = saveRecordingInfo(this.info).catch((error) => {
+      this.log.error('Error saving recording metadata', { error });
+    });
+  }
+
+  output(data: Uint8Array): void {
+    this.event('o', this.outputRedaction.push(this.decoder.decode(data, { stream: true })));
+  }
+
+  input(data: string): void {
+    this.event('i', this.inputRedaction.push(data));
+  }
+
+  resize(cols: number, rows: number): void {
+    this.event('r', `${cols}x${rows}`);
+  }
+
+  /** Closes the file and stamps the end time; safe to call more than once */
+  finish(): Promise<void> {
+    if (!this.finishPromise) {
+      // Text held back as a possible secret prefix turned out not to be one
+      this.event('o', this.outputRedaction.flush());
+      this.event('i', this.inputRedaction.flush());
+    }
+    this.finishPromise ??= this.close();
+    return this.finishPromise;
+  }
+
+  read(): Promise<Buffer> {
+    return readFile(castPath(this.info.id));
+  }
+
+  private event(code: EventCode, data: string): void {
+    if (this.finishPromise || !data) {
+      return;
+    }
+    this.stream.write(JSON.stringify([this.elapsed(), code, data]) + '\n');
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startTime) / 1000;
+  }
+
+  private async close(): Promise<void> {
+    const duration = this.elapsed();
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+    await this.initialSave;
+
+    this.info.endedAt = new Date().toISOString();
+    this.info.duration = duration;
+    try {
+      await saveRecordingInfo(this.info);
+      this.log.info(`Saved recording (${duration}s)`);
+    } catch (error) {
+      this.log.error('Error saving recording metadata', { error });
+    }
+  }
+}
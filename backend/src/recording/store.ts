@@ -0,0 +1,78 @@
+/**
+ * Recording Store
+ *
+ * Recordings live in RECORDING_DIR as `<id>.cast` (asciicast v2) next to an
+ * `<id>.json` sidecar holding the metadata used for listing and ownership.
+ */
+
+import { readdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { config } from '../config/env.js';
+
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  channel: string;
+  user: string;
+  startedAt: string;
+  // Null while the recording is still in progress
+  endedAt: string | null;
+  duration: number | null;
+}
+
+// IDs are "<sessionId>-<channel>"; anything else must never reach the filesystem
+const RECORDING_ID = /^[0-9a-f-]+-\d+$/;
+
+export function recordingsDir(): string {
+  return resolve(config.recordingDir);
+}
+
+export function castPath(id: string): string {
+  return join(recordingsDir(), `${id}.cast`);
+}
+
+function infoPath(id: string): string {
+  return join(recordingsDir(), `${id}.json`);
+}
+
+export async function saveRecordingInfo(info: RecordingInfo): Promise<void> {
+  await writeFile(infoPath(info.id), JSON.stringify(info, null, 2));
+}
+
+export async function getRecordingInfo(id: string): Promise<RecordingInfo | null> {
+  if (!RECORDING_ID.test(id)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await readFile(infoPath(id), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Recordings owned by the user, newest first */
+export async function listRecordings(userId: string): Promise<RecordingInfo[]> {
+  let names: string[];
+  try {
+    names = await readdir(recordingsDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const recordings: RecordingInfo[] = [];
+  for (const name of names.filter((n) => n.endsWith('.json'))) {
+    const info = await getRecordingInfo(name.slice(0, -'.json'.length));
+    if (info && info.user === userId) {
+      recordings.push(info);
+    }
+  }
+
+  return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
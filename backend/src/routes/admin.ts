@@ -0,0 +1,130 @@
+import { Request, Response, Router } from 'express';
+import { requireAdmin, requireAuth } from '../auth/middleware.js';
+import { getAllSessions, getSession } from '../session/registry.js';
+import { Session } from '../session/session.js';
+import { getStorageBackend } from '../storage/backend.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Admin' });
+
+// Longest message that can be broadcast into terminals
+const MAX_BROADCAST_LENGTH = 500;
+// Longest single extension, so a typo can't keep a sandbox running for weeks
+const MAX_EXTEND_SECONDS = 24 * 60 * 60;
+
+function handleAdminError(res: Response, error: unknown): void {
+  log.error('Error handling admin request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+  res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+function describeSession(session: Session) {
+  const manager = session.sandboxManager;
+  const { startedAt, lastInputAt, bytesIn, bytesOut } = session.activity;
+  return {
+    id: session.id,
+    userId: session.user.id,
+    workspaceId: session.workspace.id,
+    sandboxId: manager.sandboxId,
+    templateId: manager.templateId,
+    storage: manager.hasStorageMount ? getStorageBackend()?.displayName ?? null : null,
+    ready: session.isReady,
+    attached: session.isAttached,
+    // Connected through share links
+    guests: session.participants.filter((participant) => participant.role !== 'owner').length,
+    channels: session.channels.size,
+    startedAt: startedAt.toISOString(),
+    lastInputAt: lastInputAt?.toISOString() ?? null,
+    expiresAt: session.expiresAt?.toISOString() ?? null,
+    bytesIn,
+    bytesOut,
+  };
+}
+
+function loadSession(req: Request, res: Response): Session | null {
+  const session = getSession(req.params.sessionId);
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return null;
+  }
+  return session;
+}
+
+// Terminal escape sequences in a broadcast could rewrite the user's screen
+function sanitizeMessage(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const message = raw.replace(/\p{Cc}+/gu, ' ').trim();
+  return message && message.length <= MAX_BROADCAST_LENGTH ? message : null;
+}
+
+/** Live sessions across the process, for users in ADMIN_USERS: `/api/admin` */
+export const adminRouter: Router = Router();
+
+adminRouter.use(requireAuth, requireAdmin);
+
+adminRouter.get('/sessions', (req, res) => {
+  const sessions = getAllSessions().sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  res.json({ sessions: sessions.map(describeSession) });
+});
+
+adminRouter.delete('/sessions/:sessionId', async (req, res) => {
+  const session = loadSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  try {
+    session.logger.child({ component: 'Admin' }).info('Session terminated by admin', { admin: req.user!.id });
+    await session.forceTerminate('This session was terminated by an administrator.');
+    res.status(204).end();
+  } catch (error) {
+    handleAdminError(res, error);
+  }
+});
+
+adminRouter.post('/sessions/:sessionId/extend', async (req, res) => {
+  const seconds = req.body?.seconds;
+  if (!Number.isInteger(seconds) || seconds <= 0 || seconds > MAX_EXTEND_SECONDS) {
+    res.status(400).json({ error: `seconds must be an integer between 1 and ${MAX_EXTEND_SECONDS}` });
+    return;
+  }
+  const session = loadSession(req, res);
+  if (!session) {
+    return;
+  }
+  if (!session.isReady || session.isTerminated) {
+    res.status(409).json({ error: 'Session has no running sandbox' });
+    return;
+  }
+
+  try {
+    const expiresAt = await session.policy.extendBy(seconds);
+    session.logger.child({ component: 'Admin' }).info(`Session extended by admin by ${seconds}s`, { admin: req.user!.id, expiresAt });
+    session.notice(`An administrator extended this session until ${expiresAt.toISOString()}.`, 'Admin');
+    res.json(describeSession(session));
+  } catch (error) {
+    handleAdminError(res, error);
+  }
+});
+
+// Prints a message into the terminals of every live session, or of `sessionIds` only
+adminRouter.post('/broadcast', (req, res) => {
+  const message = sanitizeMessage(req.body?.message);
+  if (!message) {
+    res.status(400).json({ error: `message must be a non-empty string of at most ${MAX_BROADCAST_LENGTH} characters` });
+    return;
+  }
+  const sessionIds = req.body?.sessionIds;
+  if (sessionIds !== undefined && !(Array.isArray(sessionIds) && sessionIds.every((id) => typeof id === 'string'))) {
+    res.status(400).json({ error: 'sessionIds must be an array of session IDs' });
+    return;
+  }
+
+  const targets = getAllSessions().filter((session) => session.isReady && (!sessionIds || sessionIds.includes(session.id)));
+  for (const session of targets) {
+    session.notice(message, 'Admin');
+  }
+  log.info(`Broadcast to ${targets.length} session(s)`, { admin: req.user!.id, message, sessionIds: targets.map((session) => session.id) });
+  res.json({ delivered: targets.map((session) => session.id) });
+});
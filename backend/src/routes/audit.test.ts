@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import express from 'express';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER ??= 'local';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_ENABLED = 'false';
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'audit-test-'));
+process.env.LOG_LEVEL = 'error';
+
+test('CSV exports keep commands that look like formulas as text', async () => {
+  const { appendCommands } = await import('../audit/store.js');
+  const { auditRouter } = await import('./audit.js');
+
+  const commands = ['=HYPERLINK("http://example.com")', '+1', '-rf', '@SUM(A1)', '\techo', 'echo =ok'];
+  await appendCommands(
+    commands.map((command, index) => ({
+      id: String(index),
+      sessionId: 'session',
+      userId: 'anonymous',
+      workspaceId: 'users/anonymous',
+      sandboxId: null,
+      command,
+      cwd: '=cwd',
+      exitCode: -1,
+      startedAt: new Date(Date.UTC(2026, 0, 1, 0, 0, index)).toISOString(),
+      durationMs: 5,
+    }))
+  );
+
+  const app = express();
+  app.use('/api/audit', auditRouter);
+  const server = createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/api/audit/commands/export?format=csv`);
+    assert.equal(response.status, 200);
+    const rows = (await response.text()).trimEnd().split('\r\n').slice(1);
+    assert.deepEqual(
+      rows.map((row) => row.split(',').slice(7).join(',')),
+      [
+        `'=cwd,"'=HYPERLINK(""http://example.com"")",0`,
+        `'=cwd,'+1,1`,
+        `'=cwd,'-rf,2`,
+        `'=cwd,'@SUM(A1),3`,
+        `'=cwd,'\techo,4`,
+        `'=cwd,echo =ok,5`,
+      ]
+    );
+    // Numbers are not text a spreadsheet could misread
+    assert.ok(rows.every((row) => row.split(',')[2] === '-1'));
+  } finally {
+    server.close();
+  }
+});
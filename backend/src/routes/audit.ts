@@ -0,0 +1,160 @@
+import { once } from 'events';
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { CommandAuditEntry, CommandAuditFilter, scanCommands, searchCommands } from '../audit/store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'CommandAudit' });
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+const CSV_COLUMNS: (keyof CommandAuditEntry)[] = [
+  'startedAt',
+  'durationMs',
+  'exitCode',
+  'userId',
+  'sessionId',
+  'workspaceId',
+  'sandboxId',
+  'cwd',
+  'command',
+  'id',
+];
+
+class AuditQueryError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuditQueryError';
+  }
+}
+
+function stringParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function integerParam(req: Request, name: string): number | undefined {
+  const value = stringParam(req, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^-?\d+$/.test(value)) {
+    throw new AuditQueryError(400, `${name} must be an integer`);
+  }
+  return Number(value);
+}
+
+function dateParam(req: Request, name: string): Date | undefined {
+  const value = stringParam(req, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new AuditQueryError(400, `${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+// Users see their own commands; admins see everyone's, or one user's with ?userId=
+function parseFilter(req: Request): CommandAuditFilter {
+  const user = req.user!;
+  const userId = stringParam(req, 'userId');
+  if (userId !== undefined && userId !== user.id && !user.admin) {
+    throw new AuditQueryError(403, 'Admin access required');
+  }
+  return {
+    userId: user.admin ? userId : user.id,
+    sessionId: stringParam(req, 'sessionId'),
+    workspaceId: stringParam(req, 'workspaceId'),
+    text: stringParam(req, 'q'),
+    exitCode: integerParam(req, 'exitCode'),
+    failed: stringParam(req, 'failed') === 'true',
+    from: dateParam(req, 'from'),
+    to: dateParam(req, 'to'),
+  };
+}
+
+// Spreadsheets read cells starting with these as formulas, and users choose what their commands say
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function handleAuditError(res: Response, error: unknown): void {
+  if (error instanceof AuditQueryError) {
+    res.status(error.status).json({ error: error.message });
+  } else if (res.headersSent) {
+    // An export failed partway; the truncated download is the only signal left
+    log.error('Error exporting commands', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+    res.destroy();
+  } else {
+    log.error('Error handling command audit request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/** The command audit log: `/api/audit` */
+export const auditRouter: Router = Router();
+
+auditRouter.use(requireAuth);
+
+// The newest matching commands, newest first
+auditRouter.get('/commands', async (req, res) => {
+  try {
+    const filter = parseFilter(req);
+    const limit = integerParam(req, 'limit') ?? DEFAULT_LIMIT;
+    if (limit < 1 || limit > MAX_LIMIT) {
+      throw new AuditQueryError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+    }
+    res.json(await searchCommands(filter, limit));
+  } catch (error) {
+    handleAuditError(res, error);
+  }
+});
+
+// Every matching command, oldest first, as a JSON Lines (default) or CSV download
+auditRouter.get('/commands/export', async (req, res) => {
+  try {
+    const filter = parseFilter(req);
+    const format = stringParam(req, 'format') ?? 'jsonl';
+    if (format !== 'jsonl' && format !== 'csv') {
+      throw new AuditQueryError(400, 'format must be "jsonl" or "csv"');
+    }
+
+    const filename = `commands-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    res.attachment(filename);
+    if (format === 'csv') {
+      res.write(CSV_COLUMNS.join(',') + '\r\n');
+    }
+
+    let count = 0;
+    for await (const entry of scanCommands(filter)) {
+      const line =
+        format === 'csv'
+          ? CSV_COLUMNS.map((column) => csvField(entry[column])).join(',') + '\r\n'
+          : JSON.stringify(entry) + '\n';
+      if (!res.write(line)) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        if (res.destroyed) {
+          return;
+        }
+      }
+      count++;
+    }
+    res.end();
+    log.info('Exported commands', { userId: req.user!.id, format, count, filter });
+  } catch (error) {
+    handleAuditError(res, error);
+  }
+});
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { config } from '../config/env.js';
+import { loginWithApiKey } from '../auth/identity.js';
+import { requireAuth } from '../auth/middleware.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Auth' });
+
+export const authRouter: Router = Router();
+
+authRouter.post('/login', (req, res) => {
+  if (!config.authEnabled) {
+    res.status(400).json({ error: 'Authentication is disabled on this server' });
+    return;
+  }
+
+  const apiKey = req.body?.apiKey;
+  if (typeof apiKey !== 'string' || apiKey.length === 0) {
+    res.status(400).json({ error: 'apiKey is required' });
+    return;
+  }
+
+  const result = loginWithApiKey(apiKey);
+  if (!result) {
+    log.warn('Rejected login with unknown API key', { ip: req.ip });
+    res.status(401).json({ error: 'Invalid API key' });
+    return;
+  }
+
+  log.info('Issued token', { userId: result.user.id });
+  res.json(result);
+});
+
+authRouter.get('/me', requireAuth, (req, res) => {
+  res.json({ user: req.user, authEnabled: config.authEnabled });
+});
@@ -0,0 +1,168 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { posix } from 'path';
+import { config } from '../config/env.js';
+import { requireAuth } from '../auth/middleware.js';
+import { getSession } from '../session/registry.js';
+import { Session } from '../session/session.js';
+import { FileNotFoundError } from '../sandbox/provider.js';
+import { getUsage } from '../workspace/usage.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Files' });
+
+export class InvalidPathError extends Error {}
+
+/**
+ * Resolves a client-supplied path (relative to the workspace root) to an
+ * absolute sandbox path, refusing anything that escapes the workspace.
+ */
+export function resolveWorkspacePath(root: string, requested: unknown): string {
+  if (requested !== undefined && typeof requested !== 'string') {
+    throw new InvalidPathError('path must be a string');
+  }
+
+  const resolved = posix.resolve(root, `./${requested ?? ''}`);
+  if (resolved !== root && !resolved.startsWith(`${root}/`)) {
+    throw new InvalidPathError(`Path is outside the workspace: ${requested}`);
+  }
+  return resolved;
+}
+
+export function toWorkspacePath(root: string, absolute: string): string {
+  return posix.relative(root, absolute);
+}
+
+export function loadSession(req: Request, res: Response, next: NextFunction): void {
+  const session = getSession(req.params.sessionId);
+  // Other users' sessions are reported as missing rather than forbidden; admins may browse any
+  if (!session || (session.user.id !== req.user?.id && !req.user?.admin)) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  if (!session.isReady) {
+    res.status(409).json({ error: 'Sandbox is not ready yet' });
+    return;
+  }
+
+  res.locals.session = session;
+  next();
+}
+
+function handleFileError(res: Response, error: unknown): void {
+  if (error instanceof InvalidPathError) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof FileNotFoundError) {
+    res.status(404).json({ error: 'File not found' });
+  } else {
+    log.error('Error handling file request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+// Writes are refused once the last measurement put the workspace over its quota
+async function rejectOverQuota(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const session: Session = res.locals.session;
+  const usage = await getUsage(session.workspace.id);
+  if (usage?.state === 'exceeded') {
+    res.status(507).json({ error: `Workspace ${usage.workspaceId} is over its storage quota` });
+    return;
+  }
+  next();
+}
+
+type FileHandler = (req: Request, res: Response, session: Session, root: string) => Promise<void>;
+
+function fileRoute(handler: FileHandler) {
+  return async (req: Request, res: Response) => {
+    const session: Session = res.locals.session;
+    try {
+      await handler(req, res, session, session.sandboxManager.workspaceDir);
+    } catch (error) {
+      handleFileError(res, error);
+    }
+  };
+}
+
+export const filesRouter: Router = Router({ mergeParams: true });
+
+filesRouter.use(requireAuth, loadSession);
+
+// List a directory
+filesRouter.get('/', fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.query.path);
+  const entries = await session.sandboxManager.files.list(path);
+  res.json({
+    path: toWorkspacePath(root, path),
+    entries: entries
+      .map((entry) => ({ ...entry, path: toWorkspacePath(root, entry.path) }))
+      .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'dir' ? -1 : 1)),
+  });
+}));
+
+filesRouter.get('/stat', fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.query.path);
+  const entry = await session.sandboxManager.files.stat(path);
+  res.json({ ...entry, path: toWorkspacePath(root, entry.path) });
+}));
+
+// Read and write text files as JSON
+filesRouter.get('/content', fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.query.path);
+  const content = await session.sandboxManager.files.read(path);
+  res.json({ path: toWorkspacePath(root, path), content });
+}));
+
+filesRouter.put('/content', rejectOverQuota, fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.body?.path);
+  if (typeof req.body?.content !== 'string') {
+    res.status(400).json({ error: 'content must be a string' });
+    return;
+  }
+  await session.sandboxManager.files.write(path, req.body.content);
+  res.json({ path: toWorkspacePath(root, path) });
+}));
+
+// Upload and download raw bytes
+filesRouter.put(
+  '/upload',
+  rejectOverQuota,
+  express.raw({ type: () => true, limit: config.fileUploadLimit }),
+  fileRoute(async (req, res, session, root) => {
+    const path = resolveWorkspacePath(root, req.query.path);
+    if (path === root) {
+      res.status(400).json({ error: 'path must name a file' });
+      return;
+    }
+    await session.sandboxManager.files.write(path, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0));
+    res.status(201).json({ path: toWorkspacePath(root, path) });
+  })
+);
+
+filesRouter.get('/download', fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.query.path);
+  const content = await session.sandboxManager.files.readBytes(path);
+  res.attachment(posix.basename(path));
+  res.type('application/octet-stream');
+  res.send(Buffer.from(content));
+}));
+
+filesRouter.delete('/', fileRoute(async (req, res, session, root) => {
+  const path = resolveWorkspacePath(root, req.query.path);
+  if (path === root) {
+    res.status(400).json({ error: 'Refusing to delete the workspace root' });
+    return;
+  }
+  await session.sandboxManager.files.remove(path);
+  res.status(204).end();
+}));
+
+filesRouter.post('/rename', fileRoute(async (req, res, session, root) => {
+  const from = resolveWorkspacePath(root, req.body?.from);
+  const to = resolveWorkspacePath(root, req.body?.to);
+  if (from === root || to === root) {
+    res.status(400).json({ error: 'Cannot rename the workspace root' });
+    return;
+  }
+  await session.sandboxManager.files.rename(from, to);
+  res.json({ path: toWorkspacePath(root, to) });
+}));
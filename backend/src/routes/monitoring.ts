@@ -0,0 +1,121 @@
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import { config } from '../config/env.js';
+import { CONTENT_TYPE, Gauge } from '../metrics/registry.js';
+import { metricsRegistry } from '../metrics/metrics.js';
+import { getAllSessions } from '../session/registry.js';
+import { sandboxPool } from '../sandbox/manager.js';
+import { getSandboxProvider } from '../sandbox/provider.js';
+import { getStorageBackend } from '../storage/backend.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Ready' });
+
+// Provider checks call out to e2b or Docker, so frequent probes reuse a recent result
+const PROVIDER_CHECK_TTL_MS = 10_000;
+
+interface CheckResult {
+  ok: boolean;
+  error?: string;
+}
+
+metricsRegistry.register(
+  new Gauge('cloud_dev_sessions_active', 'Live sessions: starting, attached to a client, or detached in their grace period', () => {
+    const counts = { starting: 0, attached: 0, detached: 0 };
+    for (const session of getAllSessions()) {
+      counts[!session.isReady ? 'starting' : session.isAttached ? 'attached' : 'detached']++;
+    }
+    return Object.entries(counts).map(([state, value]) => ({ labels: { state }, value }));
+  })
+);
+
+metricsRegistry.register(
+  new Gauge('cloud_dev_sandbox_pool_sandboxes', 'Warm pool sandboxes by template, ready or still provisioning', () =>
+    Object.entries(sandboxPool.getStats().templates).flatMap(([template, { ready, pending }]) => [
+      { labels: { template, state: 'ready' }, value: ready },
+      { labels: { template, state: 'pending' }, value: pending },
+    ])
+  )
+);
+
+metricsRegistry.register(
+  new Gauge('process_resident_memory_bytes', 'Resident memory size in bytes', () => [{ value: process.memoryUsage().rss }])
+);
+
+metricsRegistry.register(
+  new Gauge('process_start_time_seconds', 'Start time of the process since the Unix epoch in seconds', () => [
+    { value: Math.round(Date.now() / 1000 - process.uptime()) },
+  ])
+);
+
+let providerCheck: { result: CheckResult; checkedAt: number } | null = null;
+
+async function checkProvider(): Promise<CheckResult> {
+  if (providerCheck && Date.now() - providerCheck.checkedAt < PROVIDER_CHECK_TTL_MS) {
+    return providerCheck.result;
+  }
+
+  let result: CheckResult;
+  try {
+    await getSandboxProvider().checkReady();
+    result = { ok: true };
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  if (providerCheck && providerCheck.result.ok !== result.ok) {
+    if (result.ok) {
+      log.info('Sandbox provider is ready again');
+    } else {
+      log.warn('Sandbox provider is not ready', { error: result.error });
+    }
+  }
+  providerCheck = { result, checkedAt: Date.now() };
+  return result;
+}
+
+function checkStorage(): CheckResult & { backend: string | null } {
+  const storage = getStorageBackend();
+  if (!storage) {
+    return { ok: true, backend: null };
+  }
+  const { problems } = storage.health();
+  return problems.length === 0
+    ? { ok: true, backend: storage.type }
+    : { ok: false, backend: storage.type, error: `Configuration incomplete: ${problems.join(', ')}` };
+}
+
+// With METRICS_TOKEN set, scrapers must send it as a bearer token
+function requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+  if (!config.metricsToken) {
+    next();
+    return;
+  }
+  const expected = Buffer.from(`Bearer ${config.metricsToken}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  next();
+}
+
+/** `/ready` for load balancers and `/metrics` for Prometheus */
+export const monitoringRouter: Router = Router();
+
+// 503 until sandboxes can actually be created and storage is fully configured
+monitoringRouter.get('/ready', async (req, res) => {
+  const provider = await checkProvider();
+  const storage = checkStorage();
+  const ready = provider.ok && storage.ok;
+  res.status(ready ? 200 : 503).json({
+    ready,
+    checks: {
+      provider: { name: getSandboxProvider().name, ...provider },
+      storage,
+    },
+  });
+});
+
+monitoringRouter.get('/metrics', requireMetricsToken, (req, res) => {
+  res.type(CONTENT_TYPE).send(metricsRegistry.render());
+});
@@ -0,0 +1,24 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { getSession } from '../session/registry.js';
+import { canPreview, issuePreviewLink } from '../preview/proxy.js';
+
+/** Links that open a session's previews: `/api/sessions/:sessionId/previews` */
+export const previewsRouter: Router = Router({ mergeParams: true });
+
+previewsRouter.use(requireAuth);
+
+// Unlike the other session routes, guests currently in the session may use this too
+previewsRouter.post('/:port/link', (req: Request, res: Response) => {
+  const session = getSession(req.params.sessionId);
+  if (!session || !canPreview(req.user!, session)) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  const port = Number(req.params.port);
+  if (!session.ports.includes(port)) {
+    res.status(404).json({ error: `Nothing is listening on port ${req.params.port} in the sandbox` });
+    return;
+  }
+  res.status(201).json(issuePreviewLink(req.user!, session, port));
+});
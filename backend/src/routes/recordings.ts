@@ -0,0 +1,57 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { castPath, getRecordingInfo, listRecordings, RecordingInfo } from '../recording/store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Recordings' });
+
+async function loadRecording(req: Request, res: Response): Promise<RecordingInfo | null> {
+  const info = await getRecordingInfo(req.params.id);
+  // Other users' recordings are reported as missing rather than forbidden
+  if (!info || info.user !== req.user?.id) {
+    res.status(404).json({ error: 'Recording not found' });
+    return null;
+  }
+  return info;
+}
+
+function handleRecordingError(res: Response, error: unknown): void {
+  log.error('Error handling recording request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+  res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+export const recordingsRouter: Router = Router();
+
+recordingsRouter.use(requireAuth);
+
+recordingsRouter.get('/', async (req, res) => {
+  try {
+    res.json({ recordings: await listRecordings(req.user!.id) });
+  } catch (error) {
+    handleRecordingError(res, error);
+  }
+});
+
+recordingsRouter.get('/:id', async (req, res) => {
+  try {
+    const info = await loadRecording(req, res);
+    if (info) {
+      res.json(info);
+    }
+  } catch (error) {
+    handleRecordingError(res, error);
+  }
+});
+
+// The raw asciicast v2 file, playable with asciinema or the frontend player
+recordingsRouter.get('/:id/cast', async (req, res) => {
+  try {
+    const info = await loadRecording(req, res);
+    if (info) {
+      res.type('application/x-asciicast');
+      res.sendFile(castPath(info.id));
+    }
+  } catch (error) {
+    handleRecordingError(res, error);
+  }
+});
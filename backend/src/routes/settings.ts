@@ -0,0 +1,61 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import {
+  clearUserSettings,
+  getUserSettings,
+  isUserSettings,
+  MAX_SETTINGS_BYTES,
+  setUserSettings,
+} from '../settings/store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'UserSettings' });
+
+function handleSettingsError(res: Response, error: unknown): void {
+  log.error('Error handling settings request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+  res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+/** The caller's own client settings: `/api/settings` */
+export const settingsRouter: Router = Router();
+
+settingsRouter.use(requireAuth);
+
+settingsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json({ settings: await getUserSettings(req.user!.id) });
+  } catch (error) {
+    handleSettingsError(res, error);
+  }
+});
+
+settingsRouter.put('/', async (req: Request, res: Response) => {
+  const settings = req.body?.settings;
+  if (!isUserSettings(settings)) {
+    res.status(400).json({ error: 'settings must be an object' });
+    return;
+  }
+  if (Buffer.byteLength(JSON.stringify(settings)) > MAX_SETTINGS_BYTES) {
+    res.status(413).json({ error: `settings may be at most ${MAX_SETTINGS_BYTES} bytes` });
+    return;
+  }
+
+  try {
+    await setUserSettings(req.user!.id, settings);
+    res.json({ settings });
+  } catch (error) {
+    handleSettingsError(res, error);
+  }
+});
+
+settingsRouter.delete('/', async (req: Request, res: Response) => {
+  try {
+    if (!(await clearUserSettings(req.user!.id))) {
+      res.status(404).json({ error: 'No saved settings' });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleSettingsError(res, error);
+  }
+});
@@ -0,0 +1,60 @@
+import { Response, Router } from 'express';
+import { config } from '../config/env.js';
+import { requireAuth } from '../auth/middleware.js';
+import { Session } from '../session/session.js';
+import { isShareRole, ShareLink } from '../session/shares.js';
+import { loadSession } from './files.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Shares' });
+
+function describeShare(session: Session, link: ShareLink) {
+  return {
+    id: link.id,
+    role: link.role,
+    url: `${config.frontendUrl}/?share=${link.token}`,
+    createdBy: link.createdBy,
+    createdAt: link.createdAt.toISOString(),
+    participants: session.participants.filter((participant) => participant.shareId === link.id).length,
+  };
+}
+
+function sendShares(res: Response, session: Session): void {
+  res.json({
+    shares: session.shares.list().map((link) => describeShare(session, link)),
+    participants: session.participants.map(({ id, user, role }) => ({ id, userId: user.id, role })),
+  });
+}
+
+/** Share links for a session, managed by its owner: `/api/sessions/:sessionId/shares` */
+export const sharesRouter: Router = Router({ mergeParams: true });
+
+sharesRouter.use(requireAuth, loadSession);
+
+sharesRouter.get('/', (_req, res) => {
+  sendShares(res, res.locals.session);
+});
+
+sharesRouter.post('/', (req, res) => {
+  const session: Session = res.locals.session;
+  const role = req.body?.role;
+  if (!isShareRole(role)) {
+    res.status(400).json({ error: 'role must be "editor" or "viewer"' });
+    return;
+  }
+
+  const link = session.shares.create(role, req.user!.id);
+  log.info('Created share link', { sessionId: session.id, shareId: link.id, role, userId: req.user!.id });
+  res.status(201).json(describeShare(session, link));
+});
+
+// Revoking disconnects everyone who joined through the link
+sharesRouter.delete('/:shareId', (req, res) => {
+  const session: Session = res.locals.session;
+  if (!session.revokeShare(req.params.shareId)) {
+    res.status(404).json({ error: 'Share link not found' });
+    return;
+  }
+  log.info('Revoked share link', { sessionId: session.id, shareId: req.params.shareId, userId: req.user!.id });
+  res.status(204).end();
+});
@@ -0,0 +1,109 @@
+import { Request, Response, Router } from 'express';
+import { requireAuth } from '../auth/middleware.js';
+import { Session } from '../session/session.js';
+import { diffSnapshot, diffSnapshotFile, SnapshotError } from '../snapshot/snapshots.js';
+import { getSnapshot, listSnapshots, SnapshotInfo } from '../snapshot/store.js';
+import { resolveWorkspace, WorkspaceAccessError } from '../workspace/workspaces.js';
+import { InvalidPathError, loadSession, resolveWorkspacePath, toWorkspacePath } from './files.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Snapshots' });
+
+// Longest label accepted for manual snapshots
+const MAX_LABEL_LENGTH = 200;
+
+function handleSnapshotError(res: Response, error: unknown): void {
+  if (error instanceof WorkspaceAccessError) {
+    res.status(403).json({ error: error.message });
+  } else if (error instanceof InvalidPathError) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof SnapshotError) {
+    res.status(409).json({ error: error.message });
+  } else {
+    log.error('Error handling snapshot request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+// Snapshots of other workspaces are reported as missing rather than forbidden
+async function loadSnapshot(req: Request, res: Response, session: Session): Promise<SnapshotInfo | null> {
+  const snapshot = await getSnapshot(req.params.snapshotId);
+  if (!snapshot || snapshot.workspaceId !== session.workspace.id) {
+    res.status(404).json({ error: 'Snapshot not found' });
+    return null;
+  }
+  return snapshot;
+}
+
+/** Listing works without a session: `/api/snapshots`, admins may pass ?workspace=<id> */
+export const snapshotsRouter: Router = Router();
+
+snapshotsRouter.use(requireAuth);
+
+snapshotsRouter.get('/', async (req, res) => {
+  try {
+    const requested = typeof req.query.workspace === 'string' ? req.query.workspace : null;
+    const workspace = resolveWorkspace(req.user!, requested);
+    res.json({ workspaceId: workspace.id, snapshots: await listSnapshots(workspace.id) });
+  } catch (error) {
+    handleSnapshotError(res, error);
+  }
+});
+
+/** Taking, diffing and restoring need the session's sandbox: `/api/sessions/:sessionId/snapshots` */
+export const sessionSnapshotsRouter: Router = Router({ mergeParams: true });
+
+sessionSnapshotsRouter.use(requireAuth, loadSession);
+
+sessionSnapshotsRouter.post('/', async (req, res) => {
+  const session: Session = res.locals.session;
+  const label = req.body?.label;
+  if (label !== undefined && (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH)) {
+    res.status(400).json({ error: `label must be a string of at most ${MAX_LABEL_LENGTH} characters` });
+    return;
+  }
+
+  try {
+    res.status(201).json(await session.snapshot('manual', label?.trim() || null));
+  } catch (error) {
+    handleSnapshotError(res, error);
+  }
+});
+
+// Changed files, or with ?path= the unified diff of one file
+sessionSnapshotsRouter.get('/:snapshotId/diff', async (req, res) => {
+  const session: Session = res.locals.session;
+  try {
+    const snapshot = await loadSnapshot(req, res, session);
+    if (!snapshot) {
+      return;
+    }
+
+    if (req.query.path === undefined) {
+      res.json({ changes: await diffSnapshot(session.sandboxManager, snapshot) });
+      return;
+    }
+
+    const root = session.sandboxManager.workspaceDir;
+    const path = toWorkspacePath(root, resolveWorkspacePath(root, req.query.path));
+    if (!path) {
+      res.status(400).json({ error: 'path must name a file' });
+      return;
+    }
+    res.json({ path, diff: await diffSnapshotFile(session.sandboxManager, snapshot, path) });
+  } catch (error) {
+    handleSnapshotError(res, error);
+  }
+});
+
+sessionSnapshotsRouter.post('/:snapshotId/restore', async (req, res) => {
+  const session: Session = res.locals.session;
+  try {
+    const snapshot = await loadSnapshot(req, res, session);
+    if (snapshot) {
+      res.json({ restored: snapshot, backup: await session.restore(snapshot) });
+    }
+  } catch (error) {
+    handleSnapshotError(res, error);
+  }
+});
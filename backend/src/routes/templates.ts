@@ -0,0 +1,37 @@
+import { Request, Response, Router } from 'express';
+import { config } from '../config/env.js';
+import { requireAuth } from '../auth/middleware.js';
+import { canUseTemplate, listTemplates, resolveTemplate, TemplateAccessError, tierFor } from '../sandbox/templates.js';
+
+export const templatesRouter: Router = Router();
+
+templatesRouter.use(requireAuth);
+
+// The template catalog for the start screen; templates above the caller's tier are listed but not allowed
+templatesRouter.get('/', (req: Request, res: Response) => {
+  const user = req.user!;
+  let defaultTemplate: string | null;
+  try {
+    defaultTemplate = resolveTemplate(user, null).id;
+  } catch (error) {
+    if (!(error instanceof TemplateAccessError)) {
+      throw error;
+    }
+    defaultTemplate = null;
+  }
+  res.json({
+    tiers: config.sandboxTiers,
+    tier: tierFor(user),
+    default: defaultTemplate,
+    templates: listTemplates().map((template) => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      tier: template.tier,
+      cpus: template.cpus,
+      memory: template.memory,
+      storage: template.storage,
+      allowed: canUseTemplate(user, template),
+    })),
+  });
+});
@@ -0,0 +1,54 @@
+import { Request, Response, Router } from 'express';
+import { config } from '../config/env.js';
+import { requireAdmin, requireAuth } from '../auth/middleware.js';
+import { getAllSessions } from '../session/registry.js';
+import { getUsage, listUsage } from '../workspace/usage.js';
+import { quotaFor, workspaceForUser } from '../workspace/workspaces.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Workspaces' });
+
+function handleWorkspaceError(res: Response, error: unknown): void {
+  log.error('Error handling workspace request', { path: res.req.originalUrl, userId: res.req.user?.id, error });
+  res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+}
+
+function activeSessions(workspaceId: string): number {
+  return getAllSessions().filter((session) => session.workspace.id === workspaceId).length;
+}
+
+export const workspacesRouter: Router = Router();
+
+workspacesRouter.use(requireAuth);
+
+// The caller's own workspace and its last measured usage
+workspacesRouter.get('/mine', async (req: Request, res: Response) => {
+  try {
+    const workspace = workspaceForUser(req.user!.id);
+    res.json({ ...workspace, quota: quotaFor(workspace.id), usage: await getUsage(workspace.id) });
+  } catch (error) {
+    handleWorkspaceError(res, error);
+  }
+});
+
+// Every known workspace (configured users, measured, or in use), for admins picking one to open
+workspacesRouter.get('/', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const usage = await listUsage();
+    const ids = new Set([
+      ...Object.keys(config.authApiKeys).map((userId) => workspaceForUser(userId).id),
+      ...usage.map((entry) => entry.workspaceId),
+      ...getAllSessions().map((session) => session.workspace.id),
+    ]);
+    res.json({
+      workspaces: [...ids].sort().map((id) => ({
+        id,
+        quota: quotaFor(id),
+        usage: usage.find((entry) => entry.workspaceId === id) ?? null,
+        activeSessions: activeSessions(id),
+      })),
+    });
+  } catch (error) {
+    handleWorkspaceError(res, error);
+  }
+});
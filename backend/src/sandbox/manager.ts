@@ -1,355 +1,730 @@
-import { Sandbox, CommandHandle } from 'e2b';
+import { randomUUID } from 'crypto';
 import { config } from '../config/env.js';
-import { AzureBlobConfigManager } from '../storage/azure-blob.js';
-import { R2StorageManager } from '../storage/r2.js';
-import { readFile } from 'fs/promises';
-import { homedir } from 'os';
-import { join } from 'path';
+import { BindMount, getSandboxProvider, PtyHandle, SandboxInstance } from './provider.js';
+import { ProvisionedSandbox, SandboxPool } from './pool.js';
+import { getTemplate, SandboxTemplate } from './templates.js';
+import { getStorageBackend, StorageBackend, StorageContext } from '../storage/backend.js';
+import { getSessionSecrets } from '../secrets/registry.js';
+import { Workspace } from '../workspace/workspaces.js';
+import { SnapshotInfo } from '../snapshot/store.js';
+import { restoreSnapshot } from '../snapshot/snapshots.js';
+import { checkoutRepository, configureCredentialHelper, credentialEntry, GitRepository } from '../git/repository.js';
+import { cleanupErrors, ptyBytes, sandboxAcquireSeconds, storageMounts } from '../metrics/metrics.js';
+import { Logger, logger } from '../logging/logger.js';
 
 export interface SandboxProcess {
   write: (data: string) => void;
   resize: (cols: number, rows: number) => void;
+  // Flow control: stop reading output while the client catches up; no-ops if the provider can't pause
+  pause: () => void;
+  resume: () => void;
   kill: () => Promise<void>;
 }
 
+// Size every PTY starts at until the client reports its terminal dimensions
+export const INITIAL_PTY_SIZE = { cols: 80, rows: 24 };
+
+// Set in every terminal shell's environment and so inherited by everything started from it
+const TERMINAL_MARKER = 'CLOUD_DEV_TERMINAL';
+// The session channel a terminal shell serves, so the command audit log can tell terminals apart
+const TERMINAL_CHANNEL = 'CLOUD_DEV_CHANNEL';
+
+// Counts processes carrying `marker` whose parent carries it too, i.e. anything running under one of its terminal shells
+function countTerminalProcesses(marker: string): string {
+  return (
+    `marked=' '; for p in /proc/[0-9]*; do grep -qsxz '${TERMINAL_MARKER}=${marker}' "$p/environ" && marked="$marked\${p#/proc/} "; done; ` +
+    `n=0; for pid in $marked; do ppid=$(awk '/^PPid:/ { print $2 }' /proc/$pid/status 2>/dev/null); ` +
+    `case "$marked" in *" $ppid "*) n=$((n + 1));; esac; done; echo $n`
+  );
+}
+
+// Prints the hex port of every TCP socket listening (state 0A) in /proc/net that belongs to a process carrying `marker`
+function listTerminalPorts(marker: string): string {
+  return (
+    `inodes=' '; for p in /proc/[0-9]*; do grep -qsxz '${TERMINAL_MARKER}=${marker}' "$p/environ" && ` +
+    `inodes="$inodes$(ls -l "$p/fd" 2>/dev/null | sed -n 's/.*socket:\\[\\([0-9]*\\)\\]$/\\1/p' | tr '\\n' ' ')"; done; ` +
+    `cat /proc/net/tcp /proc/net/tcp6 2>/dev/null | ` +
+    `awk -v inodes="$inodes" '$4 == "0A" && index(inodes, " " $10 " ") { split($2, addr, ":"); print addr[2] }'`
+  );
+}
+
+// Escapes backslashes, tabs and line breaks in the named shell variable, for one tab-separated field
+function escapeField(name: string): string {
+  return `${name}=\${${name}//\\\\/\\\\\\\\}; ${name}=\${${name}//$'\\t'/\\\\t}; ` +
+    `${name}=\${${name}//$'\\n'/\\\\n}; ${name}=\${${name}//$'\\r'/\\\\r}`;
+}
+
+/**
+ * Appended to .bashrc: after each interactive command line, appends its start
+ * time and duration (microseconds), exit code, terminal channel, working
+ * directory and text to `logPath` as one tab-separated line. The text comes from history, so a
+ * pipeline is recorded whole; lines history skipped fall back to the first
+ * command run.
+ */
+function commandAuditHook(logPath: string): string {
+  return [
+    `__cloud_dev_audit_log='${logPath}'`,
+    '__cloud_dev_now() { __cloud_dev_time=${EPOCHREALTIME/[.,]/}; [ -n "$__cloud_dev_time" ] || __cloud_dev_time=$(date +%s%6N); }',
+    '__cloud_dev_preexec() {',
+    '  [ -n "$__cloud_dev_start" ] || [ "$BASH_COMMAND" = __cloud_dev_report ] && return',
+    '  local entry; entry=$(HISTTIMEFORMAT= builtin history 1)',
+    '  if [[ $entry =~ ^[[:space:]]*([0-9]+)[*]?[[:space:]]+(.*)$ ]] && [ "${BASH_REMATCH[1]}" != "$__cloud_dev_histnum" ]; then',
+    '    __cloud_dev_histnum=${BASH_REMATCH[1]}; __cloud_dev_command=${BASH_REMATCH[2]}',
+    '  else',
+    '    __cloud_dev_command=$BASH_COMMAND',
+    '  fi',
+    '  __cloud_dev_now; __cloud_dev_start=$__cloud_dev_time',
+    '}',
+    '__cloud_dev_report() {',
+    '  local code=$? cwd=$PWD command',
+    '  if [ -n "$__cloud_dev_start" ]; then',
+    '    __cloud_dev_now; command=$__cloud_dev_command',
+    `    ${escapeField('cwd')}; ${escapeField('command')}`,
+    `    printf '%s\\t%s\\t%s\\t%s\\t%s\\t%s\\n' "$__cloud_dev_start" "$((__cloud_dev_time - __cloud_dev_start))" "$code" "$${TERMINAL_CHANNEL}" "$cwd" "$command" >> "$__cloud_dev_audit_log"`,
+    '    unset __cloud_dev_start',
+    '  fi',
+    '  return $code',
+    '}',
+    'PROMPT_COMMAND=__cloud_dev_report',
+    // Last, so no line of .bashrc is reported
+    'trap __cloud_dev_preexec DEBUG',
+    '',
+  ].join('\n');
+}
+
+export interface SandboxCreateOptions {
+  sessionId: string;
+  /** Session channel the first shell serves */
+  channel: string;
+  /** Owner of the session; selects the per-user secrets injected into its shells */
+  userId: string;
+  /** Catalog template the sandbox is created from; decides its resources and whether storage is mounted */
+  template: SandboxTemplate;
+  /** Workspace whose storage prefix is mounted and used as the working directory */
+  workspace: Workspace;
+  /** Snapshot of the workspace to restore before the first shell starts */
+  restoreSnapshot?: SnapshotInfo;
+  /** Repository to check out in the workspace (after any restore) and open terminals in */
+  repository?: GitRepository;
+}
+
+export interface SandboxManagerHooks {
+  /** Runs during teardown while the sandbox and its storage mount are still available */
+  beforeCleanup?: () => Promise<void>;
+}
+
 export class SandboxManager {
-  private sandbox: Sandbox | null = null;
-  private ptyHandle: CommandHandle | null = null;
-  private cleanupTimer: NodeJS.Timeout | null = null;
+  private sandbox: SandboxInstance | null = null;
+  private template: string | null = null;
+  private ptyHandles = new Map<number, PtyHandle>();
+  private workingDir = '/home/user';
+  // Where terminals start: the repository checkout if there is one, else the workspace
+  private terminalDir: string | null = null;
   private isMounted: boolean = false;
+  // The storage backend when the template mounts the workspace
+  private storage: StorageBackend | null = null;
+  private workspace: Workspace | null = null;
+  private cleanupPromise: Promise<void> | null = null;
+  // Environment-mounted secrets, passed to every PTY rather than written to dotfiles
+  private secretEnvs: Record<string, string> = {};
+  // Set in every PTY's environment; unique per manager since sessions can share a sandbox or host
+  private readonly terminalMarker = randomUUID();
+
+  private readonly log: Logger;
+
+  /**
+   * `context` is the owning session's logger; the sandbox ID is added to it
+   * once a sandbox is assigned, so the session's own lines carry it too.
+   */
+  constructor(
+    private readonly hooks: SandboxManagerHooks = {},
+    private readonly context: Logger = logger.child({})
+  ) {
+    this.log = context.child({ component: 'SandboxManager' });
+  }
 
   async create(
-    onOutput: (data: string) => void,
+    options: SandboxCreateOptions,
+    onOutput: (data: Uint8Array) => void,
     onExit: (code: number) => void
   ): Promise<SandboxProcess> {
     try {
-      if (config.e2bSandboxId) {
-        console.log(`[SandboxManager] Connecting to existing sandbox: ${config.e2bSandboxId}`);
-        this.sandbox = await Sandbox.connect(config.e2bSandboxId, {
-          apiKey: config.e2bApiKey,
-          timeoutMs: config.sandboxTimeout * 1000,
-        });
-        console.log(`[SandboxManager] Connected to sandbox: ${this.sandbox.sandboxId}`);
-      } else {
-        console.log('[SandboxManager] Creating new e2b sandbox...');
-        // Use custom template with s3fs when cloud storage is enabled
-        const templateId = config.cloudStorageEnabled ? 'hgmbd8en87y8om2hshd2' : 'base';
-        this.sandbox = await Sandbox.create(templateId, {
-          apiKey: config.e2bApiKey,
-          timeoutMs: config.sandboxTimeout * 1000,
-        });
-        console.log(`[SandboxManager] Sandbox created: ${this.sandbox.sandboxId} (template: ${templateId}, 4 vCPU, 4GB RAM)`);
-        console.log(`[SandboxManager] To reuse this sandbox, set E2B_SANDBOX_ID=${this.sandbox.sandboxId}`);
+      await this.acquireSandbox(options.template, options.workspace);
+      // After acquiring, since warm sandboxes are provisioned before their user is known
+      await this.injectSecrets(options.userId);
+      await this.configureGitCredentials();
+      await this.prepareWorkspace(options.workspace);
+      if (options.restoreSnapshot) {
+        const owner = { userId: options.userId, workspaceId: options.workspace.id, sessionId: options.sessionId };
+        await restoreSnapshot(this, options.restoreSnapshot, owner);
       }
-
-      if (config.cloudStorageEnabled) {
-        if (config.cloudStorageType === 'r2') {
-          await this.mountR2();
-        } else if (config.azureStorageEnabled) {
-          // Copy Azure CLI credentials if using CLI auth mode
-          if (config.azureAuthMode === 'cli') {
-            await this.copyAzureCliCredentials();
-          }
-          await this.mountAzureBlob();
-        }
+      if (options.repository) {
+        this.terminalDir = await checkoutRepository(
+          this.commands,
+          this.workingDir,
+          options.repository,
+          this.context.child({ component: 'Git' })
+        );
       }
+      await this.writeShellConfig(options.repository?.setupScript ?? null);
 
-      const mountPoint = config.cloudStorageEnabled && config.cloudStorageType === 'r2'
-        ? R2StorageManager.getMountPoint()
-        : config.azureStorageEnabled
-        ? AzureBlobConfigManager.getMountPoint()
-        : '/home/user';
-
-      const storageMessage = config.cloudStorageEnabled && config.cloudStorageType === 'r2'
-        ? `echo "Cloudflare R2 storage mounted at ${R2StorageManager.getMountPoint()}"\n`
-        : config.azureStorageEnabled
-        ? `echo "Azure Blob Storage mounted at ${AzureBlobConfigManager.getMountPoint()}"\n`
-        : 'echo "Note: Cloud storage disabled - files will not persist"\n';
-
-      // Write .bashrc with environment setup
-      await this.sandbox.files.write(
-        '/home/user/.bashrc',
-        'export ANTHROPIC_API_KEY=' + config.anthropicApiKey + '\n' +
-        'export PS1="\\[\\033[01;32m\\]\\u@sandbox\\[\\033[00m\\]:\\[\\033[01;34m\\]\\w\\[\\033[00m\\]\\$ "\n' +
-        'cd ' + mountPoint + '\n' +
-        'clear\n' +
-        'echo "Welcome to Cloud Dev Environment powered by e2b"\n' +
-        'echo "Claude Code is available - try: claude --help"\n' +
-        storageMessage +
-        'echo ""\n'
-      );
-
-      // Pre-configure Claude Code
-      await this.sandbox.commands.run('mkdir -p /home/user/.config/claude');
-      await this.sandbox.files.write(
-        '/home/user/.config/claude/config.json',
-        JSON.stringify({
-          api_key: config.anthropicApiKey,
-          default_model: 'claude-sonnet-4-20250514',
-          auto_update_check: false
-        }, null, 2)
-      );
-
-      this.ptyHandle = await this.sandbox.pty.create({
-        cols: 80,
-        rows: 24,
-        timeoutMs: 0, // Disable timeout for long-running shell sessions
-        onData: (data: Uint8Array) => {
-          const text = new TextDecoder().decode(data);
-          onOutput(text);
-        },
-        envs: {
-          TERM: 'xterm-256color',
-          ANTHROPIC_API_KEY: config.anthropicApiKey,
-        },
-        cwd: config.azureStorageEnabled ? AzureBlobConfigManager.getMountPoint() : '/home/user',
-      });
-
-      console.log('[SandboxManager] PTY started');
-
-      this.startCleanupTimer();
-
-      this.ptyHandle.wait().then(() => {
-        console.log('[SandboxManager] PTY exited');
-        onExit(this.ptyHandle?.exitCode ?? 0);
-        this.cleanup();
-      }).catch((error) => {
-        console.error('[SandboxManager] PTY error:', error);
-        onExit(1);
-        this.cleanup();
-      });
-
-      const ptyPid = this.ptyHandle.pid;
-      const sandboxRef = this.sandbox;
-
-      return {
-        write: (data: string) => {
-          if (sandboxRef && ptyPid) {
-            const encoder = new TextEncoder();
-            sandboxRef.pty.sendInput(ptyPid, encoder.encode(data));
-            this.resetCleanupTimer();
-          }
-        },
-        resize: (cols: number, rows: number) => {
-          if (sandboxRef && ptyPid) {
-            console.log(`[SandboxManager] Terminal resize: ${cols}x${rows}`);
-            sandboxRef.pty.resize(ptyPid, { cols, rows });
-          }
-        },
-        kill: async () => {
-          await this.cleanup();
-        },
-      };
+      return await this.startPty(options.channel, onOutput, onExit);
     } catch (error) {
-      console.error('[SandboxManager] Error creating sandbox:', error);
+      this.log.error('Error creating sandbox', { error });
       await this.cleanup();
       throw error;
     }
   }
 
-  private async copyAzureCliCredentials(): Promise<void> {
+  /**
+   * Creates and prepares a sandbox without starting a shell, for the warm
+   * pool to hand out later. Storage is mounted once a session claims it.
+   */
+  static async provisionWarm(templateId: string): Promise<ProvisionedSandbox> {
+    const template = getTemplate(templateId);
+    if (!template) {
+      throw new Error(`Unknown sandbox template: ${templateId}`);
+    }
+    const manager = new SandboxManager();
+    manager.storage = template.storage ? getStorageBackend() : null;
+    try {
+      await manager.provision(template);
+    } catch (error) {
+      await manager.cleanup();
+      throw error;
+    }
+    return { sandbox: manager.sandbox!, templateId };
+  }
+
+  static async destroyProvisioned(provisioned: ProvisionedSandbox): Promise<void> {
+    const manager = new SandboxManager();
+    manager.adopt(provisioned);
+    await manager.destroy();
+  }
+
+  private async acquireSandbox(template: SandboxTemplate, workspace: Workspace): Promise<void> {
+    this.storage = template.storage ? getStorageBackend() : null;
+
+    // Bind mounts are fixed at creation, so a warm sandbox can't take on a workspace that needs one
+    const bindMounts = this.storage?.bindMounts(workspace.id) ?? [];
+    const warm = bindMounts.length === 0 ? sandboxPool.acquire(template.id) : null;
+    if (!warm) {
+      await this.provision(template, bindMounts);
+      return;
+    }
+
+    this.adopt(warm);
+    // Warm sandboxes have been idling against their provider timeout; give the session the full lifetime
+    await warm.sandbox.extendTimeout(config.sandboxTimeout * 1000);
+    this.log.info('Using warm sandbox from pool', { template: template.id });
+  }
+
+  private adopt(provisioned: ProvisionedSandbox): void {
+    this.sandbox = provisioned.sandbox;
+    this.template = provisioned.templateId;
+    this.context.assign({ sandboxId: provisioned.sandbox.sandboxId });
+  }
+
+  private async provision(template: SandboxTemplate, bindMounts: BindMount[] = []): Promise<void> {
+    const provider = getSandboxProvider();
+    const storage = this.storage;
+    if (storage) {
+      const { problems } = storage.health();
+      if (problems.length > 0) {
+        throw new Error(`${storage.displayName} configuration incomplete: ${problems.join(', ')}`);
+      }
+    }
+    const sandboxOptions = {
+      timeoutMs: config.sandboxTimeout * 1000,
+      bindMounts,
+      resources: { cpus: template.cpus, memory: template.memory },
+    };
+
+    const operation = config.e2bSandboxId ? 'connect' : 'create';
+    const started = Date.now();
+    try {
+      if (config.e2bSandboxId) {
+        this.log.info(`Connecting to existing ${provider.name} sandbox`, { sandboxId: config.e2bSandboxId });
+        this.sandbox = await provider.connect(config.e2bSandboxId, sandboxOptions);
+        this.context.assign({ sandboxId: this.sandbox.sandboxId });
+        this.log.info('Connected to sandbox');
+      } else {
+        this.log.info(`Creating new ${provider.name} sandbox...`, { template: template.id, image: template.image });
+        this.sandbox = await provider.create(template.image, sandboxOptions);
+        this.context.assign({ sandboxId: this.sandbox.sandboxId });
+        this.log.info('Sandbox created; to reuse it, set E2B_SANDBOX_ID to its ID', { template: template.id });
+      }
+      sandboxAcquireSeconds.observe({ provider: provider.name, operation, outcome: 'success' }, (Date.now() - started) / 1000);
+    } catch (error) {
+      sandboxAcquireSeconds.observe({ provider: provider.name, operation, outcome: 'failure' }, (Date.now() - started) / 1000);
+      throw error;
+    }
+
+    this.template = template.id;
+
+    if (storage?.requiresFuse && !this.sandbox.supportsStorageMounts) {
+      throw new Error(`${storage.displayName} mounts are not supported by the ${provider.name} sandbox provider`);
+    }
+
+    const homeDir = this.sandbox.homeDir;
+
+    // Storage credentials are written here, so it must exist before mounting
+    await this.createSecretsDir();
+
+    // Pre-configure Claude Code; it reads the API key from ANTHROPIC_API_KEY
+    await this.sandbox.commands.run(`mkdir -p ${homeDir}/.config/claude`);
+    await this.sandbox.files.write(
+      `${homeDir}/.config/claude/config.json`,
+      JSON.stringify({
+        default_model: config.claudeModel,
+        auto_update_check: false
+      }, null, 2)
+    );
+  }
+
+  /** Mounts the workspace's storage prefix and makes it the working directory */
+  private async prepareWorkspace(workspace: Workspace): Promise<void> {
     if (!this.sandbox) {
       throw new Error('Sandbox not initialized');
     }
 
-    try {
-      console.log('[SandboxManager] Copying Azure CLI credentials to sandbox...');
+    this.workspace = workspace;
+    const storage = this.storage;
+    if (storage) {
+      await this.mountStorage(storage);
+    }
 
-      const azureConfigDir = join(homedir(), '.azure');
+    this.workingDir = storage ? storage.mountPoint(workspace.id) : this.sandbox.homeDir;
+  }
 
-      // Copy key Azure CLI files
-      const filesToCopy = [
-        'azureProfile.json',
-        'accessTokens.json',
-        'msal_token_cache.json',
-        'msal_http_cache.bin',
-        'clouds.config',
-        'config'
-      ];
+  /**
+   * Writes .bashrc with environment setup; secrets arrive through the PTY
+   * environment instead. A setup script is run by the first shell only.
+   */
+  private async writeShellConfig(setupScript: string | null): Promise<void> {
+    if (!this.sandbox || !this.workspace) {
+      throw new Error('Sandbox not initialized');
+    }
 
-      for (const filename of filesToCopy) {
-        try {
-          const filepath = join(azureConfigDir, filename);
-          const content = await readFile(filepath, 'utf-8');
-          await this.sandbox.files.write(`/root/.azure/${filename}`, content);
-          console.log(`[SandboxManager] Copied ${filename} to sandbox`);
-        } catch (error) {
-          // Some files might not exist, that's okay
-          console.log(`[SandboxManager] Skipping ${filename} (not found or inaccessible)`);
-        }
-      }
+    const homeDir = this.sandbox.homeDir;
+    const storage = this.storage;
+    const storageMessage = storage
+      ? `echo "${storage.displayName} mounted at ${this.workingDir} (workspace ${this.workspace.id})"\n`
+      : 'echo "Note: Cloud storage disabled - files will not persist"\n';
+    const repositoryMessage = this.terminalDir ? `echo "Repository checked out at ${this.terminalDir}"\n` : '';
+    const auditHook = config.commandAuditInterval > 0 ? commandAuditHook(this.commandAuditLog(homeDir)) : '';
+
+    let setup = '';
+    if (setupScript) {
+      const scriptPath = `${homeDir}/.session-setup.sh`;
+      await this.sandbox.files.write(scriptPath, setupScript);
+      // Renamed before running so terminals opened later don't run it again
+      setup =
+        `if [ -f ${scriptPath} ]; then\n` +
+        `  mv ${scriptPath} ${scriptPath}.done\n` +
+        '  echo "Running setup script..."\n' +
+        `  bash ${scriptPath}.done || echo "Setup script failed with exit code $?"\n` +
+        'fi\n';
+    }
 
-      console.log('[SandboxManager] Azure CLI credentials copied successfully');
-    } catch (error) {
-      console.error('[SandboxManager] Error copying Azure CLI credentials:', error);
-      throw new Error(
-        'Failed to copy Azure CLI credentials. Please ensure you have run "az login" on your host machine.\n' +
-        `Error: ${error instanceof Error ? error.message : String(error)}`
-      );
+    await this.sandbox.files.write(
+      `${homeDir}/.bashrc`,
+      'export PS1="\\[\\033[01;32m\\]\\u@sandbox\\[\\033[00m\\]:\\[\\033[01;34m\\]\\w\\[\\033[00m\\]\\$ "\n' +
+      'cd ' + (this.terminalDir ?? this.workingDir) + '\n' +
+      'clear\n' +
+      'echo "Welcome to Cloud Dev Environment powered by e2b"\n' +
+      'echo "Claude Code is available - try: claude --help"\n' +
+      storageMessage +
+      repositoryMessage +
+      'echo ""\n' +
+      setup +
+      auditHook
+    );
+  }
+
+  /**
+   * Starts an additional shell on the already-created sandbox. The sandbox is
+   * torn down once its last PTY exits.
+   */
+  async openPty(
+    channel: string,
+    onOutput: (data: Uint8Array) => void,
+    onExit: (code: number) => void
+  ): Promise<SandboxProcess> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
     }
+    return this.startPty(channel, onOutput, onExit);
+  }
+
+  /** Root of the session's workspace: the storage mount point, or the home directory without cloud storage */
+  get workspaceDir(): string {
+    return this.workingDir;
   }
 
-  private async mountR2(): Promise<void> {
+  get hasStorageMount(): boolean {
+    return this.isMounted;
+  }
+
+  // Per manager, since sessions can share a sandbox or host
+  private commandAuditLog(homeDir: string): string {
+    return `${homeDir}/.cloud-dev-audit-${this.terminalMarker}.log`;
+  }
+
+  get sandboxId(): string | null {
+    return this.sandbox?.sandboxId ?? null;
+  }
+
+  get templateId(): string | null {
+    return this.template;
+  }
+
+  /** Sets the provider's timeout to `timeoutMs` from now; when the session ends is up to its policy */
+  async keepAlive(timeoutMs: number): Promise<void> {
     if (!this.sandbox) {
       throw new Error('Sandbox not initialized');
     }
+    await this.sandbox.extendTimeout(timeoutMs);
+    this.log.debug('Extended sandbox timeout', { timeoutMs });
+  }
 
-    if (!config.r2AccessKeyId || !config.r2SecretAccessKey || !config.r2Endpoint || !config.r2Bucket) {
-      throw new Error('R2 configuration incomplete. Need: R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, R2_ENDPOINT, R2_BUCKET');
+  /** Whether anything is running under a terminal shell, e.g. a build or Claude Code */
+  async hasActiveProcesses(): Promise<boolean> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
+    const result = await this.sandbox.commands.run(countTerminalProcesses(this.terminalMarker));
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to list processes: ${result.stderr}`);
     }
+    return parseInt(result.stdout, 10) > 0;
+  }
 
-    try {
-      console.log('[SandboxManager] Mounting Cloudflare R2 storage...');
-
-      // Write credentials using E2B file API
-      const credentialsContent = R2StorageManager.getCredentialsContent(
-        config.r2AccessKeyId,
-        config.r2SecretAccessKey
-      );
-      await this.sandbox.files.write(R2StorageManager.getCredentialsFile(), credentialsContent);
-
-      // Run mount commands
-      const commands = R2StorageManager.getMountCommands(config.r2Bucket, config.r2Endpoint);
-
-      for (const cmd of commands) {
-        const result = await this.sandbox.commands.run(cmd);
-        if (result.exitCode !== 0) {
-          throw new Error(`Command failed: ${cmd}\nstderr: ${result.stderr}`);
-        }
-      }
+  /** Ports that servers started from the session's terminals listen on, ascending */
+  async listListeningPorts(): Promise<number[]> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
+    const result = await this.sandbox.commands.run(listTerminalPorts(this.terminalMarker));
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to list listening ports: ${result.stderr}`);
+    }
+    const ports = result.stdout.split('\n').filter(Boolean).map((hex) => parseInt(hex, 16));
+    return [...new Set(ports)].sort((a, b) => a - b);
+  }
 
-      console.log('[SandboxManager] R2 storage mounted successfully at:', R2StorageManager.getMountPoint());
-      this.isMounted = true;
-    } catch (error) {
-      console.error('[SandboxManager] Error mounting R2 storage:', error);
-      throw new Error(`R2 storage mount failed: ${error instanceof Error ? error.message : String(error)}`);
+  /**
+   * Lines the session's shells appended to the command audit log after the
+   * first `skip`; a line still being written is left for the next read.
+   */
+  async readCommandAudit(skip: number): Promise<string[]> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
+    const log = this.commandAuditLog(this.sandbox.homeDir);
+    const result = await this.sandbox.commands.run(`[ ! -f ${log} ] || tail -n +${skip + 1} ${log}`);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to read the command audit log: ${result.stderr}`);
     }
+    const lines = result.stdout.split('\n');
+    // Everything up to the last newline is complete
+    lines.pop();
+    return lines;
   }
 
-  private startCleanupTimer(): void {
-    this.cleanupTimer = setTimeout(() => {
-      console.log('[SandboxManager] Sandbox timeout - cleaning up');
-      this.cleanup();
-    }, config.sandboxTimeout * 1000);
+  /** Base URL at which a server listening on `port` in the sandbox is reached from here */
+  async portUrl(port: number): Promise<string> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
+    return this.sandbox.portUrl(port);
   }
 
-  private resetCleanupTimer(): void {
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
-      this.startCleanupTimer();
+  /** Bytes used by the session's workspace, as seen from inside the sandbox */
+  async measureWorkspaceUsage(): Promise<number> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
     }
+
+    // Sum file sizes rather than du, which also counts directory entries
+    const result = await this.sandbox.commands.run(
+      `find ${this.workingDir} -type f -printf '%s\\n' | awk '{ total += $1 } END { print total + 0 }'`
+    );
+    const bytes = parseInt(result.stdout, 10);
+    if (result.exitCode !== 0 || Number.isNaN(bytes)) {
+      throw new Error(`Failed to measure ${this.workingDir}: ${result.stderr}`);
+    }
+    return bytes;
   }
 
-  private async mountAzureBlob(): Promise<void> {
+  get files(): SandboxInstance['files'] {
     if (!this.sandbox) {
       throw new Error('Sandbox not initialized');
     }
+    return this.sandbox.files;
+  }
 
-    try {
-      console.log('[SandboxManager] Mounting Azure Blob Storage...');
+  get commands(): SandboxInstance['commands'] {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
+    return this.sandbox.commands;
+  }
 
-      // Validate Azure CLI authentication if using CLI mode
-      if (config.azureAuthMode === 'cli') {
-        console.log('[SandboxManager] Validating Azure CLI authentication...');
+  async destroy(): Promise<void> {
+    await this.cleanup();
+  }
 
-        // Check if az command is available
-        const azCheckResult = await this.sandbox.commands.run('which az');
-        if (azCheckResult.exitCode !== 0) {
-          throw new Error('Azure CLI is not installed in the sandbox. Please update the E2B Dockerfile to install Azure CLI.');
-        }
+  private async startPty(
+    channel: string,
+    onOutput: (data: Uint8Array) => void,
+    onExit: (code: number) => void
+  ): Promise<SandboxProcess> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
 
-        // Verify user is logged in
-        const azLoginCheck = await this.sandbox.commands.run('az account show');
-        if (azLoginCheck.exitCode !== 0) {
-          throw new Error(
-            'Azure CLI authentication required. Please run "az login" on your host machine before starting the sandbox.\n' +
-            'Error: ' + azLoginCheck.stderr
-          );
+    const sandboxRef = this.sandbox;
+    const ptyHandle = await sandboxRef.pty.create({
+      ...INITIAL_PTY_SIZE,
+      onData: (data) => {
+        ptyBytes.inc({ direction: 'out' }, data.length);
+        onOutput(data);
+      },
+      envs: {
+        TERM: 'xterm-256color',
+        [TERMINAL_MARKER]: this.terminalMarker,
+        [TERMINAL_CHANNEL]: channel,
+        ...this.secretEnvs,
+      },
+      cwd: this.terminalDir ?? this.workingDir,
+    });
+
+    const ptyPid = ptyHandle.pid;
+    this.ptyHandles.set(ptyPid, ptyHandle);
+    this.log.info('PTY started', { pid: ptyPid });
+
+    const onPtyDone = (exitCode: number) => {
+      this.ptyHandles.delete(ptyPid);
+      onExit(exitCode);
+      if (this.ptyHandles.size === 0) {
+        this.cleanup();
+      }
+    };
+
+    ptyHandle.wait().then((exitCode) => {
+      this.log.info('PTY exited', { pid: ptyPid, exitCode });
+      onPtyDone(exitCode);
+    }).catch((error) => {
+      this.log.error('PTY error', { pid: ptyPid, error });
+      onPtyDone(1);
+    });
+
+    return {
+      write: (data: string) => {
+        if (this.ptyHandles.has(ptyPid)) {
+          const bytes = new TextEncoder().encode(data);
+          ptyBytes.inc({ direction: 'in' }, bytes.length);
+          sandboxRef.pty.sendInput(ptyPid, bytes).catch((error) => {
+            this.log.warn('Error writing to PTY', { pid: ptyPid, error });
+          });
         }
+      },
+      resize: (cols: number, rows: number) => {
+        if (this.ptyHandles.has(ptyPid)) {
+          this.log.debug('Terminal resize', { pid: ptyPid, cols, rows });
+          sandboxRef.pty.resize(ptyPid, { cols, rows }).catch((error) => {
+            this.log.warn('Error resizing PTY', { pid: ptyPid, cols, rows, error });
+          });
+        }
+      },
+      pause: () => {
+        if (this.ptyHandles.has(ptyPid)) {
+          sandboxRef.pty.pause?.(ptyPid);
+        }
+      },
+      resume: () => {
+        if (this.ptyHandles.has(ptyPid)) {
+          sandboxRef.pty.resume?.(ptyPid);
+        }
+      },
+      kill: async () => {
+        if (!this.ptyHandles.has(ptyPid)) {
+          return;
+        }
+        try {
+          await sandboxRef.pty.kill(ptyPid);
+        } catch (error) {
+          this.log.error('Error killing PTY', { pid: ptyPid, error });
+        }
+      },
+    };
+  }
 
-        console.log('[SandboxManager] Azure CLI authentication validated successfully');
-      }
+  private async createSecretsDir(): Promise<void> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
 
-      const configYaml = AzureBlobConfigManager.generateConfigYaml();
-      await this.sandbox.files.write(
-        AzureBlobConfigManager.getConfigFilePath(),
-        configYaml
-      );
+    const result = await this.sandbox.commands.run(`install -d -m 700 ${this.sandbox.secretsDir}`);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to create secrets directory: ${result.stderr}`);
+    }
+  }
 
-      console.log('[SandboxManager] Blobfuse2 config written to:', AzureBlobConfigManager.getConfigFilePath());
+  /** Writes a file readable only by the sandbox user; `path` must be inside the secrets directory */
+  private async writeSecretFile(path: string, content: string): Promise<void> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
 
-      const mountCommand = AzureBlobConfigManager.getMountCommand();
-      console.log('[SandboxManager] Executing mount command:', mountCommand);
+    // The directory is already 0700, so the file is never exposed before the chmod
+    await this.sandbox.files.write(path, content);
+    const result = await this.sandbox.commands.run(`chmod 600 ${path}`);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to restrict permissions on ${path}: ${result.stderr}`);
+    }
+  }
 
-      const result = await this.sandbox.commands.run(mountCommand);
+  /**
+   * Makes the user's secrets available to their shells: env secrets are kept
+   * for startPty, file secrets are written to the tmpfs secrets directory and
+   * their path exported as NAME_FILE.
+   */
+  private async injectSecrets(userId: string): Promise<void> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
 
-      if (result.exitCode !== 0) {
-        const logs = await this.sandbox.files.read(AzureBlobConfigManager.getLogPath()).catch(() => 'No logs available');
-        throw new Error(`Failed to mount Azure Blob Storage. Exit code: ${result.exitCode}. Logs: ${logs}`);
+    const envs: Record<string, string> = {};
+    for (const secret of getSessionSecrets(userId)) {
+      if (secret.mount === 'env') {
+        envs[secret.name] = secret.value;
+      } else {
+        const path = `${this.sandbox.secretsDir}/${secret.name}`;
+        await this.writeSecretFile(path, secret.value);
+        envs[`${secret.name}_FILE`] = path;
       }
+    }
+    this.secretEnvs = envs;
+    this.log.info(`Injected ${Object.keys(envs).length} secret(s)`);
+  }
 
-      console.log('[SandboxManager] Verifying mount...');
-      const verifyResult = await this.sandbox.commands.run(
-        `mountpoint -q ${AzureBlobConfigManager.getMountPoint()} && echo "MOUNTED" || echo "NOT_MOUNTED"`
-      );
+  /** Lets git authenticate to GIT_TOKEN_HOST with the server's token, kept in the tmpfs secrets directory */
+  private async configureGitCredentials(): Promise<void> {
+    if (!this.sandbox) {
+      throw new Error('Sandbox not initialized');
+    }
 
-      if (verifyResult.exitCode !== 0 || !verifyResult.stdout.includes('MOUNTED')) {
-        throw new Error('Mount verification failed');
-      }
+    const entry = credentialEntry();
+    if (!entry) {
+      return;
+    }
+    const path = `${this.sandbox.secretsDir}/git-credentials`;
+    await this.writeSecretFile(path, entry);
+    await configureCredentialHelper(this.sandbox.commands, path);
+    this.log.info('Configured Git credentials', { host: config.gitTokenHost });
+  }
+
+  private storageContext(): StorageContext {
+    if (!this.sandbox || !this.workspace) {
+      throw new Error('Sandbox not initialized');
+    }
+    return {
+      sandbox: this.sandbox,
+      prefix: this.workspace.id,
+      log: this.context.child({ component: 'Storage', backend: this.storage?.type }),
+      writeSecretFile: (path, content) => this.writeSecretFile(path, content),
+    };
+  }
 
+  private async mountStorage(storage: StorageBackend): Promise<void> {
+    const context = this.storageContext();
+    try {
+      this.log.info(`Mounting ${storage.displayName}...`);
+      await storage.setupCredentials(context);
+      await storage.mount(context);
+      // Set before verifying so a half-finished mount is still unmounted during cleanup
       this.isMounted = true;
-      console.log('[SandboxManager] Azure Blob Storage mounted successfully at:', AzureBlobConfigManager.getMountPoint());
+
+      this.log.debug('Verifying mount...');
+      if (!(await storage.verify(context))) {
+        throw new Error('Mount verification failed');
+      }
+      this.log.info(`${storage.displayName} mounted successfully`, { mountPoint: storage.mountPoint(context.prefix) });
+      storageMounts.inc({ backend: storage.type, outcome: 'success' });
     } catch (error) {
-      console.error('[SandboxManager] Error mounting Azure Blob Storage:', error);
-      throw new Error(`Azure Blob Storage mount failed: ${error instanceof Error ? error.message : String(error)}`);
+      storageMounts.inc({ backend: storage.type, outcome: 'failure' });
+      this.log.error(`Error mounting ${storage.displayName}`, { error });
+      throw new Error(`${storage.displayName} mount failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async unmountAzureBlob(): Promise<void> {
+  private async unmountStorage(storage: StorageBackend): Promise<void> {
     if (!this.sandbox || !this.isMounted) {
       return;
     }
 
     try {
-      console.log('[SandboxManager] Unmounting Azure Blob Storage...');
-
-      const unmountCommand = AzureBlobConfigManager.getUnmountCommand();
-      await this.sandbox.commands.run(unmountCommand);
-
+      this.log.info(`Unmounting ${storage.displayName}...`);
+      await storage.unmount(this.storageContext());
       this.isMounted = false;
-      console.log('[SandboxManager] Azure Blob Storage unmounted successfully');
+      this.log.info(`${storage.displayName} unmounted successfully`);
     } catch (error) {
-      console.error('[SandboxManager] Error unmounting Azure Blob Storage:', error);
+      cleanupErrors.inc({ stage: 'unmount' });
+      this.log.error(`Error unmounting ${storage.displayName}`, { error });
     }
   }
 
-  private async cleanup(): Promise<void> {
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
+  private cleanup(): Promise<void> {
+    // PTY exits during teardown trigger cleanup again; share the in-flight run
+    this.cleanupPromise ??= this.runCleanup().finally(() => {
+      this.cleanupPromise = null;
+    });
+    return this.cleanupPromise;
+  }
 
-    if (this.ptyHandle && this.sandbox) {
+  private async runCleanup(): Promise<void> {
+    if (this.sandbox && this.hooks.beforeCleanup) {
       try {
-        await this.sandbox.pty.kill(this.ptyHandle.pid);
+        await this.hooks.beforeCleanup();
       } catch (error) {
-        console.error('[SandboxManager] Error killing PTY:', error);
+        cleanupErrors.inc({ stage: 'hook' });
+        this.log.error('Error in cleanup hook', { error });
+      }
+    }
+
+    if (this.sandbox) {
+      for (const pid of this.ptyHandles.keys()) {
+        try {
+          await this.sandbox.pty.kill(pid);
+        } catch (error) {
+          cleanupErrors.inc({ stage: 'pty_kill' });
+          this.log.error('Error killing PTY', { pid, error });
+        }
       }
-      this.ptyHandle = null;
     }
+    this.ptyHandles.clear();
 
-    if (config.azureStorageEnabled) {
-      await this.unmountAzureBlob();
+    if (this.storage) {
+      await this.unmountStorage(this.storage);
     }
 
     if (this.sandbox) {
       try {
-        console.log(`[SandboxManager] Killing sandbox: ${this.sandbox.sandboxId}`);
+        this.log.info('Killing sandbox');
         await this.sandbox.kill();
       } catch (error) {
-        console.error('[SandboxManager] Error killing sandbox:', error);
+        cleanupErrors.inc({ stage: 'sandbox_kill' });
+        this.log.error('Error killing sandbox', { error });
       }
       this.sandbox = null;
     }
   }
 }
+
+export const sandboxPool = new SandboxPool({
+  templates: config.sandboxPoolTemplates.length > 0 ? config.sandboxPoolTemplates : [config.sandboxDefaultTemplate],
+  provision: (templateId) => SandboxManager.provisionWarm(templateId),
+  destroy: (provisioned) => SandboxManager.destroyProvisioned(provisioned),
+});
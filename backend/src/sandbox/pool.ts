@@ -0,0 +1,218 @@
+/**
+ * Warm Sandbox Pool
+ *
+ * Keeps SANDBOX_POOL_SIZE provisioned sandboxes (secrets directory and
+ * Claude config in place, no storage or shell yet) per template so new
+ * sessions skip the slow create path; the session's workspace is mounted
+ * once it claims one. Every hand-out triggers a background refill, and
+ * members are recycled before the provider's own timeout would kill them.
+ */
+
+import { config } from '../config/env.js';
+import { SandboxInstance } from './provider.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'SandboxPool' });
+
+export interface ProvisionedSandbox {
+  sandbox: SandboxInstance;
+  templateId: string;
+}
+
+export interface SandboxPoolOptions {
+  templates: string[];
+  provision: (templateId: string) => Promise<ProvisionedSandbox>;
+  destroy: (provisioned: ProvisionedSandbox) => Promise<void>;
+}
+
+export interface SandboxPoolStats {
+  enabled: boolean;
+  targetSize: number;
+  templates: Record<string, { ready: number; pending: number }>;
+  hits: number;
+  misses: number;
+  created: number;
+  recycled: number;
+  failures: number;
+}
+
+interface PoolMember {
+  provisioned: ProvisionedSandbox;
+  createdAt: number;
+}
+
+const RECYCLE_CHECK_INTERVAL_MS = 60 * 1000;
+// Replace members this long before the provider timeout would fire
+const TIMEOUT_MARGIN_SECONDS = 60;
+
+export class SandboxPool {
+  private members = new Map<string, PoolMember[]>();
+  private pending = new Map<string, number>();
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+  private recycleTimer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private counters = { hits: 0, misses: 0, created: 0, recycled: 0, failures: 0 };
+
+  constructor(private options: SandboxPoolOptions) {}
+
+  // A pinned E2B_SANDBOX_ID is shared by every session, so there is nothing to pool
+  get enabled(): boolean {
+    return config.sandboxPoolSize > 0 && !config.e2bSandboxId;
+  }
+
+  start(): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    log.info(`Warming ${config.sandboxPoolSize} sandbox(es) per template`, { templates: this.options.templates });
+    for (const templateId of this.options.templates) {
+      this.fill(templateId);
+    }
+    this.recycleTimer = setInterval(() => this.recycleStale(), RECYCLE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Takes a warm sandbox for the template, or returns null if none is ready.
+   * The caller owns the sandbox from then on. Templates the pool doesn't keep
+   * warm are neither counted nor filled.
+   */
+  acquire(templateId: string): ProvisionedSandbox | null {
+    if (!this.enabled || this.draining || !this.options.templates.includes(templateId)) {
+      return null;
+    }
+
+    const member = this.members.get(templateId)?.shift();
+    if (member) {
+      this.counters.hits++;
+    } else {
+      this.counters.misses++;
+    }
+    this.fill(templateId);
+
+    return member?.provisioned ?? null;
+  }
+
+  getStats(): SandboxPoolStats {
+    const templates: SandboxPoolStats['templates'] = {};
+    if (this.enabled) {
+      for (const templateId of this.options.templates) {
+        templates[templateId] = {
+          ready: this.members.get(templateId)?.length ?? 0,
+          pending: this.pending.get(templateId) ?? 0,
+        };
+      }
+    }
+
+    return {
+      enabled: this.enabled,
+      targetSize: config.sandboxPoolSize,
+      templates,
+      ...this.counters,
+    };
+  }
+
+  /**
+   * Stops refilling and destroys every idle member. Sandboxes still being
+   * provisioned are destroyed as soon as they finish.
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+
+    if (this.recycleTimer) {
+      clearInterval(this.recycleTimer);
+      this.recycleTimer = null;
+    }
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+
+    const idle = [...this.members.values()].flat();
+    this.members.clear();
+    if (idle.length > 0) {
+      log.info(`Destroying ${idle.length} warm sandbox(es)`);
+    }
+    await Promise.all(idle.map((member) => this.destroyMember(member)));
+  }
+
+  private fill(templateId: string): void {
+    if (this.draining || this.retryTimers.has(templateId)) {
+      return;
+    }
+
+    const ready = this.members.get(templateId)?.length ?? 0;
+    const pending = this.pending.get(templateId) ?? 0;
+    for (let i = ready + pending; i < config.sandboxPoolSize; i++) {
+      void this.provisionMember(templateId);
+    }
+  }
+
+  private async provisionMember(templateId: string): Promise<void> {
+    this.pending.set(templateId, (this.pending.get(templateId) ?? 0) + 1);
+
+    try {
+      const provisioned = await this.options.provision(templateId);
+      const member = { provisioned, createdAt: Date.now() };
+      this.counters.created++;
+
+      if (this.draining) {
+        await this.destroyMember(member);
+        return;
+      }
+
+      const members = this.members.get(templateId) ?? [];
+      members.push(member);
+      this.members.set(templateId, members);
+      log.info('Warm sandbox ready', { sandboxId: provisioned.sandbox.sandboxId, template: templateId });
+    } catch (error) {
+      this.counters.failures++;
+      log.error('Failed to provision warm sandbox', { template: templateId, error });
+      this.scheduleRetry(templateId);
+    } finally {
+      this.pending.set(templateId, (this.pending.get(templateId) ?? 1) - 1);
+    }
+  }
+
+  private scheduleRetry(templateId: string): void {
+    if (this.draining || this.retryTimers.has(templateId)) {
+      return;
+    }
+
+    // Wait before refilling after a failed provision so a broken provider isn't hammered
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(templateId);
+      this.fill(templateId);
+    }, config.sandboxPoolRetryDelay * 1000);
+    this.retryTimers.set(templateId, timer);
+  }
+
+  private recycleStale(): void {
+    const maxIdleSeconds = Math.min(config.sandboxPoolMaxIdle, config.sandboxTimeout - TIMEOUT_MARGIN_SECONDS);
+    const cutoff = Date.now() - maxIdleSeconds * 1000;
+
+    for (const [templateId, members] of this.members) {
+      const stale = members.filter((member) => member.createdAt <= cutoff);
+      if (stale.length === 0) {
+        continue;
+      }
+
+      this.members.set(templateId, members.filter((member) => member.createdAt > cutoff));
+      this.counters.recycled += stale.length;
+      log.info(`Recycling ${stale.length} idle sandbox(es)`, { template: templateId });
+
+      for (const member of stale) {
+        void this.destroyMember(member);
+      }
+      this.fill(templateId);
+    }
+  }
+
+  private async destroyMember(member: PoolMember): Promise<void> {
+    try {
+      await this.options.destroy(member.provisioned);
+    } catch (error) {
+      log.error('Failed to destroy sandbox', { sandboxId: member.provisioned.sandbox.sandboxId, error });
+    }
+  }
+}
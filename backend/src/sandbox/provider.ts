@@ -0,0 +1,118 @@
+import { config } from '../config/env.js';
+import { E2BSandboxProvider } from './providers/e2b.js';
+import { LocalSandboxProvider } from './providers/local.js';
+
+export interface CommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  modifiedTime?: string;
+}
+
+/** Thrown by providers when a file or directory does not exist in the sandbox */
+export class FileNotFoundError extends Error {
+  constructor(readonly path: string) {
+    super(`No such file or directory: ${path}`);
+    this.name = 'FileNotFoundError';
+  }
+}
+
+export interface PtyCreateOptions {
+  cols: number;
+  rows: number;
+  onData: (data: Uint8Array) => void;
+  envs?: Record<string, string>;
+  cwd?: string;
+}
+
+export interface PtyHandle {
+  readonly pid: number;
+  /** Resolves with the exit code once the PTY process ends */
+  wait: () => Promise<number>;
+}
+
+/** A host directory bound into the sandbox when it is created */
+export interface BindMount {
+  hostPath: string;
+  sandboxPath: string;
+}
+
+export interface SandboxOptions {
+  timeoutMs: number;
+  /** Only supported by local Docker sandboxes; other providers reject them */
+  bindMounts?: BindMount[];
+  /** Limits applied by local Docker sandboxes; e2b sandboxes get the resources their template was built with */
+  resources?: { cpus: number; memory: number };
+}
+
+/**
+ * A running sandbox as seen by SandboxManager. Mirrors the subset of the e2b
+ * `Sandbox` API we rely on, except that `commands.run` resolves with the result
+ * for any exit code instead of throwing on non-zero.
+ */
+export interface SandboxInstance {
+  readonly sandboxId: string;
+  /** Home directory of the sandbox user; dotfiles and Claude config live here */
+  readonly homeDir: string;
+  /** Directory on a tmpfs for secret files and storage credentials; never persisted */
+  readonly secretsDir: string;
+  /** Whether FUSE cloud storage can be mounted inside this sandbox */
+  readonly supportsStorageMounts: boolean;
+  files: {
+    read: (path: string) => Promise<string>;
+    readBytes: (path: string) => Promise<Uint8Array>;
+    /** Writes a file, creating parent directories as needed */
+    write: (path: string, content: string | Uint8Array) => Promise<void>;
+    list: (path: string) => Promise<FileEntry[]>;
+    stat: (path: string) => Promise<FileEntry>;
+    remove: (path: string) => Promise<void>;
+    rename: (from: string, to: string) => Promise<void>;
+  };
+  commands: {
+    run: (cmd: string) => Promise<CommandResult>;
+  };
+  pty: {
+    create: (opts: PtyCreateOptions) => Promise<PtyHandle>;
+    sendInput: (pid: number, data: Uint8Array) => Promise<void>;
+    resize: (pid: number, size: { cols: number; rows: number }) => Promise<void>;
+    kill: (pid: number) => Promise<void>;
+    /**
+     * Stops/restarts delivering output so a slow client applies backpressure
+     * to the process. Absent when the provider has no way to hold output back;
+     * the PTY then keeps streaming into the session's bounded scrollback.
+     */
+    pause?: (pid: number) => void;
+    resume?: (pid: number) => void;
+  };
+  /** Base URL at which this machine reaches a server listening on `port` inside the sandbox */
+  portUrl: (port: number) => Promise<string>;
+  /** Resets the provider-side auto-shutdown so the sandbox lives `timeoutMs` from now */
+  extendTimeout: (timeoutMs: number) => Promise<void>;
+  kill: () => Promise<void>;
+}
+
+export interface SandboxProvider {
+  readonly name: string;
+  create: (template: string, opts: SandboxOptions) => Promise<SandboxInstance>;
+  connect: (sandboxId: string, opts: SandboxOptions) => Promise<SandboxInstance>;
+  /** Rejects with the reason if sandboxes can't be created right now, e.g. the API or Docker is unreachable */
+  checkReady: () => Promise<void>;
+}
+
+let provider: SandboxProvider | null = null;
+
+export function getSandboxProvider(): SandboxProvider {
+  if (!provider) {
+    provider = config.sandboxProvider === 'local'
+      ? new LocalSandboxProvider(config.localSandboxMode, config.localDockerImage)
+      : new E2BSandboxProvider(config.e2bApiKey, config.readyCheckTimeout * 1000);
+  }
+  return provider;
+}
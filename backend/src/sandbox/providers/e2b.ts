@@ -0,0 +1,136 @@
+import { Sandbox, CommandExitError, EntryInfo, FileType, NotFoundError } from 'e2b';
+import { FileNotFoundError } from '../provider.js';
+import type { CommandResult, FileEntry, SandboxInstance, SandboxOptions, SandboxProvider } from '../provider.js';
+
+function toCommandResult(result: CommandResult): CommandResult {
+  return { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr };
+}
+
+function toFileEntry(entry: EntryInfo): FileEntry {
+  return {
+    name: entry.name,
+    path: entry.path,
+    type: entry.type === FileType.DIR ? 'dir' : 'file',
+    size: entry.size,
+    modifiedTime: entry.modifiedTime?.toISOString(),
+  };
+}
+
+async function withNotFound<T>(path: string, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      throw new FileNotFoundError(path);
+    }
+    throw error;
+  }
+}
+
+function wrapSandbox(sandbox: Sandbox): SandboxInstance {
+  return {
+    sandboxId: sandbox.sandboxId,
+    homeDir: '/home/user',
+    secretsDir: '/dev/shm/secrets',
+    supportsStorageMounts: true,
+    files: {
+      read: (path: string) => withNotFound(path, () => sandbox.files.read(path)),
+      readBytes: (path: string) => withNotFound(path, () => sandbox.files.read(path, { format: 'bytes' })),
+      write: async (path: string, content: string | Uint8Array) => {
+        const data = typeof content === 'string'
+          ? content
+          : content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+        await sandbox.files.write(path, data);
+      },
+      list: (path: string) => withNotFound(path, async () => (await sandbox.files.list(path)).map(toFileEntry)),
+      stat: (path: string) => withNotFound(path, async () => toFileEntry(await sandbox.files.getInfo(path))),
+      remove: (path: string) => withNotFound(path, () => sandbox.files.remove(path)),
+      rename: (from: string, to: string) => withNotFound(from, async () => {
+        await sandbox.files.rename(from, to);
+      }),
+    },
+    commands: {
+      run: async (cmd: string) => {
+        try {
+          return toCommandResult(await sandbox.commands.run(cmd));
+        } catch (error) {
+          if (error instanceof CommandExitError) {
+            return toCommandResult(error);
+          }
+          throw error;
+        }
+      },
+    },
+    pty: {
+      create: async ({ cols, rows, onData, envs, cwd }) => {
+        const handle = await sandbox.pty.create({
+          cols,
+          rows,
+          timeoutMs: 0, // Disable timeout for long-running shell sessions
+          onData,
+          envs,
+          cwd,
+        });
+
+        return {
+          pid: handle.pid,
+          wait: async () => {
+            try {
+              return (await handle.wait()).exitCode;
+            } catch (error) {
+              if (error instanceof CommandExitError) {
+                return error.exitCode;
+              }
+              throw error;
+            }
+          },
+        };
+      },
+      sendInput: (pid: number, data: Uint8Array) => sandbox.pty.sendInput(pid, data),
+      resize: (pid: number, size: { cols: number; rows: number }) => sandbox.pty.resize(pid, size),
+      kill: async (pid: number) => {
+        await sandbox.pty.kill(pid);
+      },
+      // No pause/resume: the SDK hands PTY output to onData as it arrives and
+      // doesn't wait for it, so there is no way to hold the process back
+    },
+    // Sandbox ports are exposed on per-port hostnames under the e2b domain
+    portUrl: async (port: number) => `https://${sandbox.getHost(port)}`,
+    extendTimeout: (timeoutMs) => sandbox.setTimeout(timeoutMs),
+    kill: () => sandbox.kill(),
+  };
+}
+
+export class E2BSandboxProvider implements SandboxProvider {
+  readonly name = 'e2b';
+
+  constructor(
+    private readonly apiKey: string,
+    // How long a readiness check waits for the e2b API
+    private readonly readyTimeoutMs: number
+  ) {}
+
+  async create(template: string, opts: SandboxOptions): Promise<SandboxInstance> {
+    if (opts.bindMounts?.length) {
+      throw new Error('Bind mounts are not supported by the e2b sandbox provider');
+    }
+    const sandbox = await Sandbox.create(template, {
+      apiKey: this.apiKey,
+      timeoutMs: opts.timeoutMs,
+    });
+    return wrapSandbox(sandbox);
+  }
+
+  async connect(sandboxId: string, opts: SandboxOptions): Promise<SandboxInstance> {
+    const sandbox = await Sandbox.connect(sandboxId, {
+      apiKey: this.apiKey,
+      timeoutMs: opts.timeoutMs,
+    });
+    return wrapSandbox(sandbox);
+  }
+
+  // Listing a single sandbox proves the API is reachable and accepts the key
+  async checkReady(): Promise<void> {
+    await Sandbox.list({ apiKey: this.apiKey, limit: 1, requestTimeoutMs: this.readyTimeoutMs }).nextItems();
+  }
+}
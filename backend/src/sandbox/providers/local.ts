@@ -0,0 +1,388 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join, posix } from 'path';
+import type { IPty } from 'node-pty';
+import { FileNotFoundError } from '../provider.js';
+import type {
+  CommandResult,
+  FileEntry,
+  PtyCreateOptions,
+  PtyHandle,
+  SandboxInstance,
+  SandboxOptions,
+  SandboxProvider,
+} from '../provider.js';
+
+export type LocalSandboxMode = 'docker' | 'host';
+
+const DOCKER_HOME = '/home/user';
+// Docker mounts a private tmpfs at /dev/shm in every container
+const DOCKER_SECRETS_DIR = '/dev/shm/secrets';
+
+async function loadNodePty(): Promise<typeof import('node-pty')> {
+  try {
+    return await import('node-pty');
+  } catch (error) {
+    throw new Error(
+      'The local sandbox provider requires the optional "node-pty" dependency. ' +
+      'Reinstall backend dependencies with build scripts enabled.\n' +
+      `Error: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function runProcess(
+  file: string,
+  args: string[],
+  options: { cwd?: string; env?: NodeJS.ProcessEnv; input?: string | Uint8Array } = {}
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, { cwd: options.cwd, env: options.env ?? process.env });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      resolve({ exitCode: code ?? 1, stdout, stderr });
+    });
+
+    child.stdin.end(options.input);
+  });
+}
+
+/**
+ * Tracks the PTYs spawned for one local sandbox. Both modes run the shell
+ * through node-pty on the host; docker mode just spawns `docker exec -it`.
+ */
+class LocalPtys {
+  private ptys = new Map<number, IPty>();
+
+  async spawn(
+    file: string,
+    args: string[],
+    opts: PtyCreateOptions,
+    options: { cwd?: string; env: NodeJS.ProcessEnv }
+  ): Promise<PtyHandle> {
+    const nodePty = await loadNodePty();
+    const ptyProcess = nodePty.spawn(file, args, {
+      name: 'xterm-256color',
+      cols: opts.cols,
+      rows: opts.rows,
+      cwd: options.cwd,
+      env: options.env as Record<string, string>,
+      // Deliver raw bytes; decoding happens in the browser
+      encoding: null,
+    });
+
+    this.ptys.set(ptyProcess.pid, ptyProcess);
+
+    const exited = new Promise<number>((resolve) => {
+      ptyProcess.onExit(({ exitCode }) => {
+        this.ptys.delete(ptyProcess.pid);
+        resolve(exitCode);
+      });
+    });
+
+    ptyProcess.onData((data: string | Buffer) => {
+      opts.onData(typeof data === 'string' ? new TextEncoder().encode(data) : data);
+    });
+
+    return {
+      pid: ptyProcess.pid,
+      wait: () => exited,
+    };
+  }
+
+  async sendInput(pid: number, data: Uint8Array): Promise<void> {
+    this.get(pid).write(Buffer.from(data).toString());
+  }
+
+  async resize(pid: number, size: { cols: number; rows: number }): Promise<void> {
+    this.get(pid).resize(size.cols, size.rows);
+  }
+
+  async kill(pid: number): Promise<void> {
+    this.ptys.get(pid)?.kill();
+    this.ptys.delete(pid);
+  }
+
+  pause(pid: number): void {
+    this.ptys.get(pid)?.pause();
+  }
+
+  resume(pid: number): void {
+    this.ptys.get(pid)?.resume();
+  }
+
+  killAll(): void {
+    for (const ptyProcess of this.ptys.values()) {
+      ptyProcess.kill();
+    }
+    this.ptys.clear();
+  }
+
+  private get(pid: number): IPty {
+    const ptyProcess = this.ptys.get(pid);
+    if (!ptyProcess) {
+      throw new Error(`PTY ${pid} not found`);
+    }
+    return ptyProcess;
+  }
+}
+
+// Exit code the docker file helpers use to signal a missing path
+const NOT_FOUND_EXIT = 44;
+const REQUIRE_EXISTS = `[ -e "$1" ] || exit ${NOT_FOUND_EXIT}; `;
+const FIND_FORMAT = `-printf '%y\\t%s\\t%T@\\t%p\\n'`;
+
+function parseFindLine(line: string): FileEntry {
+  const [type, size, mtime, ...rest] = line.split('\t');
+  const path = rest.join('\t');
+  return {
+    name: posix.basename(path),
+    path,
+    type: type === 'd' ? 'dir' : 'file',
+    size: Number(size),
+    modifiedTime: new Date(Number(mtime) * 1000).toISOString(),
+  };
+}
+
+async function withHostNotFound<T>(path: string, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new FileNotFoundError(path);
+    }
+    throw error;
+  }
+}
+
+async function hostFileEntry(path: string): Promise<FileEntry> {
+  const info = await stat(path);
+  return {
+    name: basename(path),
+    path,
+    type: info.isDirectory() ? 'dir' : 'file',
+    size: info.size,
+    modifiedTime: info.mtime.toISOString(),
+  };
+}
+
+function createDockerSandbox(containerId: string): SandboxInstance {
+  const ptys = new LocalPtys();
+  let containerAddress: string | null = null;
+
+  // Runs a shell snippet in the container with the given positional arguments
+  const dockerSh = async (script: string, args: string[], input?: string | Uint8Array): Promise<string> => {
+    const result = await runProcess('docker', ['exec', '-i', containerId, 'sh', '-c', script, 'sh', ...args], { input });
+    if (result.exitCode === NOT_FOUND_EXIT) {
+      throw new FileNotFoundError(args[0]);
+    }
+    if (result.exitCode !== 0) {
+      throw new Error(`File operation on ${args[0]} failed: ${result.stderr}`);
+    }
+    return result.stdout;
+  };
+
+  return {
+    sandboxId: containerId,
+    homeDir: DOCKER_HOME,
+    secretsDir: DOCKER_SECRETS_DIR,
+    supportsStorageMounts: false,
+    files: {
+      read: (path: string) => dockerSh(`${REQUIRE_EXISTS}cat "$1"`, [path]),
+      readBytes: async (path: string) => Buffer.from(await dockerSh(`${REQUIRE_EXISTS}base64 "$1"`, [path]), 'base64'),
+      write: async (path: string, content: string | Uint8Array) => {
+        await dockerSh('mkdir -p "$(dirname "$1")" && cat > "$1"', [path], content);
+      },
+      list: async (path: string) => {
+        const output = await dockerSh(`${REQUIRE_EXISTS}find "$1" -mindepth 1 -maxdepth 1 ${FIND_FORMAT}`, [path]);
+        return output.split('\n').filter(Boolean).map(parseFindLine);
+      },
+      stat: async (path: string) => parseFindLine((await dockerSh(`${REQUIRE_EXISTS}find "$1" -maxdepth 0 ${FIND_FORMAT}`, [path])).trim()),
+      remove: async (path: string) => {
+        await dockerSh(`${REQUIRE_EXISTS}rm -rf "$1"`, [path]);
+      },
+      rename: async (from: string, to: string) => {
+        await dockerSh(`${REQUIRE_EXISTS}mkdir -p "$(dirname "$2")" && mv "$1" "$2"`, [from, to]);
+      },
+    },
+    commands: {
+      run: (cmd: string) => runProcess('docker', ['exec', '-e', `HOME=${DOCKER_HOME}`, containerId, 'bash', '-c', cmd]),
+    },
+    pty: {
+      create: (opts: PtyCreateOptions) => {
+        const envs = { HOME: DOCKER_HOME, ...opts.envs };
+        // Pass names only so values (secrets included) come from the docker CLI's environment, not its visible arguments
+        const envArgs = Object.keys(envs).flatMap((key) => ['-e', key]);
+        const cwdArgs = opts.cwd ? ['-w', opts.cwd] : [];
+        return ptys.spawn('docker', ['exec', '-it', ...envArgs, ...cwdArgs, containerId, 'bash'], opts, { env: { ...process.env, ...envs } });
+      },
+      sendInput: (pid, data) => ptys.sendInput(pid, data),
+      resize: (pid, size) => ptys.resize(pid, size),
+      kill: (pid) => ptys.kill(pid),
+      pause: (pid) => ptys.pause(pid),
+      resume: (pid) => ptys.resume(pid),
+    },
+    // Containers run without published ports; their bridge address is only reachable from a Linux host
+    portUrl: async (port: number) => {
+      if (!containerAddress) {
+        const result = await runProcess('docker', [
+          'inspect', '-f', '{{range .NetworkSettings.Networks}}{{.IPAddress}} {{end}}', containerId,
+        ]);
+        containerAddress = result.stdout.trim().split(' ')[0] || null;
+        if (result.exitCode !== 0 || !containerAddress) {
+          throw new Error(`Failed to look up the address of container ${containerId}: ${result.stderr}`);
+        }
+      }
+      return `http://${containerAddress}:${port}`;
+    },
+    // Local sandboxes have no provider-side lifetime
+    extendTimeout: async () => {},
+    kill: async () => {
+      ptys.killAll();
+      await runProcess('docker', ['rm', '-f', containerId]);
+    },
+  };
+}
+
+function createHostSandbox(rootDir: string): SandboxInstance {
+  const ptys = new LocalPtys();
+  const homeDir = join(rootDir, 'home');
+  // Host mode is development only; without a /dev/shm (macOS) secrets land in the temp root
+  const secretsDir = existsSync('/dev/shm') ? join('/dev/shm', `${basename(rootDir)}-secrets`) : join(rootDir, 'secrets');
+  const env = { ...process.env, HOME: homeDir };
+
+  return {
+    sandboxId: basename(rootDir),
+    homeDir,
+    secretsDir,
+    supportsStorageMounts: false,
+    files: {
+      read: (path: string) => withHostNotFound(path, () => readFile(path, 'utf-8')),
+      readBytes: (path: string) => withHostNotFound(path, () => readFile(path)),
+      write: async (path: string, content: string | Uint8Array) => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, content);
+      },
+      list: (path: string) => withHostNotFound(path, async () => {
+        const names = await readdir(path);
+        return Promise.all(names.map((name) => hostFileEntry(join(path, name))));
+      }),
+      stat: (path: string) => withHostNotFound(path, () => hostFileEntry(path)),
+      remove: (path: string) => withHostNotFound(path, async () => {
+        await stat(path);
+        await rm(path, { recursive: true });
+      }),
+      rename: (from: string, to: string) => withHostNotFound(from, async () => {
+        await mkdir(dirname(to), { recursive: true });
+        await rename(from, to);
+      }),
+    },
+    commands: {
+      run: (cmd: string) => runProcess('bash', ['-c', cmd], { cwd: homeDir, env }),
+    },
+    pty: {
+      create: (opts: PtyCreateOptions) =>
+        ptys.spawn('bash', ['-i'], opts, { cwd: opts.cwd ?? homeDir, env: { ...env, ...opts.envs } }),
+      sendInput: (pid, data) => ptys.sendInput(pid, data),
+      resize: (pid, size) => ptys.resize(pid, size),
+      kill: (pid) => ptys.kill(pid),
+      pause: (pid) => ptys.pause(pid),
+      resume: (pid) => ptys.resume(pid),
+    },
+    portUrl: async (port: number) => `http://127.0.0.1:${port}`,
+    // Local sandboxes have no provider-side lifetime
+    extendTimeout: async () => {},
+    kill: async () => {
+      ptys.killAll();
+      await rm(secretsDir, { recursive: true, force: true });
+      await rm(rootDir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Runs sandboxes on the local machine so the stack works offline and in CI.
+ *
+ * In docker mode each sandbox is a long-lived container of the configured image
+ * (e2b template IDs are ignored), limited to the template's CPUs and memory.
+ * In host mode the shell runs directly on this machine with HOME pointed at a
+ * throwaway temp directory; this offers no isolation and is meant for
+ * development only.
+ */
+export class LocalSandboxProvider implements SandboxProvider {
+  readonly name = 'local';
+
+  constructor(
+    private readonly mode: LocalSandboxMode,
+    private readonly dockerImage: string
+  ) {}
+
+  async create(_template: string, opts: SandboxOptions): Promise<SandboxInstance> {
+    const bindMounts = opts.bindMounts ?? [];
+
+    if (this.mode === 'host') {
+      if (bindMounts.length > 0) {
+        throw new Error('Bind mounts are not supported in host mode; the shell already runs on the host');
+      }
+      const rootDir = await mkdtemp(join(tmpdir(), 'cloud-dev-env-'));
+      await mkdir(join(rootDir, 'home'), { recursive: true });
+      return createHostSandbox(rootDir);
+    }
+
+    const mountArgs: string[] = [];
+    for (const { hostPath, sandboxPath } of bindMounts) {
+      // Docker would create a missing source directory owned by root
+      await mkdir(hostPath, { recursive: true });
+      mountArgs.push('-v', `${hostPath}:${sandboxPath}`);
+    }
+
+    const resourceArgs = opts.resources ? ['--cpus', String(opts.resources.cpus), '--memory', String(opts.resources.memory)] : [];
+
+    const name = `cloud-dev-env-${randomUUID().slice(0, 8)}`;
+    const result = await runProcess('docker', [
+      'run', '-d', '--name', name, '--label', 'cloud-dev-env=sandbox', ...mountArgs, ...resourceArgs,
+      this.dockerImage, 'sh', '-c', `mkdir -p ${DOCKER_HOME} && exec sleep infinity`,
+    ]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start Docker container from ${this.dockerImage}: ${result.stderr}`);
+    }
+
+    return createDockerSandbox(result.stdout.trim().slice(0, 12));
+  }
+
+  // A reconnected container keeps whatever bind mounts it was created with
+  async connect(sandboxId: string): Promise<SandboxInstance> {
+    if (this.mode === 'host') {
+      throw new Error('Host sandboxes cannot be reconnected; unset E2B_SANDBOX_ID');
+    }
+
+    const result = await runProcess('docker', ['inspect', '-f', '{{.State.Running}}', sandboxId]);
+    if (result.exitCode !== 0 || result.stdout.trim() !== 'true') {
+      throw new Error(`Docker container ${sandboxId} is not running`);
+    }
+
+    return createDockerSandbox(sandboxId);
+  }
+
+  async checkReady(): Promise<void> {
+    await loadNodePty();
+    if (this.mode === 'docker') {
+      const result = await runProcess('docker', ['info', '--format', '{{.ServerVersion}}']);
+      if (result.exitCode !== 0) {
+        throw new Error(`Docker daemon is not reachable: ${result.stderr.trim()}`);
+      }
+    }
+  }
+}
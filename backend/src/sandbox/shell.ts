@@ -0,0 +1,4 @@
+/** Quotes a value as a single word for sandbox shell commands */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,74 @@
+/**
+ * Sandbox Templates
+ *
+ * The catalog of templates a session can start from (SANDBOX_TEMPLATES), each
+ * with a provider image, a resource tier and whether the workspace is mounted.
+ * Without a catalog there is a single `default` template built from
+ * SANDBOX_TEMPLATE and SANDBOX_STORAGE_TEMPLATE.
+ *
+ * Tiers (SANDBOX_TIERS) are ordered smallest first and a user may use any
+ * template up to their tier: the one SANDBOX_USER_TIERS gives their user ID,
+ * else their team's workspace ID (teams/<team>), else SANDBOX_DEFAULT_TIER.
+ * Admins may use every tier.
+ */
+
+import { config, SandboxTemplateConfig } from '../config/env.js';
+import { UserIdentity } from '../auth/identity.js';
+import { workspaceForUser } from '../workspace/workspaces.js';
+
+export interface SandboxTemplate extends SandboxTemplateConfig {
+  id: string;
+}
+
+export class TemplateAccessError extends Error {}
+
+export function getTemplate(id: string): SandboxTemplate | null {
+  const template = config.sandboxTemplates[id];
+  return template ? { id, ...template } : null;
+}
+
+/** Every template in catalog order */
+export function listTemplates(): SandboxTemplate[] {
+  return Object.entries(config.sandboxTemplates).map(([id, template]) => ({ id, ...template }));
+}
+
+/** The highest tier the user may use */
+export function tierFor(user: UserIdentity): string {
+  if (user.admin) {
+    return config.sandboxTiers[config.sandboxTiers.length - 1];
+  }
+  const workspace = workspaceForUser(user.id);
+  return (
+    config.sandboxUserTiers[user.id] ??
+    (workspace.kind === 'team' ? config.sandboxUserTiers[workspace.id] : undefined) ??
+    config.sandboxDefaultTier
+  );
+}
+
+export function canUseTemplate(user: UserIdentity, template: SandboxTemplate): boolean {
+  return config.sandboxTiers.indexOf(template.tier) <= config.sandboxTiers.indexOf(tierFor(user));
+}
+
+/**
+ * The template a new session should start from: the one the user asked for,
+ * or the default template, falling back to the first the user's tier allows.
+ */
+export function resolveTemplate(user: UserIdentity, requestedId: string | null): SandboxTemplate {
+  if (requestedId) {
+    const template = getTemplate(requestedId);
+    if (!template) {
+      throw new TemplateAccessError(`Unknown sandbox template: ${requestedId}`);
+    }
+    if (!canUseTemplate(user, template)) {
+      throw new TemplateAccessError(`Template ${template.name} needs the ${template.tier} tier; you may use up to ${tierFor(user)}`);
+    }
+    return template;
+  }
+  const fallback = [getTemplate(config.sandboxDefaultTemplate)!, ...listTemplates()].find((template) =>
+    canUseTemplate(user, template)
+  );
+  if (!fallback) {
+    throw new TemplateAccessError(`No sandbox template is available in the ${tierFor(user)} tier`);
+  }
+  return fallback;
+}
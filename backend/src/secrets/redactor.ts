@@ -0,0 +1,67 @@
+/**
+ * Secret Redaction
+ *
+ * Replaces known secret values in text with `[REDACTED:NAME]`. Terminal
+ * output and input arrive in arbitrary chunks, so RedactionStream holds back
+ * any tail that could be the start of a secret until the next chunk shows
+ * whether it is one.
+ */
+
+// Shorter values would redact ordinary words; such secrets are still injected, just not scrubbed
+export const MIN_REDACTED_LENGTH = 8;
+
+export class SecretRedactor {
+  // Longest first, so a secret that contains another is replaced whole
+  private readonly secrets: Array<{ name: string; value: string }>;
+
+  constructor(secrets: Array<{ name: string; value: string }>) {
+    this.secrets = secrets
+      .filter((secret) => secret.value.length >= MIN_REDACTED_LENGTH)
+      .sort((a, b) => b.value.length - a.value.length);
+  }
+
+  redact(text: string): string {
+    let result = text;
+    for (const { name, value } of this.secrets) {
+      if (result.includes(value)) {
+        result = result.split(value).join(`[REDACTED:${name}]`);
+      }
+    }
+    return result;
+  }
+
+  /** Length of the longest suffix of `text` that is a proper prefix of some secret */
+  partialMatchLength(text: string): number {
+    let longest = 0;
+    for (const { value } of this.secrets) {
+      for (let length = Math.min(value.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(value.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+export class RedactionStream {
+  private pending = '';
+
+  constructor(private readonly redactor: SecretRedactor) {}
+
+  /** Returns the part of the text seen so far that is known to be safe to emit */
+  push(chunk: string): string {
+    const text = this.redactor.redact(this.pending + chunk);
+    const held = this.redactor.partialMatchLength(text);
+    this.pending = text.slice(text.length - held);
+    return text.slice(0, text.length - held);
+  }
+
+  /** Releases whatever was held back; call once the stream has ended */
+  flush(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return rest;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Secrets Registry
+ *
+ * Secrets are declared in config (SANDBOX_SECRETS for everyone,
+ * SANDBOX_USER_SECRETS per user) and only ever reach a sandbox as PTY
+ * environment variables or as files in the sandbox's tmpfs secrets directory;
+ * they are never written to the home directory or to cloud storage.
+ *
+ * Every value the server knows to be secret, including the infrastructure
+ * credentials in config, is redacted from server logs and recordings.
+ */
+
+import { config, SecretDeclaration } from '../config/env.js';
+import { RedactionStream, SecretRedactor } from './redactor.js';
+
+/**
+ * The secrets a user's sandbox receives: ANTHROPIC_API_KEY, then the global
+ * declarations, with the user's own declarations overriding same-named ones.
+ */
+export function getSessionSecrets(userId: string): SecretDeclaration[] {
+  const secrets = new Map<string, SecretDeclaration>();
+  const declarations: SecretDeclaration[] = [
+    { name: 'ANTHROPIC_API_KEY', value: config.anthropicApiKey, mount: 'env' },
+    ...config.sandboxSecrets,
+    ...(config.userSecrets[userId] ?? []),
+  ];
+  for (const secret of declarations) {
+    secrets.set(secret.name, secret);
+  }
+  return [...secrets.values()];
+}
+
+function knownSecrets(): Array<{ name: string; value: string }> {
+  const infrastructure: Array<[string, string | undefined]> = [
+    ['ANTHROPIC_API_KEY', config.anthropicApiKey],
+    ['E2B_API_KEY', config.e2bApiKey],
+    ['AUTH_JWT_SECRET', config.authJwtSecret],
+    ['R2_ACCESS_KEY_ID', config.r2AccessKeyId],
+    ['R2_SECRET_ACCESS_KEY', config.r2SecretAccessKey],
+    ['AZURE_STORAGE_KEY', config.azureStorageKey],
+    ['AZURE_STORAGE_SAS', config.azureStorageSas],
+    ['S3_ACCESS_KEY_ID', config.s3AccessKeyId],
+    ['S3_SECRET_ACCESS_KEY', config.s3SecretAccessKey],
+    ['GCS_SERVICE_ACCOUNT_KEY', config.gcsServiceAccountKey],
+    ['GIT_TOKEN', config.gitToken],
+    ['METRICS_TOKEN', config.metricsToken],
+    ...Object.entries(config.authApiKeys).map(([userId, key]): [string, string] => [`API_KEY:${userId}`, key]),
+  ];
+  const declared = [...config.sandboxSecrets, ...Object.values(config.userSecrets).flat()];
+  return [
+    ...infrastructure.flatMap(([name, value]) => (value ? [{ name, value }] : [])),
+    ...declared.map(({ name, value }) => ({ name, value })),
+  ];
+}
+
+const redactor = new SecretRedactor(knownSecrets());
+
+export function redactSecrets(text: string): string {
+  return redactor.redact(text);
+}
+
+/** A redacting filter for one stream of chunked text, such as a terminal's output */
+export function createRedactionStream(): RedactionStream {
+  return new RedactionStream(redactor);
+}
+
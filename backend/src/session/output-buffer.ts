@@ -0,0 +1,72 @@
+/**
+ * Bounded ring buffer of raw PTY output bytes.
+ *
+ * Every appended chunk advances an absolute byte offset, so a reconnecting
+ * client can say "I have seen everything up to offset N" and get back only what
+ * it missed. Once the buffer exceeds its limit the oldest output is dropped; a
+ * client whose offset falls before the retained window gets the whole buffer
+ * and a `truncated` flag telling it to reset its terminal first.
+ */
+export class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private start = 0;
+
+  constructor(private readonly limit: number) {}
+
+  append(data: Uint8Array): void {
+    if (data.length === 0) {
+      return;
+    }
+
+    this.chunks.push(Buffer.from(data));
+    this.size += data.length;
+
+    while (this.size > this.limit && this.chunks.length > 0) {
+      const overflow = this.size - this.limit;
+      const oldest = this.chunks[0];
+
+      if (oldest.length <= overflow) {
+        this.chunks.shift();
+        this.size -= oldest.length;
+        this.start += oldest.length;
+      } else {
+        this.chunks[0] = oldest.subarray(overflow);
+        this.size -= overflow;
+        this.start += overflow;
+      }
+    }
+  }
+
+  /** Absolute offset of the oldest retained byte. */
+  get first(): number {
+    return this.start;
+  }
+
+  /** Absolute offset just past the most recent output. */
+  get end(): number {
+    return this.start + this.size;
+  }
+
+  since(offset: number): { data: Buffer; truncated: boolean } {
+    if (offset >= this.end) {
+      return { data: Buffer.alloc(0), truncated: false };
+    }
+
+    if (offset < this.start) {
+      return { data: Buffer.concat(this.chunks, this.size), truncated: true };
+    }
+
+    // Walk back from the newest chunk; live output usually only needs the last few
+    const parts: Buffer[] = [];
+    let needed = this.end - offset;
+    for (let i = this.chunks.length - 1; i >= 0 && needed > 0; i--) {
+      const chunk = this.chunks[i];
+      parts.push(chunk.length <= needed ? chunk : chunk.subarray(chunk.length - needed));
+      needed -= chunk.length;
+    }
+    parts.reverse();
+
+    return { data: parts.length === 1 ? parts[0] : Buffer.concat(parts), truncated: false };
+  }
+}
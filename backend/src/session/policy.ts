@@ -0,0 +1,247 @@
+/**
+ * Session Lifetime Policy
+ *
+ * Decides when a session's sandbox is torn down, for whichever comes first:
+ * - idle: SANDBOX_TIMEOUT seconds without activity. Terminal input and output
+ *   count, and so does any process running under a terminal's shell, so a
+ *   long build or Claude task keeps the session alive with nobody typing.
+ * - lifetime: SESSION_MAX_LIFETIME seconds after the sandbox became ready,
+ *   however busy the session is.
+ * - quota: the user's daily sandbox minutes (see usage.ts) run out.
+ *
+ * SESSION_EXPIRY_WARNING seconds before that the client is warned with the
+ * reason and the time left. Only an idle deadline can be pushed back by the
+ * user, by any activity or the extend button; admin extensions move the idle
+ * and lifetime deadlines alike.
+ */
+
+import { config } from '../config/env.js';
+import { dailyQuotaFor, msUntilReset, recordSandboxTime, sandboxTimeRemaining } from './usage.js';
+import { ExpiryReason } from '../websocket/protocol.js';
+import { Logger } from '../logging/logger.js';
+
+export interface ExpiryWarning {
+  reason: ExpiryReason;
+  expiresAt: Date;
+  // Whether activity or the extend button can push the deadline back
+  extendable: boolean;
+}
+
+export interface PolicyHooks {
+  /** Whether a terminal shell has a process running under it */
+  hasActiveProcesses: () => Promise<boolean>;
+  /** Keeps the provider from reclaiming the sandbox for `timeoutMs` from now */
+  keepAlive: (timeoutMs: number) => Promise<void>;
+  /** Called with the current warning whenever it changes, and with null once it no longer applies */
+  warn: (warning: ExpiryWarning | null) => void;
+  expire: (reason: ExpiryReason, message: string) => void;
+}
+
+const TICK_MS = 5 * 1000;
+// Processes are only looked for once the session has been quiet for this long
+const PROCESS_CHECK_MS = 30 * 1000;
+// Extend the provider's timeout once it is this close to the policy deadline...
+const PROVIDER_MARGIN_MS = 60 * 1000;
+// ...by this much beyond the deadline, so steady activity costs one call every few minutes
+const PROVIDER_HEADROOM_MS = 5 * 60 * 1000;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours} hour${hours === 1 ? '' : 's'}` : `${hours}h ${minutes % 60}m`;
+}
+
+export function quotaExhaustedMessage(userId: string): string {
+  return (
+    `Daily sandbox time of ${formatDuration(dailyQuotaFor(userId) * 60 * 1000)} used up; ` +
+    `it resets in ${formatDuration(msUntilReset())}.`
+  );
+}
+
+function expiryMessage(reason: ExpiryReason, userId: string): string {
+  switch (reason) {
+    case 'idle':
+      return `Session ended after ${formatDuration(config.sandboxTimeout * 1000)} without activity.`;
+    case 'lifetime':
+      return `Session reached its maximum lifetime of ${formatDuration(config.sessionMaxLifetime * 1000)}.`;
+    case 'quota':
+      return quotaExhaustedMessage(userId);
+  }
+}
+
+export class SessionPolicy {
+  private timer: NodeJS.Timeout | null = null;
+  private startedAt = 0;
+  private lastActivity = 0;
+  // Admin extensions: the idle deadline never falls before idleFloor, the lifetime grows by lifetimeExtension
+  private idleFloor = 0;
+  private lifetimeExtension = 0;
+  // Time up to which sandbox usage has been recorded
+  private accountedUntil = 0;
+  private providerDeadline = 0;
+  private quotaRemaining = Infinity;
+  private warning: ExpiryWarning | null = null;
+  private ticking = false;
+  private lastProcessCheck = 0;
+  private expired = false;
+
+  constructor(
+    private readonly userId: string,
+    private readonly hooks: PolicyHooks,
+    private readonly log: Logger
+  ) {}
+
+  /** Starts the clocks; the sandbox's provider timeout was just set to SANDBOX_TIMEOUT */
+  start(): void {
+    const now = Date.now();
+    this.startedAt = this.lastActivity = this.accountedUntil = this.lastProcessCheck = now;
+    this.providerDeadline = now + config.sandboxTimeout * 1000;
+    this.timer = setInterval(() => void this.tick(), TICK_MS);
+    // Loads the quota left, which may already be nearly used up by the user's other sessions
+    void this.tick();
+  }
+
+  /** Records activity: terminal input or output */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  /** The user asked for more time; only idle deadlines can be extended this way */
+  extend(): void {
+    this.touch();
+    void this.tick();
+  }
+
+  /** Admin extension: moves the idle and lifetime deadlines `seconds` further out */
+  async extendBy(seconds: number): Promise<Date> {
+    this.idleFloor = Math.max(this.idleDeadline, Date.now()) + seconds * 1000;
+    this.lifetimeExtension += seconds * 1000;
+    await this.tick();
+    return this.expiresAt ?? new Date();
+  }
+
+  /** When the session will end if nothing changes; null before it has started */
+  get expiresAt(): Date | null {
+    return this.timer ? new Date(this.deadline().at) : null;
+  }
+
+  get currentWarning(): ExpiryWarning | null {
+    return this.warning;
+  }
+
+  /** Stops the clocks and records the sandbox time used since the last tick */
+  async stop(): Promise<void> {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+    await this.account(true);
+  }
+
+  private get idleDeadline(): number {
+    return Math.max(this.lastActivity + config.sandboxTimeout * 1000, this.idleFloor);
+  }
+
+  private deadline(): { reason: ExpiryReason; at: number } {
+    const candidates: { reason: ExpiryReason; at: number }[] = [{ reason: 'idle', at: this.idleDeadline }];
+    if (config.sessionMaxLifetime > 0) {
+      candidates.push({ reason: 'lifetime', at: this.startedAt + config.sessionMaxLifetime * 1000 + this.lifetimeExtension });
+    }
+    if (Number.isFinite(this.quotaRemaining)) {
+      candidates.push({ reason: 'quota', at: this.accountedUntil + this.quotaRemaining });
+    }
+    return candidates.reduce((earliest, candidate) => (candidate.at < earliest.at ? candidate : earliest));
+  }
+
+  private async account(flush = false): Promise<void> {
+    const now = Date.now();
+    const elapsed = now - this.accountedUntil;
+    this.accountedUntil = now;
+    try {
+      await recordSandboxTime(this.userId, elapsed, flush);
+      this.quotaRemaining = await sandboxTimeRemaining(this.userId);
+    } catch (error) {
+      this.log.error('Error recording sandbox time', { error });
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking || !this.timer || this.expired) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.account();
+      await this.checkProcesses();
+
+      const { reason, at } = this.deadline();
+      const now = Date.now();
+      if (now >= at) {
+        this.expire(reason);
+        return;
+      }
+      this.updateWarning(reason, at);
+      await this.keepProviderAlive(at);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async checkProcesses(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastActivity < PROCESS_CHECK_MS || now - this.lastProcessCheck < PROCESS_CHECK_MS) {
+      return;
+    }
+    this.lastProcessCheck = now;
+    try {
+      if (await this.hooks.hasActiveProcesses()) {
+        this.touch();
+      }
+    } catch (error) {
+      this.log.warn('Error checking for running processes', { error });
+    }
+  }
+
+  private updateWarning(reason: ExpiryReason, at: number): void {
+    const warnMs = config.sessionExpiryWarning * 1000;
+    if (warnMs <= 0 || at - Date.now() > warnMs) {
+      if (this.warning) {
+        this.warning = null;
+        this.hooks.warn(null);
+      }
+      return;
+    }
+    // Quota deadlines drift by a tick as usage is recorded; only tell the client about real changes
+    if (this.warning?.reason === reason && Math.abs(this.warning.expiresAt.getTime() - at) < TICK_MS * 2) {
+      return;
+    }
+    this.warning = { reason, expiresAt: new Date(at), extendable: reason === 'idle' };
+    this.log.info('Session expiring soon', { reason, expiresAt: this.warning.expiresAt });
+    this.hooks.warn(this.warning);
+  }
+
+  private async keepProviderAlive(deadline: number): Promise<void> {
+    if (this.providerDeadline - deadline > PROVIDER_MARGIN_MS) {
+      return;
+    }
+    const timeoutMs = deadline - Date.now() + PROVIDER_HEADROOM_MS;
+    try {
+      await this.hooks.keepAlive(timeoutMs);
+      this.providerDeadline = Date.now() + timeoutMs;
+    } catch (error) {
+      this.log.error('Error extending sandbox timeout', { error });
+    }
+  }
+
+  private expire(reason: ExpiryReason): void {
+    this.expired = true;
+    const message = expiryMessage(reason, this.userId);
+    this.log.info('Session expired', { reason });
+    void this.stop();
+    this.hooks.expire(reason, message);
+  }
+}
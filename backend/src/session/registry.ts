@@ -0,0 +1,34 @@
+import { Session } from './session.js';
+import { UserIdentity } from '../auth/identity.js';
+import { Workspace } from '../workspace/workspaces.js';
+import { SandboxTemplate } from '../sandbox/templates.js';
+import { ShareLink } from './shares.js';
+
+const sessions = new Map<string, Session>();
+
+export function createSession(user: UserIdentity, workspace: Workspace, template: SandboxTemplate): Session {
+  const session = new Session(user, workspace, template, (terminated) => {
+    sessions.delete(terminated.id);
+  });
+  sessions.set(session.id, session);
+  return session;
+}
+
+export function getSession(sessionId: string): Session | undefined {
+  return sessions.get(sessionId);
+}
+
+export function getAllSessions(): Session[] {
+  return [...sessions.values()];
+}
+
+/** The live session a share link token belongs to, with the link */
+export function findShare(token: string): { session: Session; link: ShareLink } | null {
+  for (const session of sessions.values()) {
+    const link = session.shares.find(token);
+    if (link) {
+      return { session, link };
+    }
+  }
+  return null;
+}
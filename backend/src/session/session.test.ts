@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import WebSocket from 'ws';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER = 'local';
+process.env.LOCAL_SANDBOX_MODE = 'host';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_JWT_SECRET ??= 'test';
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'session-test-'));
+process.env.COMMAND_AUDIT_INTERVAL = '0';
+process.env.PREVIEW_SCAN_INTERVAL = '0';
+process.env.SESSION_SCROLLBACK_LIMIT = '64kb';
+process.env.LOG_LEVEL = 'error';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A client that reads nothing while stalled
+class SlowSocket {
+  readyState: number = WebSocket.OPEN;
+  bufferedAmount = 0;
+  stalled = true;
+  messages: { type: string; reset?: boolean }[] = [];
+  output = '';
+
+  send(data: string | Uint8Array): void {
+    if (typeof data === 'string') {
+      this.messages.push(JSON.parse(data));
+    } else {
+      this.output += Buffer.from(data.subarray(1 + data[0])).toString();
+    }
+    if (this.stalled) {
+      this.bufferedAmount += data.length;
+    }
+  }
+
+  drain(): void {
+    this.stalled = false;
+    this.bufferedAmount = 0;
+  }
+
+  close(): void {
+    this.readyState = WebSocket.CLOSED;
+  }
+}
+
+test('a slow owner catches up from the scrollback when the PTY cannot be paused', async () => {
+  // The session registry is loaded before the sandbox modules, as the server does
+  const { createSession } = await import('./registry.js');
+  const { getSandboxProvider } = await import('../sandbox/provider.js');
+  const { getTemplate } = await import('../sandbox/templates.js');
+  const { workspaceForUser } = await import('../workspace/workspaces.js');
+  const { config } = await import('../config/env.js');
+
+  // Stand in for a provider without flow control, such as e2b
+  const provider = getSandboxProvider();
+  const create = provider.create.bind(provider);
+  provider.create = async (template, options) => {
+    const sandbox = await create(template, options);
+    delete sandbox.pty.pause;
+    delete sandbox.pty.resume;
+    return sandbox;
+  };
+
+  const user = { id: 'alice', admin: false };
+  const session = createSession(user, workspaceForUser(user.id), getTemplate(config.sandboxDefaultTemplate)!);
+  const socket = new SlowSocket();
+  const owner = session.attach(socket as unknown as WebSocket, user);
+  try {
+    await session.start();
+    // Far more than the socket's high-water mark and the scrollback together
+    session.write(owner, '1', "head -c 2000000 /dev/zero | tr '\\0' x; echo; echo done-$((1 + 1))\r");
+    await sleep(3000);
+    assert.ok(socket.bufferedAmount >= 1024 * 1024);
+    assert.ok(!socket.output.includes('done-2'));
+
+    socket.drain();
+    for (let i = 0; i < 50 && !socket.output.includes('done-2'); i++) {
+      await sleep(100);
+    }
+    assert.ok(socket.output.includes('done-2'));
+    assert.ok(socket.messages.some((message) => message.type === 'replay' && message.reset));
+    assert.equal(session.isTerminated, false);
+  } finally {
+    await session.terminate();
+  }
+});
@@ -0,0 +1,761 @@
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { config } from '../config/env.js';
+import { INITIAL_PTY_SIZE, SandboxManager, SandboxProcess } from '../sandbox/manager.js';
+import { SandboxTemplate } from '../sandbox/templates.js';
+import { OutputBuffer } from './output-buffer.js';
+import { UserIdentity } from '../auth/identity.js';
+import { Recorder } from '../recording/recorder.js';
+import { encodeOutputFrame, ErrorCode, ExpiryReason, ParticipantRole, ServerMessage } from '../websocket/protocol.js';
+import { Workspace } from '../workspace/workspaces.js';
+import { QuotaMonitor } from '../workspace/quota.js';
+import { SnapshotInfo } from '../snapshot/store.js';
+import { restoreSnapshot, SnapshotOwner, takeSnapshot } from '../snapshot/snapshots.js';
+import { GitRepository } from '../git/repository.js';
+import { DisconnectReason, markDisconnect, sessionsExpired } from '../metrics/metrics.js';
+import { ExpiryWarning, SessionPolicy } from './policy.js';
+import { ShareLinks } from './shares.js';
+import { PortMonitor } from '../preview/ports.js';
+import { CommandAuditCollector, CommandAuthors } from '../audit/collector.js';
+import { Logger, logger } from '../logging/logger.js';
+
+/** Traffic counters shown on the admin dashboard */
+export interface SessionActivity {
+  startedAt: Date;
+  lastInputAt: Date | null;
+  // Terminal input received from and output sent to clients
+  bytesIn: number;
+  bytesOut: number;
+}
+
+export interface TerminalSize {
+  cols: number;
+  rows: number;
+}
+
+/** One PTY inside the session's sandbox, multiplexed over the socket by ID */
+export interface Channel {
+  id: string;
+  process: SandboxProcess | null;
+  output: OutputBuffer;
+  // The PTY's size, as arbitrated between the participants
+  size: TerminalSize;
+  recorder: Recorder | null;
+}
+
+/** A socket attached to the session: the owner's, or a guest's who joined through a share link */
+export interface Participant {
+  id: string;
+  user: UserIdentity;
+  role: ParticipantRole;
+  // The share link a guest joined through; null for the owner
+  shareId: string | null;
+  socket: WebSocket;
+  // Absolute output offset per channel up to which this socket has been sent
+  sentOffsets: Map<string, number>;
+  // The size each of the participant's terminals would fit in its window
+  sizes: Map<string, TerminalSize>;
+  // Set while waiting for the socket's send queue to drain
+  drainTimer: NodeJS.Timeout | null;
+}
+
+function warningMessage(warning: ExpiryWarning | null): ServerMessage {
+  if (!warning) {
+    return { type: 'expiry_cleared' };
+  }
+  return {
+    type: 'expiry_warning',
+    reason: warning.reason,
+    // Relative, so the client's countdown doesn't depend on its clock agreeing with ours
+    remaining: Math.max(Math.round((warning.expiresAt.getTime() - Date.now()) / 1000), 0),
+    extendable: warning.extendable,
+  };
+}
+
+// Output is batched for this long so bursts go out as one frame...
+const OUTPUT_COALESCE_MS = 5;
+// ...unless this much is already waiting, so fast producers can't outrun the scrollback between flushes
+const OUTPUT_FLUSH_BYTES = 64 * 1024;
+// Stop sending to a socket once this much is queued on it, pausing the PTYs if it is the owner's...
+const SOCKET_HIGH_WATER_MARK = 1024 * 1024;
+// ...and resume once the client has drained it below this
+const SOCKET_LOW_WATER_MARK = 256 * 1024;
+const DRAIN_POLL_MS = 50;
+
+/**
+ * A terminal session outlives the WebSocket that created it.
+ *
+ * When the socket drops the session is detached rather than destroyed: the
+ * sandbox and its PTYs keep running and output keeps accumulating in each
+ * channel's scrollback buffer until a client reattaches or the grace period
+ * runs out.
+ *
+ * Besides its owner's, any number of guest sockets may be attached through
+ * share links (see shares.ts): editors may type into the terminals, viewers
+ * only watch. Guests don't keep a detached session alive.
+ *
+ * Output is never written to a socket directly. Each participant remembers
+ * how far its socket has been sent per channel, and a short coalescing timer
+ * sends everything newer from the scrollback buffer in one binary frame. When
+ * the owner's send queue grows past SOCKET_HIGH_WATER_MARK the PTYs are
+ * paused until the client catches up, so a fast producer can't grow server
+ * memory beyond the bounded scrollback. A slow guest is skipped instead, and
+ * told to reset if it falls behind the scrollback. Providers that can't pause
+ * a PTY (e2b) treat a slow owner the same way.
+ */
+export class Session {
+  readonly id = randomUUID();
+  // Context for every line logged on the session's behalf; the sandbox manager adds the sandbox ID
+  readonly logger: Logger;
+  readonly sandboxManager: SandboxManager;
+  // Decides when the sandbox is torn down: idle timeout, maximum lifetime or daily quota
+  readonly policy: SessionPolicy;
+  readonly channels = new Map<string, Channel>();
+  readonly startedAt = new Date();
+  readonly shares = new ShareLinks();
+
+  private readonly attached = new Map<WebSocket, Participant>();
+  private detachTimer: NodeJS.Timeout | null = null;
+  private terminated = false;
+  private ready = false;
+  private nextChannelId = 1;
+  // Every recorder this session created, including those of closed channels
+  private recorders: Recorder[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private quotaMonitor: QuotaMonitor | null = null;
+  private portMonitor: PortMonitor | null = null;
+  private commandAudit: CommandAuditCollector | null = null;
+  private commandAuthors: CommandAuthors | null = null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  // Snapshot operations run one at a time so a restore never races an archive
+  private snapshotQueue: Promise<unknown> = Promise.resolve();
+  private lastInputAt: Date | null = null;
+  private bytesIn = 0;
+  private bytesOut = 0;
+  private readonly log: Logger;
+
+  constructor(
+    readonly user: UserIdentity,
+    readonly workspace: Workspace,
+    readonly template: SandboxTemplate,
+    private readonly onTerminated: (session: Session) => void
+  ) {
+    this.logger = logger.child({ sessionId: this.id, userId: user.id, workspaceId: workspace.id });
+    this.log = this.logger.child({ component: 'Session' });
+    this.sandboxManager = new SandboxManager({ beforeCleanup: () => this.beforeSandboxCleanup() }, this.logger);
+    this.policy = new SessionPolicy(
+      user.id,
+      {
+        hasActiveProcesses: () => this.sandboxManager.hasActiveProcesses(),
+        keepAlive: (timeoutMs) => this.sandboxManager.keepAlive(timeoutMs),
+        warn: (warning) => this.send(warningMessage(warning)),
+        expire: (reason, message) => {
+          this.expire(reason, message).catch((error) => {
+            this.log.error('Error ending expired session', { reason, error });
+          });
+        },
+      },
+      this.logger.child({ component: 'Policy' })
+    );
+  }
+
+  async start(restoreFrom?: SnapshotInfo, repository?: GitRepository): Promise<void> {
+    const channel = this.addChannel();
+    const sandboxProcess = await this.sandboxManager.create(
+      {
+        sessionId: this.id,
+        channel: channel.id,
+        userId: this.user.id,
+        template: this.template,
+        workspace: this.workspace,
+        restoreSnapshot: restoreFrom,
+        repository,
+      },
+      (data: Uint8Array) => this.handlePtyOutput(channel, data),
+      (code: number) => this.handleExit(channel, code)
+    );
+
+    if (this.terminated) {
+      // The grace period expired while the sandbox was still being created
+      await this.sandboxManager.destroy();
+      return;
+    }
+
+    channel.process = sandboxProcess;
+    // Participants may have sized the terminal while the sandbox was starting
+    sandboxProcess.resize(channel.size.cols, channel.size.rows);
+    this.ready = true;
+    this.policy.start();
+
+    if (this.sandboxManager.hasStorageMount) {
+      this.quotaMonitor = new QuotaMonitor(
+        this.workspace.id,
+        () => this.sandboxManager.measureWorkspaceUsage(),
+        (message) => this.notice(message)
+      );
+      this.quotaMonitor.start();
+    }
+    if (config.previewScanInterval > 0) {
+      this.portMonitor = new PortMonitor(
+        () => this.sandboxManager.listListeningPorts(),
+        (ports) => this.send({ type: 'ports', ports }),
+        this.logger.child({ component: 'Ports' })
+      );
+      this.portMonitor.start();
+    }
+    if (config.commandAuditInterval > 0) {
+      this.commandAuthors = new CommandAuthors(this.user.id);
+      this.commandAudit = new CommandAuditCollector(
+        (skip) => this.sandboxManager.readCommandAudit(skip),
+        {
+          sessionId: this.id,
+          workspaceId: this.workspace.id,
+          sandboxId: this.sandboxManager.sandboxId,
+        },
+        this.commandAuthors,
+        this.logger.child({ component: 'CommandAudit' })
+      );
+      this.commandAudit.start();
+    }
+    if (this.sandboxManager.hasStorageMount && config.snapshotInterval > 0) {
+      this.snapshotTimer = setInterval(() => {
+        this.snapshot('scheduled').catch((error) => {
+          this.log.error('Scheduled snapshot failed', { error });
+        });
+      }, config.snapshotInterval * 1000);
+    }
+  }
+
+  /** Archives the workspace; see snapshot/snapshots.ts */
+  snapshot(reason: 'manual' | 'scheduled', label: string | null = null): Promise<SnapshotInfo> {
+    return this.enqueueSnapshot(() => takeSnapshot(this.sandboxManager, this.snapshotOwner, reason, label));
+  }
+
+  /** Restores a snapshot into the running workspace and resolves with the snapshot of the replaced state */
+  restore(snapshot: SnapshotInfo): Promise<SnapshotInfo> {
+    return this.enqueueSnapshot(async () => {
+      const backup = await restoreSnapshot(this.sandboxManager, snapshot, this.snapshotOwner);
+      this.notice(`Restored snapshot ${snapshot.id} (${snapshot.createdAt}); the previous state was saved as snapshot ${backup.id}.`);
+      return backup;
+    });
+  }
+
+  async openChannel(): Promise<Channel> {
+    if (!this.ready || this.terminated) {
+      throw new Error('Sandbox is not ready');
+    }
+
+    const channel = this.addChannel();
+    try {
+      channel.process = await this.sandboxManager.openPty(
+        channel.id,
+        (data: Uint8Array) => this.handlePtyOutput(channel, data),
+        (code: number) => this.handleExit(channel, code)
+      );
+    } catch (error) {
+      this.channels.delete(channel.id);
+      channel.recorder?.finish();
+      throw error;
+    }
+    channel.process.resize(channel.size.cols, channel.size.rows);
+
+    this.log.info('Opened channel', { channel: channel.id });
+    return channel;
+  }
+
+  write(participant: Participant, channelId: string, data: string): void {
+    const channel = this.channels.get(channelId);
+    if (channel?.process) {
+      this.lastInputAt = new Date();
+      this.policy.touch();
+      this.bytesIn += Buffer.byteLength(data);
+      this.commandAuthors?.record(channelId, participant.user.id, data);
+      channel.recorder?.input(data);
+      channel.process.write(data);
+    }
+  }
+
+  /**
+   * Records the size the participant's terminal would fit. Everyone shares
+   * one PTY, so it runs at the smallest size any owner or editor fits and
+   * every client renders at exactly that; viewers' windows don't count.
+   */
+  resize(participant: Participant, channelId: string, cols: number, rows: number): void {
+    participant.sizes.set(channelId, { cols, rows });
+    const channel = this.channels.get(channelId);
+    if (channel && !this.arbitrateSize(channel)) {
+      this.sendTo(participant, { type: 'size', channel: channel.id, ...channel.size });
+    }
+  }
+
+  async closeChannel(channelId: string): Promise<void> {
+    // The channel is removed once its PTY reports that it exited
+    await this.channels.get(channelId)?.process?.kill();
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /** Ports servers in the sandbox listen on, as last detected; only these can be previewed */
+  get ports(): number[] {
+    return this.portMonitor?.ports ?? [];
+  }
+
+  /** Whether the owner is connected; guests alone don't count */
+  get isAttached(): boolean {
+    return this.owner !== null;
+  }
+
+  get participants(): Participant[] {
+    return [...this.attached.values()];
+  }
+
+  participant(ws: WebSocket): Participant | null {
+    return this.attached.get(ws) ?? null;
+  }
+
+  /** When the policy will end the session unless there is activity or it is extended; null before it is ready */
+  get expiresAt(): Date | null {
+    return this.policy.expiresAt;
+  }
+
+  /** The pending expiry warning as sent to clients, for those attaching while it applies */
+  get expiryWarning(): ServerMessage | null {
+    return this.policy.currentWarning ? warningMessage(this.policy.currentWarning) : null;
+  }
+
+  get activity(): SessionActivity {
+    return { startedAt: this.startedAt, lastInputAt: this.lastInputAt, bytesIn: this.bytesIn, bytesOut: this.bytesOut };
+  }
+
+  /**
+   * The owner has one socket at a time, so attaching it again replaces the
+   * previous one; guests are added alongside.
+   */
+  attach(ws: WebSocket, user: UserIdentity, role: ParticipantRole = 'owner', shareId: string | null = null): Participant {
+    if (role === 'owner') {
+      if (this.detachTimer) {
+        clearTimeout(this.detachTimer);
+        this.detachTimer = null;
+      }
+
+      const previous = this.owner;
+      if (previous) {
+        this.removeParticipant(previous);
+        this.sendTo(previous, { type: 'status', message: 'Session attached from another connection' });
+        markDisconnect(previous.socket, 'replaced');
+        previous.socket.close();
+      }
+    } else {
+      this.log.info('Guest joined', { guestId: user.id, role });
+    }
+
+    const participant: Participant = {
+      id: randomUUID(),
+      user,
+      role,
+      shareId,
+      socket: ws,
+      sentOffsets: new Map(),
+      sizes: new Map(),
+      drainTimer: null,
+    };
+    this.attached.set(ws, participant);
+    this.sendPresence();
+    return participant;
+  }
+
+  detach(ws: WebSocket): void {
+    const participant = this.attached.get(ws);
+    if (!participant || this.terminated) {
+      return;
+    }
+
+    this.removeParticipant(participant);
+    if (participant.role !== 'owner') {
+      this.log.info('Guest left', { guestId: participant.user.id });
+      return;
+    }
+    this.log.info(`Detached, terminating in ${config.sessionGracePeriod}s unless reattached`);
+
+    this.detachTimer = setTimeout(() => {
+      this.log.info('Grace period expired');
+      this.terminate().catch((error) => {
+        this.log.error('Error terminating session after the grace period', { error });
+      });
+    }, config.sessionGracePeriod * 1000);
+  }
+
+  /** Revokes a share link and disconnects everyone who joined through it */
+  revokeShare(shareId: string): boolean {
+    if (!this.shares.revoke(shareId)) {
+      return false;
+    }
+    for (const participant of this.participants) {
+      if (participant.shareId === shareId) {
+        this.removeParticipant(participant);
+        this.sendTo(participant, { type: 'error', code: 'share_invalid', message: 'The share link was revoked' });
+        markDisconnect(participant.socket, 'share_revoked');
+        participant.socket.close();
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Rewinds every channel to the output offset the participant's client last
+   * saw, so the next flush re-sends what it missed, and tells it the size each
+   * terminal runs at. Channels whose offset has been evicted restart from the
+   * oldest retained output with `reset` set.
+   */
+  replay(participant: Participant, offsets: Map<string, number>): void {
+    for (const channel of this.channels.values()) {
+      const seen = Math.min(offsets.get(channel.id) ?? 0, channel.output.end);
+      const reset = seen < channel.output.first;
+      const offset = reset ? channel.output.first : seen;
+      participant.sentOffsets.set(channel.id, offset);
+      this.sendTo(participant, { type: 'replay', channel: channel.id, reset, offset });
+      this.sendTo(participant, { type: 'size', channel: channel.id, ...channel.size });
+    }
+    this.flushTo(participant);
+  }
+
+  /** Sends to everyone attached */
+  send(message: ServerMessage): void {
+    for (const participant of this.attached.values()) {
+      this.sendTo(participant, message);
+    }
+  }
+
+  sendTo(participant: Participant, message: ServerMessage): void {
+    if (participant.socket.readyState === WebSocket.OPEN) {
+      participant.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /** Prints a highlighted server notice into every open terminal */
+  notice(message: string, source = 'Workspace'): void {
+    const data = new TextEncoder().encode(`\r\n\x1b[33m[${source}] ${message}\x1b[0m\r\n`);
+    for (const channel of this.channels.values()) {
+      this.handleOutput(channel, data);
+    }
+  }
+
+  get isTerminated(): boolean {
+    return this.terminated;
+  }
+
+  /**
+   * Ends the session on someone else's behalf. The client is told why and
+   * with `session_terminated`, so it doesn't reconnect into a new session.
+   */
+  async forceTerminate(reason: string): Promise<void> {
+    await this.end(reason, 'Admin', 'session_terminated', 'admin_terminated');
+  }
+
+  async terminate(): Promise<void> {
+    if (this.terminated) {
+      return;
+    }
+
+    this.terminated = true;
+    if (this.detachTimer) {
+      clearTimeout(this.detachTimer);
+      this.detachTimer = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.quotaMonitor?.stop();
+    this.portMonitor?.stop();
+    this.commandAudit?.stop();
+    await this.policy.stop();
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    for (const participant of this.attached.values()) {
+      this.releaseBackpressure(participant);
+      // The owner's client closes its own socket; guests are told the session is over
+      if (participant.role !== 'owner' && participant.socket.readyState === WebSocket.OPEN) {
+        this.sendTo(participant, { type: 'status', message: 'The session has ended' });
+        markDisconnect(participant.socket, 'session_ended');
+        participant.socket.close();
+      }
+    }
+    this.onTerminated(this);
+    this.channels.clear();
+
+    await this.sandboxManager.destroy();
+  }
+
+  private async expire(reason: ExpiryReason, message: string): Promise<void> {
+    sessionsExpired.inc({ reason });
+    await this.end(message, 'Session', 'session_expired', 'session_expired');
+  }
+
+  /** Tells the client why the session is ending, in its terminals and with an error that stops it reconnecting */
+  private async end(message: string, source: string, code: ErrorCode, disconnect: DisconnectReason): Promise<void> {
+    if (this.terminated) {
+      return;
+    }
+
+    this.notice(message, source);
+    this.flush();
+    this.send({ type: 'error', code, message });
+    for (const { socket } of this.attached.values()) {
+      markDisconnect(socket, disconnect);
+      socket.close();
+    }
+    await this.terminate();
+  }
+
+  private addChannel(): Channel {
+    const channel: Channel = {
+      id: String(this.nextChannelId++),
+      process: null,
+      output: new OutputBuffer(config.sessionScrollbackLimit),
+      size: { ...INITIAL_PTY_SIZE },
+      recorder: null,
+    };
+    if (config.recordingEnabled) {
+      channel.recorder = new Recorder(this.id, channel.id, this.user.id, INITIAL_PTY_SIZE.cols, INITIAL_PTY_SIZE.rows);
+      this.recorders.push(channel.recorder);
+    }
+    this.channels.set(channel.id, channel);
+    return channel;
+  }
+
+  private get snapshotOwner(): SnapshotOwner {
+    return { userId: this.user.id, workspaceId: this.workspace.id, sessionId: this.id };
+  }
+
+  private enqueueSnapshot<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.snapshotQueue.then(operation);
+    this.snapshotQueue = result.catch(() => {});
+    return result;
+  }
+
+  private async beforeSandboxCleanup(): Promise<void> {
+    // The last commands, run since the previous collection
+    await this.commandAudit?.collect();
+    await this.persistRecordings();
+    // Sessions whose sandbox never became ready have nothing worth keeping
+    if (this.ready && this.sandboxManager.hasStorageMount && config.snapshotOnSessionEnd) {
+      try {
+        await this.enqueueSnapshot(() => takeSnapshot(this.sandboxManager, this.snapshotOwner, 'session-end'));
+      } catch (error) {
+        this.log.error('Failed to snapshot the workspace on exit', { error });
+      }
+    }
+  }
+
+  /**
+   * Closes every recording and, when the sandbox has cloud storage mounted,
+   * copies them into the workspace's .recordings directory so they persist
+   * with the user's files. Runs before the sandbox is torn down.
+   */
+  private async persistRecordings(): Promise<void> {
+    await Promise.all(this.recorders.map((recorder) => recorder.finish()));
+    if (!this.sandboxManager.hasStorageMount) {
+      return;
+    }
+
+    for (const recorder of this.recorders) {
+      const target = `${this.sandboxManager.workspaceDir}/.recordings/${recorder.info.id}.cast`;
+      try {
+        await this.sandboxManager.files.write(target, await recorder.read());
+      } catch (error) {
+        this.log.error('Failed to copy recording to storage', { recording: recorder.info.id, error });
+      }
+    }
+  }
+
+  // Output from the shells counts as activity; server notices written with handleOutput don't
+  private handlePtyOutput(channel: Channel, data: Uint8Array): void {
+    this.policy.touch();
+    this.handleOutput(channel, data);
+  }
+
+  private handleOutput(channel: Channel, data: Uint8Array): void {
+    channel.output.append(data);
+    channel.recorder?.output(data);
+
+    if (this.unsentBytes(channel) >= OUTPUT_FLUSH_BYTES) {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, OUTPUT_COALESCE_MS);
+    }
+  }
+
+  // How far the furthest behind participant that isn't draining lags the channel's output
+  private unsentBytes(channel: Channel): number {
+    let unsent = 0;
+    for (const participant of this.attached.values()) {
+      if (!participant.drainTimer) {
+        unsent = Math.max(unsent, channel.output.end - (participant.sentOffsets.get(channel.id) ?? 0));
+      }
+    }
+    return unsent;
+  }
+
+  private flush(): void {
+    for (const participant of this.attached.values()) {
+      this.flushTo(participant);
+    }
+  }
+
+  private flushTo(participant: Participant): void {
+    const { socket } = participant;
+    if (socket.readyState !== WebSocket.OPEN || participant.drainTimer) {
+      return;
+    }
+
+    for (const channel of this.channels.values()) {
+      if (socket.bufferedAmount >= SOCKET_HIGH_WATER_MARK) {
+        break;
+      }
+      this.sendOutput(participant, channel);
+    }
+
+    if (socket.bufferedAmount >= SOCKET_HIGH_WATER_MARK) {
+      this.applyBackpressure(participant);
+    }
+  }
+
+  private sendOutput(participant: Participant, channel: Channel): void {
+    const { data, truncated } = channel.output.since(participant.sentOffsets.get(channel.id) ?? 0);
+    if (truncated) {
+      // The client fell so far behind that output it was never sent has been evicted
+      this.sendTo(participant, { type: 'replay', channel: channel.id, reset: true, offset: channel.output.first });
+    }
+    if (data.length > 0) {
+      participant.socket.send(encodeOutputFrame(channel.id, data));
+      this.bytesOut += data.length;
+    }
+    participant.sentOffsets.set(channel.id, channel.output.end);
+  }
+
+  // Only the owner's socket holds the shells back; a guest's just stops receiving until it drains
+  private applyBackpressure(participant: Participant): void {
+    if (participant.role === 'owner') {
+      for (const channel of this.channels.values()) {
+        channel.process?.pause();
+      }
+    }
+
+    const poll = () => {
+      if (this.attached.get(participant.socket) === participant && participant.socket.bufferedAmount > SOCKET_LOW_WATER_MARK) {
+        participant.drainTimer = setTimeout(poll, DRAIN_POLL_MS);
+        return;
+      }
+      this.releaseBackpressure(participant);
+      this.flushTo(participant);
+    };
+    participant.drainTimer = setTimeout(poll, DRAIN_POLL_MS);
+  }
+
+  private releaseBackpressure(participant: Participant): void {
+    if (!participant.drainTimer) {
+      return;
+    }
+
+    clearTimeout(participant.drainTimer);
+    participant.drainTimer = null;
+    if (participant.role === 'owner') {
+      for (const channel of this.channels.values()) {
+        channel.process?.resume();
+      }
+    }
+  }
+
+  private get owner(): Participant | null {
+    for (const participant of this.attached.values()) {
+      if (participant.role === 'owner') {
+        return participant;
+      }
+    }
+    return null;
+  }
+
+  private removeParticipant(participant: Participant): void {
+    this.attached.delete(participant.socket);
+    // Nobody is reading that socket; let output accumulate in the scrollback instead of blocking the shells
+    this.releaseBackpressure(participant);
+    for (const channel of this.channels.values()) {
+      this.arbitrateSize(channel);
+    }
+    this.sendPresence();
+  }
+
+  // Resizes the channel to the smallest size an owner or editor fits; returns whether it changed
+  private arbitrateSize(channel: Channel): boolean {
+    const fits = this.participants
+      .filter((participant) => participant.role !== 'viewer')
+      .map((participant) => participant.sizes.get(channel.id))
+      .filter((size): size is TerminalSize => size !== undefined);
+    // With only viewers left the terminal keeps its size
+    if (fits.length === 0) {
+      return false;
+    }
+    const size = { cols: Math.min(...fits.map(({ cols }) => cols)), rows: Math.min(...fits.map(({ rows }) => rows)) };
+    if (size.cols === channel.size.cols && size.rows === channel.size.rows) {
+      return false;
+    }
+
+    channel.size = size;
+    channel.recorder?.resize(size.cols, size.rows);
+    channel.process?.resize(size.cols, size.rows);
+    this.send({ type: 'size', channel: channel.id, ...size });
+    return true;
+  }
+
+  // Each participant is told which entry of the list is itself
+  private sendPresence(): void {
+    const participants = this.participants.map(({ id, user, role }) => ({ id, userId: user.id, role }));
+    for (const participant of this.attached.values()) {
+      this.sendTo(participant, { type: 'presence', you: participant.id, participants });
+    }
+  }
+
+  private handleExit(channel: Channel, code: number): void {
+    if (this.terminated || !this.channels.has(channel.id)) {
+      return;
+    }
+
+    // Deliver the channel's last output before announcing that it closed
+    for (const participant of this.attached.values()) {
+      if (participant.socket.readyState === WebSocket.OPEN) {
+        this.sendOutput(participant, channel);
+      }
+      participant.sentOffsets.delete(channel.id);
+      participant.sizes.delete(channel.id);
+    }
+    this.channels.delete(channel.id);
+
+    this.log.info(`Channel exited with code ${code}`, { channel: channel.id });
+    channel.recorder?.finish();
+    this.send({ type: 'closed', channel: channel.id, exitCode: code });
+
+    if (this.channels.size === 0) {
+      // The sandbox manager tears itself down after its last PTY exits
+      this.send({ type: 'status', message: `Process exited with code ${code}` });
+      for (const { socket } of this.attached.values()) {
+        markDisconnect(socket, 'session_ended');
+        socket.close();
+      }
+      this.terminate().catch((error) => {
+        this.log.error('Error terminating session after its last process exited', { error });
+      });
+    }
+  }
+}
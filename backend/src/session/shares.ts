@@ -0,0 +1,62 @@
+/**
+ * Session Share Links
+ *
+ * A session's owner can invite others with a link carrying a random token:
+ * `editor` links let guests type into the terminals, `viewer` links only let
+ * them watch. Guests still sign in as themselves. Links live in memory with
+ * the session, so they stop working when it ends; revoking one disconnects
+ * everyone who joined through it.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { ParticipantRole } from '../websocket/protocol.js';
+
+export type ShareRole = Exclude<ParticipantRole, 'owner'>;
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  role: ShareRole;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export function isShareRole(value: unknown): value is ShareRole {
+  return value === 'editor' || value === 'viewer';
+}
+
+export class ShareLinks {
+  private readonly links = new Map<string, ShareLink>();
+
+  create(role: ShareRole, createdBy: string): ShareLink {
+    const link: ShareLink = {
+      id: randomUUID(),
+      token: randomBytes(24).toString('base64url'),
+      role,
+      createdBy,
+      createdAt: new Date(),
+    };
+    this.links.set(link.id, link);
+    return link;
+  }
+
+  /** Removes the link and returns it, or null if there was none with that ID */
+  revoke(id: string): ShareLink | null {
+    const link = this.links.get(id) ?? null;
+    this.links.delete(id);
+    return link;
+  }
+
+  find(token: string): ShareLink | null {
+    for (const link of this.links.values()) {
+      if (link.token === token) {
+        return link;
+      }
+    }
+    return null;
+  }
+
+  list(): ShareLink[] {
+    return [...this.links.values()];
+  }
+}
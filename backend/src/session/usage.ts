@@ -0,0 +1,85 @@
+/**
+ * Sandbox Time Usage
+ *
+ * Counts how long each user's sessions have had a running sandbox today (UTC)
+ * and persists the count in DATA_DIR/sandbox-usage.json, so a restart doesn't
+ * hand out a fresh daily quota. Concurrent sessions each count in full.
+ */
+
+import { config } from '../config/env.js';
+import { JsonFileStore } from '../persistence/json-store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'SandboxUsage' });
+
+// Usage is written at most this often; stopping a session saves right away
+const SAVE_DELAY_MS = 30 * 1000;
+
+interface StoredUsage {
+  // UTC date the counts belong to, e.g. 2026-01-15
+  day: string;
+  // Milliseconds of sandbox time per user
+  users: Record<string, number>;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const store = new JsonFileStore<StoredUsage>('sandbox-usage.json', 'sandbox usage', () => ({ day: today(), users: {} }), log);
+let saveTimer: NodeJS.Timeout | null = null;
+
+async function load(): Promise<StoredUsage> {
+  const usage = await store.load();
+  // Yesterday's counts are dropped at the first access after midnight UTC
+  if (usage.day !== today()) {
+    const fresh = { day: today(), users: {} };
+    store.set(fresh);
+    return fresh;
+  }
+  return usage;
+}
+
+function save(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  return store.save();
+}
+
+/** Daily quota in minutes for the user, 0 meaning unlimited */
+export function dailyQuotaFor(userId: string): number {
+  return config.sandboxDailyQuotas[userId] ?? config.sandboxDailyQuota;
+}
+
+/** Adds sandbox time to the user's count for today; `flush` saves immediately */
+export async function recordSandboxTime(userId: string, ms: number, flush = false): Promise<void> {
+  const entries = await load();
+  entries.users[userId] = (entries.users[userId] ?? 0) + ms;
+  if (flush) {
+    await save();
+  } else {
+    saveTimer ??= setTimeout(() => void save(), SAVE_DELAY_MS);
+  }
+}
+
+export async function sandboxTimeUsed(userId: string): Promise<number> {
+  return (await load()).users[userId] ?? 0;
+}
+
+/** Milliseconds of sandbox time the user has left today, Infinity without a quota */
+export async function sandboxTimeRemaining(userId: string): Promise<number> {
+  const quota = dailyQuotaFor(userId);
+  if (quota <= 0) {
+    return Infinity;
+  }
+  return Math.max(quota * 60 * 1000 - (await sandboxTimeUsed(userId)), 0);
+}
+
+/** Milliseconds until the daily counts reset at midnight UTC */
+export function msUntilReset(): number {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.getTime() - Date.now();
+}
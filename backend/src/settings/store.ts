@@ -0,0 +1,44 @@
+/**
+ * User Settings Store
+ *
+ * Client preferences such as the terminal's theme and font, kept per user in
+ * DATA_DIR/user-settings.json so they follow the user to other browsers. The
+ * server doesn't interpret them; the frontend validates what it loads.
+ */
+
+import { JsonFileStore } from '../persistence/json-store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'UserSettings' });
+
+// Largest settings object accepted per user, as serialized JSON
+export const MAX_SETTINGS_BYTES = 16 * 1024;
+
+export type UserSettings = Record<string, unknown>;
+
+const store = new JsonFileStore<Record<string, UserSettings>>('user-settings.json', 'user settings', () => ({}), log);
+
+export function isUserSettings(value: unknown): value is UserSettings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The user's saved settings, or null if they never saved any */
+export async function getUserSettings(userId: string): Promise<UserSettings | null> {
+  return (await store.load())[userId] ?? null;
+}
+
+export async function setUserSettings(userId: string, value: UserSettings): Promise<void> {
+  const entries = await store.load();
+  entries[userId] = value;
+  await store.save();
+}
+
+export async function clearUserSettings(userId: string): Promise<boolean> {
+  const entries = await store.load();
+  if (!(userId in entries)) {
+    return false;
+  }
+  delete entries[userId];
+  await store.save();
+  return true;
+}
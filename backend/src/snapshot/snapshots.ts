@@ -0,0 +1,202 @@
+/**
+ * Workspace Snapshots
+ *
+ * A snapshot is a gzipped tar of the workspace kept in the workspace's own
+ * `.snapshots/` directory, so it is stored by the same backend as the files
+ * it captures. Taking, diffing and restoring all run inside the session's
+ * sandbox and need its cloud storage mount.
+ */
+
+import { randomUUID } from 'crypto';
+import { posix } from 'path';
+import type { SandboxManager } from '../sandbox/manager.js';
+import { shellQuote } from '../sandbox/shell.js';
+import { addSnapshot, expiredSnapshots, removeSnapshots, SnapshotInfo, SnapshotReason } from './store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Snapshots' });
+
+export const SNAPSHOT_DIR = '.snapshots';
+
+/** A snapshot operation that can't run in this session, e.g. without cloud storage */
+export class SnapshotError extends Error {}
+
+export interface SnapshotOwner {
+  userId: string;
+  workspaceId: string;
+  sessionId: string;
+}
+
+export interface SnapshotChange {
+  // Relative to the workspace root
+  path: string;
+  // Compared to the snapshot: "added" exists only in the current workspace
+  status: 'added' | 'removed' | 'modified';
+}
+
+async function run(manager: SandboxManager, command: string, allowedExitCodes = [0]): Promise<string> {
+  const result = await manager.commands.run(command);
+  if (!allowedExitCodes.includes(result.exitCode)) {
+    throw new Error(`Command failed: ${command}\nstderr: ${result.stderr}`);
+  }
+  return result.stdout;
+}
+
+function archivePath(manager: SandboxManager, id: string): string {
+  return posix.join(manager.workspaceDir, SNAPSHOT_DIR, `${id}.tar.gz`);
+}
+
+function requireStorage(manager: SandboxManager): void {
+  if (!manager.hasStorageMount) {
+    throw new SnapshotError('Snapshots require cloud storage');
+  }
+}
+
+async function createArchive(
+  manager: SandboxManager,
+  owner: SnapshotOwner,
+  reason: SnapshotReason,
+  label: string | null
+): Promise<SnapshotInfo> {
+  const id = randomUUID();
+  const root = manager.workspaceDir;
+  const archive = archivePath(manager, id);
+
+  await run(manager, `mkdir -p ${shellQuote(posix.join(root, SNAPSHOT_DIR))}`);
+  // Written under a temporary name so an interrupted run never leaves a truncated archive;
+  // exit code 1 only means a file changed while it was being read
+  await run(manager, `tar -czf ${shellQuote(`${archive}.partial`)} -C ${shellQuote(root)} --exclude=./${SNAPSHOT_DIR} .`, [0, 1]);
+  await run(manager, `mv ${shellQuote(`${archive}.partial`)} ${shellQuote(archive)}`);
+  const bytes = parseInt(await run(manager, `wc -c < ${shellQuote(archive)}`), 10);
+
+  const info: SnapshotInfo = {
+    id,
+    ...owner,
+    reason,
+    label,
+    createdAt: new Date().toISOString(),
+    bytes,
+  };
+  await addSnapshot(info);
+  log.info(`Created ${reason} snapshot (${bytes} bytes)`, { ...owner, sandboxId: manager.sandboxId, snapshot: id });
+  return info;
+}
+
+async function pruneSnapshots(manager: SandboxManager, workspaceId: string): Promise<void> {
+  const expired = await expiredSnapshots(workspaceId);
+  if (expired.length === 0) {
+    return;
+  }
+
+  await run(manager, `rm -f ${expired.map((info) => shellQuote(archivePath(manager, info.id))).join(' ')}`);
+  await removeSnapshots(expired.map((info) => info.id));
+  log.info(`Pruned ${expired.length} old snapshot(s)`, { workspaceId });
+}
+
+export async function takeSnapshot(
+  manager: SandboxManager,
+  owner: SnapshotOwner,
+  reason: SnapshotReason,
+  label: string | null = null
+): Promise<SnapshotInfo> {
+  requireStorage(manager);
+  const info = await createArchive(manager, owner, reason, label);
+  await pruneSnapshots(manager, owner.workspaceId);
+  return info;
+}
+
+async function requireArchive(manager: SandboxManager, snapshot: SnapshotInfo): Promise<string> {
+  requireStorage(manager);
+  const archive = archivePath(manager, snapshot.id);
+  if ((await manager.commands.run(`test -f ${shellQuote(archive)}`)).exitCode !== 0) {
+    throw new SnapshotError(`The archive of snapshot ${snapshot.id} is missing from the workspace`);
+  }
+  return archive;
+}
+
+/**
+ * Replaces the workspace's contents (everything but `.snapshots/`) with the
+ * snapshot. The current state is saved first as a "pre-restore" snapshot,
+ * which is returned so the restore can be undone.
+ */
+export async function restoreSnapshot(
+  manager: SandboxManager,
+  snapshot: SnapshotInfo,
+  owner: SnapshotOwner
+): Promise<SnapshotInfo> {
+  const archive = await requireArchive(manager, snapshot);
+  const backup = await createArchive(manager, owner, 'pre-restore', `Before restoring ${snapshot.id}`);
+
+  const root = shellQuote(manager.workspaceDir);
+  await run(manager, `find ${root} -mindepth 1 -maxdepth 1 ! -name ${SNAPSHOT_DIR} -exec rm -rf {} +`);
+  await run(manager, `tar -xzf ${shellQuote(archive)} -C ${root}`);
+  log.info('Restored snapshot', { ...owner, sandboxId: manager.sandboxId, snapshot: snapshot.id });
+
+  // Pruned only now so the snapshot being restored can't be the one that expires
+  await pruneSnapshots(manager, owner.workspaceId);
+  return backup;
+}
+
+/** Extracts the snapshot (or only `members` of it) into a temporary directory for the duration of `inspect` */
+async function withExtracted<T>(
+  manager: SandboxManager,
+  snapshot: SnapshotInfo,
+  members: string[],
+  inspect: (dir: string) => Promise<T>
+): Promise<T> {
+  const archive = await requireArchive(manager, snapshot);
+  const dir = (await run(manager, 'mktemp -d')).trim();
+  try {
+    const names = members.map((member) => shellQuote(`./${member}`)).join(' ');
+    // Asking for a member the snapshot doesn't have fails, which just means it was added since
+    await run(manager, `tar -xzf ${shellQuote(archive)} -C ${shellQuote(dir)} ${names}`, members.length > 0 ? [0, 2] : [0]);
+    return await inspect(dir);
+  } finally {
+    await manager.commands.run(`rm -rf ${shellQuote(dir)}`);
+  }
+}
+
+function parseDiffLine(line: string, extracted: string, root: string): SnapshotChange | null {
+  const only = /^Only in (.+): (.+)$/.exec(line);
+  if (only) {
+    const path = posix.join(only[1], only[2]);
+    return path.startsWith(`${extracted}/`)
+      ? { path: posix.relative(extracted, path), status: 'removed' }
+      : { path: posix.relative(root, path), status: 'added' };
+  }
+
+  // "Files <old> and <new> differ", or "File <old> is a directory while file <new> is a regular file"
+  const start = line.startsWith('Files ') ? 'Files '.length : line.startsWith('File ') ? 'File '.length : -1;
+  if (start < 0 || !line.startsWith(`${extracted}/`, start)) {
+    return null;
+  }
+  const end = line.indexOf(line.startsWith('Files ') ? ` and ${root}/` : ' is a ', start);
+  return end < 0 ? null : { path: line.slice(start + extracted.length + 1, end), status: 'modified' };
+}
+
+/** Files that differ between the snapshot and the current workspace */
+export async function diffSnapshot(manager: SandboxManager, snapshot: SnapshotInfo): Promise<SnapshotChange[]> {
+  const root = manager.workspaceDir;
+  return withExtracted(manager, snapshot, [], async (dir) => {
+    // Exit code 1 means differences were found
+    const output = await run(manager, `diff -rq --exclude=${SNAPSHOT_DIR} ${shellQuote(dir)} ${shellQuote(root)}`, [0, 1]);
+    return output
+      .split('\n')
+      .map((line) => parseDiffLine(line, dir, root))
+      .filter((change): change is SnapshotChange => change !== null)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  });
+}
+
+/** Unified diff of one file from the snapshot to the current workspace; `path` is relative to the workspace */
+export async function diffSnapshotFile(manager: SandboxManager, snapshot: SnapshotInfo, path: string): Promise<string> {
+  const current = posix.join(manager.workspaceDir, path);
+  return withExtracted(manager, snapshot, [path], (dir) =>
+    // -N treats a file missing on either side as empty
+    run(
+      manager,
+      `diff -uN --label ${shellQuote(`snapshot/${path}`)} --label ${shellQuote(`current/${path}`)} ${shellQuote(posix.join(dir, path))} ${shellQuote(current)}`,
+      [0, 1]
+    )
+  );
+}
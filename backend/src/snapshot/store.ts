@@ -0,0 +1,59 @@
+/**
+ * Snapshot Store
+ *
+ * Snapshot archives live in the workspace itself (see snapshots.ts); their
+ * metadata is kept in DATA_DIR/snapshots.json so snapshots can be listed
+ * without a running session.
+ */
+
+import { config } from '../config/env.js';
+import { JsonFileStore } from '../persistence/json-store.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Snapshots' });
+
+export type SnapshotReason = 'manual' | 'session-end' | 'scheduled' | 'pre-restore';
+
+export interface SnapshotInfo {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  sessionId: string;
+  reason: SnapshotReason;
+  label: string | null;
+  createdAt: string;
+  // Size of the compressed archive
+  bytes: number;
+}
+
+const store = new JsonFileStore<SnapshotInfo[]>('snapshots.json', 'snapshot index', () => [], log);
+
+export async function addSnapshot(info: SnapshotInfo): Promise<void> {
+  (await store.load()).push(info);
+  await store.save();
+}
+
+export async function removeSnapshots(ids: string[]): Promise<void> {
+  store.set((await store.load()).filter((info) => !ids.includes(info.id)));
+  await store.save();
+}
+
+export async function getSnapshot(id: string): Promise<SnapshotInfo | null> {
+  return (await store.load()).find((info) => info.id === id) ?? null;
+}
+
+/** Snapshots of a workspace, newest first */
+export async function listSnapshots(workspaceId: string): Promise<SnapshotInfo[]> {
+  return (await store.load())
+    .filter((info) => info.workspaceId === workspaceId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Automatic snapshots of the workspace beyond the newest SNAPSHOT_RETENTION;
+ * manual snapshots are never pruned.
+ */
+export async function expiredSnapshots(workspaceId: string): Promise<SnapshotInfo[]> {
+  const automatic = (await listSnapshots(workspaceId)).filter((info) => info.reason !== 'manual');
+  return automatic.slice(config.snapshotRetention);
+}
@@ -1,4 +1,17 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
 import { config } from '../config/env.js';
+import {
+  isMountPoint,
+  missingSettings,
+  runAll,
+  StorageBackend,
+  StorageContext,
+  StorageHealth,
+  StorageType,
+} from './backend.js';
+import type { BindMount } from '../sandbox/provider.js';
 
 export interface BlobfuseConfig {
   logging: {
@@ -24,21 +37,124 @@ export interface BlobfuseConfig {
     account_key?: string;
     mode: string;
     container: string;
+    endpoint?: string;
+    subdirectory: string;
   };
 }
 
-export class AzureBlobConfigManager {
-  private static readonly CONFIG_FILE_PATH = '/tmp/blobfuse2.yaml';
-  private static readonly MOUNT_POINT = '/workspace/files';
-  private static readonly CACHE_PATH = '/tmp/blobfuse2-cache';
-  private static readonly LOG_PATH = '/tmp/blobfuse2.log';
+// Holds the account key in key mode, so it lives in the sandbox's tmpfs secrets directory until the mount is up
+const CONFIG_FILE_NAME = 'blobfuse2.yaml';
+const CACHE_PATH = '/tmp/blobfuse2-cache';
+const LOG_PATH = '/tmp/blobfuse2.log';
+
+// Azure CLI files copied from the host in cli auth mode
+const AZURE_CLI_FILES = [
+  'azureProfile.json',
+  'accessTokens.json',
+  'msal_token_cache.json',
+  'msal_http_cache.bin',
+  'clouds.config',
+  'config'
+];
+
+/** Azure Blob Storage mounted with blobfuse2, authenticating with host Azure CLI credentials or an account key */
+export class AzureBlobStorageBackend implements StorageBackend {
+  readonly type: StorageType = 'azure';
+  readonly displayName = 'Azure Blob Storage';
+  readonly requiresFuse = true;
+
+  mountPoint(): string {
+    return config.storageMountPoint;
+  }
+
+  bindMounts(): BindMount[] {
+    return [];
+  }
+
+  async setupCredentials(context: StorageContext): Promise<void> {
+    if (config.azureAuthMode === 'cli') {
+      await this.copyAzureCliCredentials(context);
+    }
+
+    const configFilePath = this.configFilePath(context.sandbox.secretsDir);
+    await context.writeSecretFile(configFilePath, this.generateConfigYaml(context.prefix));
+    context.log.info('Blobfuse2 config written', { path: configFilePath });
+  }
+
+  async mount({ sandbox, log }: StorageContext): Promise<void> {
+    const configFile = this.configFilePath(sandbox.secretsDir);
+    const mountCommand = `blobfuse2 mount ${this.mountPoint()} --config-file=${configFile} --log-level=LOG_WARNING`;
+    log.info('Executing mount command', { command: mountCommand });
+
+    const result = await sandbox.commands.run(mountCommand);
+    if (result.exitCode !== 0) {
+      const logs = await sandbox.files.read(LOG_PATH).catch(() => 'No logs available');
+      throw new Error(`Failed to mount Azure Blob Storage. Exit code: ${result.exitCode}. Logs: ${logs}`);
+    }
+    // blobfuse2 returns once its daemon has read the config; the account key in it grants the whole container
+    await runAll(sandbox, [`rm -f ${configFile}`]);
+  }
+
+  verify({ sandbox }: StorageContext): Promise<boolean> {
+    return isMountPoint(sandbox, this.mountPoint());
+  }
+
+  async unmount({ sandbox }: StorageContext): Promise<void> {
+    await runAll(sandbox, [`fusermount3 -u ${this.mountPoint()}`]);
+  }
+
+  health(): StorageHealth {
+    const problems = missingSettings({
+      AZURE_STORAGE_ACCOUNT: config.azureStorageAccount,
+      ...(config.azureAuthMode === 'key' ? { AZURE_STORAGE_KEY: config.azureStorageKey } : {}),
+    });
+    return { type: this.type, configured: problems.length === 0, problems };
+  }
+
+  private configFilePath(secretsDir: string): string {
+    return `${secretsDir}/${CONFIG_FILE_NAME}`;
+  }
+
+  private async copyAzureCliCredentials({ sandbox, log }: StorageContext): Promise<void> {
+    log.info('Validating Azure CLI authentication...');
 
-  static generateConfig(): BlobfuseConfig {
+    // Check if az command is available
+    const azCheckResult = await sandbox.commands.run('which az');
+    if (azCheckResult.exitCode !== 0) {
+      throw new Error('Azure CLI is not installed in the sandbox. Please update the E2B Dockerfile to install Azure CLI.');
+    }
+
+    log.info('Copying Azure CLI credentials to sandbox...');
+    const azureConfigDir = join(homedir(), '.azure');
+    for (const filename of AZURE_CLI_FILES) {
+      try {
+        const content = await readFile(join(azureConfigDir, filename), 'utf-8');
+        await sandbox.files.write(`/root/.azure/${filename}`, content);
+        log.debug(`Copied ${filename} to sandbox`);
+      } catch {
+        // Some files might not exist, that's okay
+        log.debug(`Skipping ${filename} (not found or inaccessible)`);
+      }
+    }
+
+    // Verify user is logged in
+    const azLoginCheck = await sandbox.commands.run('az account show');
+    if (azLoginCheck.exitCode !== 0) {
+      throw new Error(
+        'Azure CLI authentication required. Please run "az login" on your host machine before starting the sandbox.\n' +
+        'Error: ' + azLoginCheck.stderr
+      );
+    }
+  }
+
+  private generateConfig(prefix: string): BlobfuseConfig {
     const azstorageConfig: BlobfuseConfig['azstorage'] = {
       type: 'block',
       account_name: config.azureStorageAccount,
       mode: config.azureAuthMode === 'cli' ? 'azcli' : 'key',
       container: config.azureStorageContainer,
+      // Mount only the workspace's virtual directory, not the whole container
+      subdirectory: prefix,
     };
 
     // Only include account_key when using key mode
@@ -47,14 +163,14 @@ export class AzureBlobConfigManager {
     }
 
     // Add endpoint for Azurite (local development)
-    if (process.env.AZURE_STORAGE_ENDPOINT) {
-      (azstorageConfig as any).endpoint = process.env.AZURE_STORAGE_ENDPOINT;
+    if (config.azureStorageEndpoint) {
+      azstorageConfig.endpoint = config.azureStorageEndpoint;
     }
 
     return {
       logging: {
         level: 'log_warning',
-        file_path: this.LOG_PATH,
+        file_path: LOG_PATH,
       },
       components: [
         'libfuse',
@@ -68,7 +184,7 @@ export class AzureBlobConfigManager {
         allow_other: true,
       },
       file_cache: {
-        path: this.CACHE_PATH,
+        path: CACHE_PATH,
         timeout_sec: 120,
       },
       attr_cache: {
@@ -78,15 +194,16 @@ export class AzureBlobConfigManager {
     };
   }
 
-  static generateConfigYaml(): string {
-    const cfg = this.generateConfig();
+  private generateConfigYaml(prefix: string): string {
+    const cfg = this.generateConfig(prefix);
 
     // Build azstorage section based on auth mode
     let azstorageSection = `azstorage:
   type: ${cfg.azstorage.type}
   account-name: ${cfg.azstorage.account_name}
   mode: ${cfg.azstorage.mode}
-  container: ${cfg.azstorage.container}`;
+  container: ${cfg.azstorage.container}
+  subdirectory: ${cfg.azstorage.subdirectory}`;
 
     // Only add account-key line when using key mode
     if (cfg.azstorage.account_key) {
@@ -95,12 +212,13 @@ export class AzureBlobConfigManager {
   account-name: ${cfg.azstorage.account_name}
   account-key: ${cfg.azstorage.account_key}
   mode: ${cfg.azstorage.mode}
-  container: ${cfg.azstorage.container}`;
+  container: ${cfg.azstorage.container}
+  subdirectory: ${cfg.azstorage.subdirectory}`;
     }
 
     // Add endpoint for Azurite if configured
-    if ((cfg.azstorage as any).endpoint) {
-      azstorageSection += `\n  endpoint: ${(cfg.azstorage as any).endpoint}`;
+    if (cfg.azstorage.endpoint) {
+      azstorageSection += `\n  endpoint: ${cfg.azstorage.endpoint}`;
     }
 
     return `logging:
@@ -125,28 +243,4 @@ attr_cache:
 ${azstorageSection}
 `;
   }
-
-  static getMountCommand(): string {
-    return `blobfuse2 mount ${this.MOUNT_POINT} --config-file=${this.CONFIG_FILE_PATH} --log-level=LOG_WARNING`;
-  }
-
-  static getUnmountCommand(): string {
-    return `fusermount3 -u ${this.MOUNT_POINT}`;
-  }
-
-  static getConfigFilePath(): string {
-    return this.CONFIG_FILE_PATH;
-  }
-
-  static getMountPoint(): string {
-    return this.MOUNT_POINT;
-  }
-
-  static getCachePath(): string {
-    return this.CACHE_PATH;
-  }
-
-  static getLogPath(): string {
-    return this.LOG_PATH;
-  }
 }
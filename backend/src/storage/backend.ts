@@ -0,0 +1,95 @@
+import { CloudStorageType, config } from '../config/env.js';
+import type { BindMount, SandboxInstance } from '../sandbox/provider.js';
+import type { Logger } from '../logging/logger.js';
+import { AzureBlobStorageBackend } from './azure-blob.js';
+import { GcsStorageBackend } from './gcs.js';
+import { LocalDirectoryStorageBackend } from './local-dir.js';
+import { R2StorageBackend } from './r2.js';
+import { S3StorageBackend } from './s3.js';
+
+export type StorageType = CloudStorageType;
+
+/** What a backend needs from SandboxManager while mounting and unmounting */
+export interface StorageContext {
+  sandbox: SandboxInstance;
+  /** The workspace's prefix in the bucket, e.g. "users/alice"; only this part is mounted */
+  prefix: string;
+  /** Carries the session's IDs, for backends that log their progress */
+  log: Logger;
+  /** Writes a file into the sandbox's tmpfs secrets directory, readable only by the sandbox user */
+  writeSecretFile: (path: string, content: string) => Promise<void>;
+}
+
+export interface StorageHealth {
+  type: StorageType;
+  configured: boolean;
+  // Missing or invalid settings that would make mounting fail
+  problems: string[];
+}
+
+/**
+ * A persistent workspace store mounted into sandboxes. SandboxManager checks
+ * health() before creating a sandbox, calls setupCredentials, mount and
+ * verify in that order when provisioning, and unmount during teardown once
+ * the PTYs are gone.
+ */
+export interface StorageBackend {
+  readonly type: StorageType;
+  /** Human-readable name for logs and the shell's welcome message */
+  readonly displayName: string;
+  /** Where the workspace with the given prefix appears inside the sandbox; terminals start here */
+  mountPoint: (prefix: string) => string;
+  /** Whether mounting needs FUSE inside the sandbox (see SandboxInstance.supportsStorageMounts) */
+  readonly requiresFuse: boolean;
+  /** Host directories to bind in at sandbox creation; only local providers support these */
+  bindMounts: (prefix: string) => BindMount[];
+  /** Writes whatever the mount needs to authenticate, e.g. a password file */
+  setupCredentials: (context: StorageContext) => Promise<void>;
+  mount: (context: StorageContext) => Promise<void>;
+  /** Resolves true once the workspace is actually mounted */
+  verify: (context: StorageContext) => Promise<boolean>;
+  unmount: (context: StorageContext) => Promise<void>;
+  /** Checks the backend's configuration without touching a sandbox */
+  health: () => StorageHealth;
+}
+
+export async function isMountPoint(sandbox: SandboxInstance, path: string): Promise<boolean> {
+  const result = await sandbox.commands.run(`mountpoint -q ${path} && echo "MOUNTED" || echo "NOT_MOUNTED"`);
+  return result.exitCode === 0 && result.stdout.trim() === 'MOUNTED';
+}
+
+/** Runs each command in order, failing with the command and its stderr on the first non-zero exit */
+export async function runAll(sandbox: SandboxInstance, commands: string[]): Promise<void> {
+  for (const cmd of commands) {
+    const result = await sandbox.commands.run(cmd);
+    if (result.exitCode !== 0) {
+      throw new Error(`Command failed: ${cmd}\nstderr: ${result.stderr}`);
+    }
+  }
+}
+
+/** Lists the names of required settings that are empty */
+export function missingSettings(settings: Record<string, string | undefined>): string[] {
+  return Object.entries(settings)
+    .filter(([, value]) => !value)
+    .map(([name]) => `${name} is not set`);
+}
+
+const BACKENDS: Record<StorageType, () => StorageBackend> = {
+  r2: () => new R2StorageBackend(),
+  azure: () => new AzureBlobStorageBackend(),
+  s3: () => new S3StorageBackend(),
+  gcs: () => new GcsStorageBackend(),
+  local: () => new LocalDirectoryStorageBackend(),
+};
+
+let backend: StorageBackend | null = null;
+
+/** The backend selected by CLOUD_STORAGE_TYPE, or null when cloud storage is disabled */
+export function getStorageBackend(): StorageBackend | null {
+  if (!config.cloudStorageEnabled) {
+    return null;
+  }
+  backend ??= BACKENDS[config.cloudStorageType]();
+  return backend;
+}
@@ -0,0 +1,76 @@
+import { config } from '../config/env.js';
+import {
+  isMountPoint,
+  missingSettings,
+  runAll,
+  StorageBackend,
+  StorageContext,
+  StorageHealth,
+  StorageType,
+} from './backend.js';
+import type { BindMount } from '../sandbox/provider.js';
+
+// Service account key; written to the tmpfs secrets directory and deleted once gcsfuse has read it
+const KEY_FILE_NAME = 'gcs-key.json';
+
+/** Google Cloud Storage mounted with gcsfuse, authenticating with a service account key */
+export class GcsStorageBackend implements StorageBackend {
+  readonly type: StorageType = 'gcs';
+  readonly displayName = 'Google Cloud Storage';
+  readonly requiresFuse = true;
+
+  mountPoint(): string {
+    return config.storageMountPoint;
+  }
+
+  bindMounts(): BindMount[] {
+    return [];
+  }
+
+  async setupCredentials({ sandbox, writeSecretFile }: StorageContext): Promise<void> {
+    await writeSecretFile(this.keyFile(sandbox.secretsDir), config.gcsServiceAccountKey!);
+  }
+
+  async mount({ sandbox, prefix }: StorageContext): Promise<void> {
+    const keyFile = this.keyFile(sandbox.secretsDir);
+    await runAll(sandbox, [
+      `mkdir -p ${this.mountPoint()}`,
+      // implicit-dirs shows prefixes written by other tools as directories
+      `gcsfuse --key-file=${keyFile} --implicit-dirs --only-dir=${prefix} -o allow_other ${config.gcsBucket} ${this.mountPoint()}`,
+      // gcsfuse loads the key at startup and refreshes tokens from memory; the key grants the whole bucket
+      `rm -f ${keyFile}`,
+    ]);
+  }
+
+  verify({ sandbox }: StorageContext): Promise<boolean> {
+    return isMountPoint(sandbox, this.mountPoint());
+  }
+
+  async unmount({ sandbox }: StorageContext): Promise<void> {
+    await runAll(sandbox, [`fusermount -u ${this.mountPoint()}`]);
+  }
+
+  health(): StorageHealth {
+    const problems = missingSettings({
+      GCS_BUCKET: config.gcsBucket,
+      GCS_SERVICE_ACCOUNT_KEY: config.gcsServiceAccountKey,
+    });
+    if (config.gcsServiceAccountKey && !isJsonObject(config.gcsServiceAccountKey)) {
+      problems.push('GCS_SERVICE_ACCOUNT_KEY must be the JSON contents of a service account key');
+    }
+    return { type: this.type, configured: problems.length === 0, problems };
+  }
+
+  private keyFile(secretsDir: string): string {
+    return `${secretsDir}/${KEY_FILE_NAME}`;
+  }
+}
+
+function isJsonObject(text: string): boolean {
+  try {
+    const value = JSON.parse(text);
+    return typeof value === 'object' && value !== null;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,65 @@
+import { join, resolve } from 'path';
+import { config } from '../config/env.js';
+import {
+  StorageBackend,
+  StorageContext,
+  StorageHealth,
+  StorageType,
+} from './backend.js';
+import type { BindMount } from '../sandbox/provider.js';
+
+/**
+ * A directory on the backend host, for working offline with the local sandbox
+ * provider. Each workspace is a subdirectory named after its prefix. Docker
+ * sandboxes get it bind-mounted at the usual mount point; host-mode shells
+ * simply work in the directory itself.
+ */
+export class LocalDirectoryStorageBackend implements StorageBackend {
+  readonly type: StorageType = 'local';
+  readonly displayName = 'Local directory storage';
+  readonly requiresFuse = false;
+
+  private readonly hostPath = resolve(config.localStorageDir);
+
+  mountPoint(prefix: string): string {
+    return this.bindsIntoSandbox ? config.storageMountPoint : join(this.hostPath, prefix);
+  }
+
+  bindMounts(prefix: string): BindMount[] {
+    return this.bindsIntoSandbox ? [{ hostPath: join(this.hostPath, prefix), sandboxPath: config.storageMountPoint }] : [];
+  }
+
+  async setupCredentials(): Promise<void> {
+    // Nothing to authenticate
+  }
+
+  async mount({ sandbox, prefix }: StorageContext): Promise<void> {
+    // The directory is already there (bound at creation, or on the host itself); just make sure it exists
+    const mountPoint = this.mountPoint(prefix);
+    const result = await sandbox.commands.run(`mkdir -p ${mountPoint}`);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to create ${mountPoint}: ${result.stderr}`);
+    }
+  }
+
+  async verify({ sandbox, prefix }: StorageContext): Promise<boolean> {
+    const mountPoint = this.mountPoint(prefix);
+    const result = await sandbox.commands.run(`test -d ${mountPoint} -a -w ${mountPoint}`);
+    return result.exitCode === 0;
+  }
+
+  async unmount(): Promise<void> {
+    // Bind mounts go away with the container
+  }
+
+  health(): StorageHealth {
+    const problems = config.sandboxProvider === 'local'
+      ? []
+      : ['CLOUD_STORAGE_TYPE=local requires SANDBOX_PROVIDER=local'];
+    return { type: this.type, configured: problems.length === 0, problems };
+  }
+
+  private get bindsIntoSandbox(): boolean {
+    return config.localSandboxMode === 'docker';
+  }
+}
@@ -1,33 +1,27 @@
 import { config } from '../config/env.js';
+import { missingSettings, StorageType } from './backend.js';
+import { S3StorageBackend } from './s3.js';
 
-export class R2StorageManager {
-  private static readonly MOUNT_POINT = '/workspace/files';
-  private static readonly CREDENTIALS_FILE = '/home/user/.passwd-s3fs';
+/** Cloudflare R2 through its S3-compatible API */
+export class R2StorageBackend extends S3StorageBackend {
+  readonly type: StorageType = 'r2';
+  readonly displayName = 'Cloudflare R2 storage';
 
-  static getCredentialsContent(accessKeyId: string, secretAccessKey: string): string {
-    return `${accessKeyId}:${secretAccessKey}`;
+  constructor() {
+    super({
+      accessKeyId: config.r2AccessKeyId,
+      secretAccessKey: config.r2SecretAccessKey,
+      bucket: config.r2Bucket,
+      endpoint: config.r2Endpoint,
+    });
   }
 
-  static getCredentialsFile(): string {
-    return this.CREDENTIALS_FILE;
-  }
-
-  static getMountCommands(bucketName: string, endpoint: string): string[] {
-    return [
-      // Create mount point
-      `mkdir -p ${this.MOUNT_POINT}`,
-      // Set permissions on credentials file (after it's written)
-      `chmod 600 ${this.CREDENTIALS_FILE}`,
-      // Mount R2 bucket (use sudo for FUSE access)
-      `sudo s3fs ${bucketName} ${this.MOUNT_POINT} -o passwd_file=${this.CREDENTIALS_FILE} -o url=${endpoint} -o use_path_request_style -o allow_other`
-    ];
-  }
-
-  static getUnmountCommand(): string {
-    return `fusermount -u ${this.MOUNT_POINT}`;
-  }
-
-  static getMountPoint(): string {
-    return this.MOUNT_POINT;
+  protected problems(): string[] {
+    return missingSettings({
+      R2_ACCESS_KEY_ID: this.options.accessKeyId,
+      R2_SECRET_ACCESS_KEY: this.options.secretAccessKey,
+      R2_ENDPOINT: this.options.endpoint,
+      R2_BUCKET: this.options.bucket,
+    });
   }
 }
@@ -0,0 +1,112 @@
+import { config } from '../config/env.js';
+import {
+  isMountPoint,
+  missingSettings,
+  runAll,
+  StorageBackend,
+  StorageContext,
+  StorageHealth,
+  StorageType,
+} from './backend.js';
+import type { BindMount } from '../sandbox/provider.js';
+
+export interface S3FsOptions {
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  bucket?: string;
+  // Custom endpoint URL for S3-compatible services; AWS when omitted
+  endpoint?: string;
+  region?: string;
+}
+
+// Lives in the sandbox's tmpfs secrets directory and is deleted once s3fs has read it
+const CREDENTIALS_FILE_NAME = 'passwd-s3fs';
+// Briefly mounts the whole bucket where only root can see it, to create the workspace prefix
+const BUCKET_ROOT = '/root/.s3fs-bucket';
+
+/**
+ * Mounts an S3 bucket (AWS, MinIO or any S3-compatible service) with s3fs.
+ * Subclasses only change where the settings come from.
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly type: StorageType = 's3';
+  readonly displayName: string = 'S3 storage';
+  readonly requiresFuse = true;
+
+  constructor(protected readonly options: S3FsOptions = {
+    accessKeyId: config.s3AccessKeyId,
+    secretAccessKey: config.s3SecretAccessKey,
+    bucket: config.s3Bucket,
+    endpoint: config.s3Endpoint,
+    region: config.s3Region,
+  }) {}
+
+  mountPoint(): string {
+    return config.storageMountPoint;
+  }
+
+  bindMounts(): BindMount[] {
+    return [];
+  }
+
+  async setupCredentials({ sandbox, writeSecretFile }: StorageContext): Promise<void> {
+    await writeSecretFile(
+      this.credentialsFile(sandbox.secretsDir),
+      `${this.options.accessKeyId}:${this.options.secretAccessKey}`
+    );
+  }
+
+  async mount({ sandbox, prefix }: StorageContext): Promise<void> {
+    const credentialsFile = this.credentialsFile(sandbox.secretsDir);
+    const options = `-o passwd_file=${credentialsFile} ${this.mountOptions().join(' ')}`;
+    await runAll(sandbox, [
+      `mkdir -p ${this.mountPoint()}`,
+      // s3fs expects the directory object of a mounted prefix to exist
+      `sudo mkdir -p ${BUCKET_ROOT}`,
+      `sudo s3fs ${this.options.bucket} ${BUCKET_ROOT} ${options}`,
+      `sudo mkdir -p ${BUCKET_ROOT}/${prefix}`,
+      `sudo fusermount -u ${BUCKET_ROOT}`,
+      // Mount with sudo for FUSE access; allow_other lets the sandbox user see root's mount
+      `sudo s3fs ${this.options.bucket}:/${prefix} ${this.mountPoint()} ${options} -o allow_other`,
+      // s3fs only reads the credentials at startup
+      `rm -f ${credentialsFile}`,
+    ]);
+  }
+
+  verify({ sandbox }: StorageContext): Promise<boolean> {
+    return isMountPoint(sandbox, this.mountPoint());
+  }
+
+  async unmount({ sandbox }: StorageContext): Promise<void> {
+    await runAll(sandbox, [`sudo fusermount -u ${this.mountPoint()}`]);
+  }
+
+  health(): StorageHealth {
+    const problems = this.problems();
+    return { type: this.type, configured: problems.length === 0, problems };
+  }
+
+  /** s3fs options selecting the service; path-style requests work with every S3-compatible server */
+  protected mountOptions(): string[] {
+    const options: string[] = [];
+    if (this.options.endpoint) {
+      options.push(`-o url=${this.options.endpoint}`, '-o use_path_request_style');
+    }
+    if (this.options.region) {
+      options.push(`-o endpoint=${this.options.region}`);
+    }
+    return options;
+  }
+
+  protected problems(): string[] {
+    return missingSettings({
+      S3_ACCESS_KEY_ID: this.options.accessKeyId,
+      S3_SECRET_ACCESS_KEY: this.options.secretAccessKey,
+      S3_BUCKET: this.options.bucket,
+    });
+  }
+
+  private credentialsFile(secretsDir: string): string {
+    return `${secretsDir}/${CREDENTIALS_FILE_NAME}`;
+  }
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import WebSocket from 'ws';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER = 'local';
+process.env.LOCAL_SANDBOX_MODE = 'host';
+process.env.AUTH_ENABLED = 'false';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), 'handler-test-'));
+process.env.MAX_SESSIONS_PER_USER = '2';
+// A quota makes the handler look up the user's usage before starting a session
+process.env.SANDBOX_DAILY_QUOTA = '600';
+process.env.LOG_LEVEL = 'error';
+
+function connect(url: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    ws.on('open', () => resolve(ws));
+    ws.on('error', reject);
+  });
+}
+
+// Resolves with the code of the error the server answers the hello with, or 'session' once it has started one
+function hello(ws: WebSocket): Promise<string> {
+  return new Promise((resolve) => {
+    ws.on('message', (data, binary) => {
+      const message = binary ? null : JSON.parse(data.toString());
+      if (message?.type === 'ready') {
+        resolve('session');
+      } else if (message?.type === 'error') {
+        resolve(message.code);
+      }
+    });
+    ws.send(JSON.stringify({ type: 'hello', version: 2 }));
+  });
+}
+
+test('simultaneous hellos cannot start more sessions than the limit', async () => {
+  const { setupWebSocketServer, cleanupAllConnections } = await import('./handler.js');
+  const server = createServer();
+  setupWebSocketServer(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/terminal`;
+
+  try {
+    // Every socket is open before any hello is sent, so the hellos reach the server together
+    const sockets = await Promise.all(Array.from({ length: 5 }, () => connect(url)));
+    const results = await Promise.all(sockets.map(hello));
+    assert.equal(results.filter((result) => result === 'session').length, 2);
+    assert.equal(results.filter((result) => result === 'too_many_sessions').length, 3);
+  } finally {
+    await cleanupAllConnections();
+    server.close();
+  }
+});
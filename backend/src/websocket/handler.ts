@@ -1,134 +1,469 @@
 import { WebSocket, WebSocketServer } from 'ws';
-import { Server } from 'http';
-import { SandboxManager, SandboxProcess } from '../sandbox/manager.js';
-
-interface TerminalMessage {
-  type: 'input' | 'resize';
-  data?: string;
-  cols?: number;
-  rows?: number;
-}
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Participant, Session } from '../session/session.js';
+import { createSession, findShare, getAllSessions, getSession } from '../session/registry.js';
+import { ShareRole } from '../session/shares.js';
+import { authenticateRequest, UserIdentity } from '../auth/identity.js';
+import {
+  ClientMessage,
+  CLOSE_PROTOCOL_ERROR,
+  ErrorCode,
+  Heartbeat,
+  HELLO_TIMEOUT_MS,
+  MIN_PROTOCOL_VERSION,
+  negotiateVersion,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  ServerMessage,
+} from './protocol.js';
+import { resolveWorkspace, Workspace, WorkspaceAccessError } from '../workspace/workspaces.js';
+import { resolveTemplate, SandboxTemplate, TemplateAccessError } from '../sandbox/templates.js';
+import { getSnapshot, SnapshotInfo } from '../snapshot/store.js';
+import { GitRepository, parseRepository, RepositoryError } from '../git/repository.js';
+import { markDisconnect, recordDisconnect } from '../metrics/metrics.js';
+import { sandboxTimeRemaining } from '../session/usage.js';
+import { quotaExhaustedMessage } from '../session/policy.js';
+import { handlePreviewUpgrade, isPreviewPath } from '../preview/proxy.js';
+import { checkSessionStart, InputRateLimiter, recordRejection, recordSessionStart, SessionLimitError } from './limits.js';
+import { config } from '../config/env.js';
+import { Logger, logger } from '../logging/logger.js';
+
+const DEFAULT_CHANNEL = '1';
+// Clients are told about dropped input at most this often
+const INPUT_DROP_NOTICE_MS = 5 * 1000;
+
+const log = logger.child({ component: 'WebSocket' });
 
 interface ConnectionState {
-  sandboxManager: SandboxManager;
-  sandboxProcess: SandboxProcess | null;
+  user: UserIdentity;
+  params: URLSearchParams;
+  // The client's address, which session limits are counted against
+  address: string;
+  input: InputRateLimiter;
+  // When the client was last told its input was dropped
+  inputDroppedAt: number;
+  // Attached once the client's hello has been accepted
+  session: Session | null;
+  participant: Participant | null;
+  heartbeat: Heartbeat;
+  helloTimer: NodeJS.Timeout | null;
+  // Carries the user ID, and the session's IDs once attached
+  log: Logger;
 }
 
 const connections = new Map<WebSocket, ConnectionState>();
 
+// What guests may send besides heartbeats; the owner may send anything
+const GUEST_MESSAGES: Record<ShareRole, ClientMessage['type'][]> = {
+  editor: ['input', 'resize', 'open', 'close', 'extend'],
+  // Viewers' sizes are ignored, but they are answered with the size to render at
+  viewer: ['resize'],
+};
+
+// Reconnecting clients report how many output bytes they have seen per channel as "1:1024,2:512"
+function parseOffsets(raw: string | null): Map<string, number> {
+  const offsets = new Map<string, number>();
+  for (const entry of (raw ?? '').split(',')) {
+    const [channel, offset] = entry.split(':');
+    if (channel && Number(offset) >= 0) {
+      offsets.set(channel, Number(offset));
+    }
+  }
+  return offsets;
+}
+
+function sendMessage(ws: WebSocket, message: ServerMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function rejectConnection(ws: WebSocket, state: ConnectionState, code: ErrorCode, message: string): void {
+  state.log.info(`Closing connection: ${message}`, { code });
+  sendMessage(ws, { type: 'error', code, message });
+  markDisconnect(ws, 'rejected');
+  ws.close(CLOSE_PROTOCOL_ERROR);
+}
+
 export function setupWebSocketServer(server: Server): WebSocketServer {
-  const wss = new WebSocketServer({
-    server,
-    path: '/terminal'
+  const wss = new WebSocketServer({ noServer: true, maxPayload: config.wsMaxMessageSize });
+
+  // Authenticate during the HTTP upgrade so unauthenticated clients never get a socket
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (isPreviewPath(req.url ?? '/')) {
+      handlePreviewUpgrade(req, socket, head);
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== '/terminal') {
+      socket.destroy();
+      return;
+    }
+
+    const user = authenticateRequest(req);
+    if (!user) {
+      log.warn('Rejected unauthenticated upgrade', { ip: req.socket.remoteAddress });
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req, user);
+    });
   });
 
-  wss.on('connection', async (ws: WebSocket) => {
-    console.log('[WebSocket] New connection established');
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, user: UserIdentity) => {
+    const connectionLog = log.child({ userId: user.id });
+    connectionLog.info('New connection established');
 
     const state: ConnectionState = {
-      sandboxManager: new SandboxManager(),
-      sandboxProcess: null,
+      user,
+      // Reconnecting clients pass the session they were attached to and how much output they have seen
+      params: new URL(req.url ?? '/', 'http://localhost').searchParams,
+      address: req.socket.remoteAddress ?? 'unknown',
+      input: new InputRateLimiter(),
+      inputDroppedAt: 0,
+      session: null,
+      participant: null,
+      heartbeat: new Heartbeat(
+        (ping) => sendMessage(ws, ping),
+        () => {
+          state.log.info('Heartbeat timed out, dropping connection');
+          markDisconnect(ws, 'heartbeat_timeout');
+          ws.terminate();
+        }
+      ),
+      helloTimer: setTimeout(() => {
+        rejectConnection(ws, state, 'handshake_required', 'No hello received');
+      }, HELLO_TIMEOUT_MS),
+      log: connectionLog,
     };
     connections.set(ws, state);
 
-    ws.send(JSON.stringify({ type: 'status', message: 'Initializing sandbox...' }));
+    registerMessageHandlers(ws, state);
+  });
 
-    try {
-      const sandboxProcess = await state.sandboxManager.create(
-        (data: string) => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'output', data }));
-          }
-        },
-        (code: number) => {
-          console.log(`[WebSocket] Sandbox process exited with code ${code}`);
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'status',
-              message: `Process exited with code ${code}`
-            }));
-            ws.close();
-          }
-        }
-      );
+  wss.on('error', (error) => {
+    log.error('WebSocketServer error', { error });
+  });
 
-      state.sandboxProcess = sandboxProcess;
-      ws.send(JSON.stringify({ type: 'ready' }));
-      console.log('[WebSocket] Sandbox ready for input');
-    } catch (error) {
-      console.error('[WebSocket] Error creating sandbox:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: `Failed to create sandbox: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }));
-      ws.close();
-      connections.delete(ws);
+  log.info('WebSocket server initialized on /terminal');
+
+  return wss;
+}
+
+type HelloMessage = Extract<ClientMessage, { type: 'hello' }>;
+
+async function handleHello(ws: WebSocket, state: ConnectionState, hello: HelloMessage): Promise<void> {
+  if (state.helloTimer) {
+    clearTimeout(state.helloTimer);
+    state.helloTimer = null;
+  }
+
+  const version = negotiateVersion(hello);
+  if (version === null) {
+    rejectConnection(
+      ws,
+      state,
+      'unsupported_version',
+      `Protocol version ${hello.version} is not supported (server speaks ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`
+    );
+    return;
+  }
+
+  sendMessage(ws, { type: 'hello', version });
+  state.heartbeat.start();
+  await attachSession(ws, state, hello);
+}
+
+// Brings a client attaching to a running session up to date
+function resumeSession(session: Session, participant: Participant, offsets: Map<string, number>): void {
+  session.sendTo(participant, {
+    type: 'session',
+    sessionId: session.id,
+    resumed: true,
+    channels: [...session.channels.keys()],
+    role: participant.role,
+  });
+  session.replay(participant, offsets);
+  if (session.isReady) {
+    session.sendTo(participant, { type: 'ready' });
+  }
+  const warning = session.expiryWarning;
+  if (warning) {
+    session.sendTo(participant, warning);
+  }
+  if (session.ports.length > 0) {
+    session.sendTo(participant, { type: 'ports', ports: session.ports });
+  }
+}
+
+// Guests join through a share link's token and never start sessions of their own
+function joinSharedSession(ws: WebSocket, state: ConnectionState, token: string, offsets: Map<string, number>): void {
+  const share = findShare(token);
+  if (!share || share.session.isTerminated) {
+    rejectConnection(ws, state, 'share_invalid', 'This share link is invalid, was revoked, or its session has ended');
+    return;
+  }
+
+  const { session, link } = share;
+  state.session = session;
+  state.log = session.logger.child({ component: 'WebSocket', guestId: state.user.id });
+  state.participant = session.attach(ws, state.user, link.role, link.id);
+  state.log.info('Joined shared session', { role: link.role, shareId: link.id });
+  resumeSession(session, state.participant, offsets);
+}
+
+async function attachSession(ws: WebSocket, state: ConnectionState, hello: HelloMessage): Promise<void> {
+  const { user, params } = state;
+  const requestedSessionId = params.get('sessionId');
+  const offsets = parseOffsets(params.get('offsets'));
+
+  const shareToken = params.get('share');
+  if (shareToken) {
+    joinSharedSession(ws, state, shareToken, offsets);
+    return;
+  }
+
+  const candidate = requestedSessionId ? getSession(requestedSessionId) : undefined;
+  // Sessions can only be reattached by the user who created them
+  const existing = candidate?.user.id === user.id ? candidate : undefined;
+
+  let workspace: Workspace;
+  try {
+    // Admins may pass ?workspace=<id> to open another user's or team's workspace
+    workspace = existing?.workspace ?? resolveWorkspace(user, params.get('workspace'));
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      rejectConnection(ws, state, 'workspace_denied', error.message);
       return;
     }
+    throw error;
+  }
 
-    ws.on('message', async (message: Buffer) => {
-      try {
-        const messageStr = message.toString();
+  let template: SandboxTemplate | null = null;
+  try {
+    template = existing ? null : resolveTemplate(user, hello.template ?? null);
+  } catch (error) {
+    if (error instanceof TemplateAccessError) {
+      rejectConnection(ws, state, 'template_denied', error.message);
+      return;
+    }
+    throw error;
+  }
 
-        // Ignore empty or non-JSON messages (e.g., ping/pong)
-        if (!messageStr || messageStr.trim().length === 0) {
-          return;
-        }
+  let restoreFrom: SnapshotInfo | undefined;
+  const requestedSnapshot = existing ? null : params.get('restoreSnapshot');
+  if (requestedSnapshot) {
+    const snapshot = await getSnapshot(requestedSnapshot);
+    if (snapshot?.workspaceId !== workspace.id) {
+      rejectConnection(ws, state, 'snapshot_not_found', `Snapshot ${requestedSnapshot} not found in workspace ${workspace.id}`);
+      return;
+    }
+    restoreFrom = snapshot;
+  }
+
+  let repository: GitRepository | null = null;
+  try {
+    repository = existing ? null : parseRepository(hello);
+  } catch (error) {
+    if (error instanceof RepositoryError) {
+      rejectConnection(ws, state, 'invalid_repository', error.message);
+      return;
+    }
+    throw error;
+  }
+
+  if (!existing && (await sandboxTimeRemaining(user.id)) <= 0) {
+    rejectConnection(ws, state, 'quota_exceeded', quotaExhaustedMessage(user.id));
+    return;
+  }
+
+  // Nothing may be awaited from here until the session is recorded, or simultaneous hellos would all pass the limits
+  try {
+    if (!existing) {
+      checkSessionStart(user, state.address);
+    }
+  } catch (error) {
+    if (error instanceof SessionLimitError) {
+      state.log.warn('Session limit reached', { limit: error.limit, ip: state.address });
+      rejectConnection(ws, state, error.code, error.message);
+      return;
+    }
+    throw error;
+  }
+
+  const session = existing ?? createSession(user, workspace, template!);
+  if (!existing) {
+    recordSessionStart(session, state.address);
+  }
+  state.session = session;
+  state.log = session.logger.child({ component: 'WebSocket' });
 
-        const msg: TerminalMessage = JSON.parse(messageStr);
+  state.participant = session.attach(ws, user);
 
-        if (msg.type === 'input' && msg.data !== undefined) {
-          if (state.sandboxProcess) {
-            state.sandboxProcess.write(msg.data);
-          }
-        } else if (msg.type === 'resize' && msg.cols !== undefined && msg.rows !== undefined) {
-          if (state.sandboxProcess) {
-            state.sandboxProcess.resize(msg.cols, msg.rows);
-          }
+  if (existing) {
+    state.log.info('Reattached to session');
+    resumeSession(session, state.participant, offsets);
+    return;
+  }
+
+  session.send({ type: 'session', sessionId: session.id, resumed: false, channels: [DEFAULT_CHANNEL], role: 'owner' });
+  if (requestedSessionId) {
+    session.send({ type: 'status', message: 'Previous session expired, starting a new one...' });
+  }
+  const steps = [restoreFrom && 'restoring snapshot', repository && `checking out ${repository.url}`].filter(Boolean);
+  session.send({ type: 'status', message: ['Initializing sandbox', ...steps].join(' and ') + '...' });
+
+  try {
+    await session.start(restoreFrom, repository ?? undefined);
+    if (session.isTerminated) {
+      return;
+    }
+    session.send({ type: 'ready' });
+    state.log.info('Sandbox ready for input');
+  } catch (error) {
+    state.log.error('Error creating sandbox', { error });
+    session.send({
+      type: 'error',
+      code: 'sandbox_failed',
+      message: `Failed to create sandbox: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+    await session.terminate();
+    markDisconnect(ws, 'sandbox_failed');
+    ws.close();
+    connections.delete(ws);
+  }
+}
+
+async function handleMessage(ws: WebSocket, state: ConnectionState, msg: ClientMessage): Promise<void> {
+  if (msg.type === 'ping') {
+    sendMessage(ws, { type: 'pong', timestamp: msg.timestamp });
+    return;
+  }
+  if (msg.type === 'pong') {
+    // Receiving it already refreshed the heartbeat
+    return;
+  }
+  if (msg.type === 'hello') {
+    if (state.session || !state.helloTimer) {
+      sendMessage(ws, { type: 'error', code: 'invalid_message', message: 'Handshake already completed' });
+      return;
+    }
+    await handleHello(ws, state, msg);
+    return;
+  }
+
+  const { session, participant } = state;
+  if (!session || !participant) {
+    sendMessage(ws, { type: 'error', code: 'handshake_required', message: `Send hello before ${msg.type}` });
+    return;
+  }
+  if (participant.role !== 'owner' && !GUEST_MESSAGES[participant.role].includes(msg.type)) {
+    sendMessage(ws, { type: 'error', code: 'read_only', message: `Your ${participant.role} access doesn't allow ${msg.type}` });
+    return;
+  }
+
+  switch (msg.type) {
+    case 'input':
+      if (!state.input.allow(Buffer.byteLength(msg.data))) {
+        recordRejection('input_rate');
+        if (Date.now() - state.inputDroppedAt >= INPUT_DROP_NOTICE_MS) {
+          state.inputDroppedAt = Date.now();
+          state.log.warn('Dropping input over the rate limit');
+          sendMessage(ws, {
+            type: 'error',
+            code: 'input_rate_limited',
+            message: `Input is limited to ${config.inputRateLimit} bytes per second; some of it was dropped`
+          });
         }
+        break;
+      }
+      session.write(participant, msg.channel ?? DEFAULT_CHANNEL, msg.data);
+      break;
+    case 'resize':
+      session.resize(participant, msg.channel ?? DEFAULT_CHANNEL, msg.cols, msg.rows);
+      break;
+    case 'open':
+      try {
+        const channel = await session.openChannel();
+        session.send({ type: 'opened', channel: channel.id });
       } catch (error) {
-        // Only log if it's not a simple parsing error (could be ping/pong)
-        if (error instanceof Error && !error.message.includes('Unexpected end of JSON input')) {
-          console.error('[WebSocket] Error processing message:', error);
-        }
+        sendMessage(ws, {
+          type: 'error',
+          code: 'channel_failed',
+          message: `Failed to open terminal: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
       }
-    });
+      break;
+    case 'close':
+      await session.closeChannel(msg.channel);
+      break;
+    case 'terminate':
+      state.log.info('Client terminated session');
+      await session.terminate();
+      break;
+    case 'extend':
+      session.policy.extend();
+      break;
+  }
+}
 
-    ws.on('close', async () => {
-      console.log('[WebSocket] Connection closed');
-      const state = connections.get(ws);
-      if (state?.sandboxProcess) {
-        await state.sandboxProcess.kill();
-      }
-      connections.delete(ws);
-    });
+function registerMessageHandlers(ws: WebSocket, state: ConnectionState): void {
+  ws.on('message', async (message: Buffer) => {
+    // Any traffic proves the client is alive
+    state.heartbeat.touch();
 
-    ws.on('error', (error) => {
-      console.error('[WebSocket] WebSocket error:', error);
-    });
-  });
+    const parsed = parseClientMessage(message.toString());
+    if (!parsed.ok) {
+      sendMessage(ws, { type: 'error', code: 'invalid_message', message: parsed.error });
+      return;
+    }
 
-  wss.on('error', (error) => {
-    console.error('[WebSocket] WebSocketServer error:', error);
+    try {
+      await handleMessage(ws, state, parsed.message);
+    } catch (error) {
+      state.log.error('Error processing message', { type: parsed.message.type, error });
+    }
   });
 
-  console.log('[WebSocket] WebSocket server initialized on /terminal');
+  ws.on('close', (code: number) => {
+    state.log.info('Connection closed', { code });
+    recordDisconnect(ws, code);
+    state.heartbeat.stop();
+    if (state.helloTimer) {
+      clearTimeout(state.helloTimer);
+      state.helloTimer = null;
+    }
+    // Keep the sandbox alive for the grace period so the client can reattach
+    state.session?.detach(ws);
+    connections.delete(ws);
+  });
 
-  return wss;
+  ws.on('error', (error: Error & { code?: string }) => {
+    // ws closes the connection with CLOSE_MESSAGE_TOO_BIG itself
+    if (error.code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+      state.log.warn('Closing connection: message over WS_MAX_MESSAGE_SIZE', { limit: config.wsMaxMessageSize });
+      recordRejection('message_size');
+      markDisconnect(ws, 'message_too_large');
+      return;
+    }
+    state.log.error('WebSocket error', { error });
+  });
 }
 
 export async function cleanupAllConnections(): Promise<void> {
-  console.log('[WebSocket] Cleaning up all connections...');
-  const cleanupPromises: Promise<void>[] = [];
+  log.info('Cleaning up all connections...');
 
-  for (const [ws, state] of connections.entries()) {
-    if (state.sandboxProcess) {
-      cleanupPromises.push(state.sandboxProcess.kill());
-    }
+  for (const ws of connections.keys()) {
+    markDisconnect(ws, 'server_shutdown');
     ws.close();
   }
-
-  await Promise.all(cleanupPromises);
   connections.clear();
-  console.log('[WebSocket] All connections cleaned up');
+
+  await Promise.all(getAllSessions().map((session) => session.terminate()));
+  log.info('All connections cleaned up');
 }
@@ -0,0 +1,125 @@
+/**
+ * Abuse Limits
+ *
+ * Keeps one client from tying up the server's sandboxes or PTYs:
+ * - sessions: MAX_SESSIONS_PER_USER live sessions per owner, and
+ *   MAX_SESSIONS_PER_IP per address they were started from.
+ * - creations: SANDBOX_CREATE_LIMIT new sessions per user within
+ *   SANDBOX_CREATE_WINDOW seconds, so a reconnect loop can't churn sandboxes.
+ * - input: INPUT_RATE_LIMIT bytes of terminal input per second per
+ *   connection; input beyond it is dropped.
+ *
+ * WS_MAX_MESSAGE_SIZE is enforced by the WebSocket server itself (see
+ * handler.ts). Every refusal is counted in cloud_dev_rate_limit_rejections_total.
+ */
+
+import { config } from '../config/env.js';
+import { UserIdentity } from '../auth/identity.js';
+import { Session } from '../session/session.js';
+import { getAllSessions } from '../session/registry.js';
+import { rateLimitRejections } from '../metrics/metrics.js';
+
+export type RateLimit = 'sessions_per_user' | 'sessions_per_ip' | 'sandbox_creations' | 'message_size' | 'input_rate';
+
+export class SessionLimitError extends Error {
+  constructor(
+    readonly code: 'too_many_sessions' | 'rate_limited',
+    readonly limit: RateLimit,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SessionLimitError';
+  }
+}
+
+// The address each live session was started from
+const sessionAddresses = new WeakMap<Session, string>();
+// When each user's recent sessions were started, oldest first
+const recentStarts = new Map<string, number[]>();
+
+export function recordRejection(limit: RateLimit): void {
+  rateLimitRejections.inc({ limit });
+}
+
+function reject(code: SessionLimitError['code'], limit: RateLimit, message: string): never {
+  recordRejection(limit);
+  throw new SessionLimitError(code, limit, message);
+}
+
+// Drops starts that have left the window
+function startsInWindow(userId: string, now: number): number[] {
+  const windowStart = now - config.sandboxCreateWindow * 1000;
+  const starts = (recentStarts.get(userId) ?? []).filter((time) => time > windowStart);
+  if (starts.length > 0) {
+    recentStarts.set(userId, starts);
+  } else {
+    recentStarts.delete(userId);
+  }
+  return starts;
+}
+
+/** Throws a SessionLimitError if `user` may not start another session from `address` now */
+export function checkSessionStart(user: UserIdentity, address: string): void {
+  const live = getAllSessions().filter((session) => !session.isTerminated);
+
+  const owned = live.filter((session) => session.user.id === user.id).length;
+  if (config.maxSessionsPerUser > 0 && owned >= config.maxSessionsPerUser) {
+    reject(
+      'too_many_sessions',
+      'sessions_per_user',
+      `You already have ${owned} running session${owned === 1 ? '' : 's'}, the most allowed; end one before starting another.`
+    );
+  }
+
+  const fromAddress = live.filter((session) => sessionAddresses.get(session) === address).length;
+  if (config.maxSessionsPerIp > 0 && fromAddress >= config.maxSessionsPerIp) {
+    reject(
+      'too_many_sessions',
+      'sessions_per_ip',
+      `Your network address already has ${fromAddress} running sessions, the most allowed; end one before starting another.`
+    );
+  }
+
+  const now = Date.now();
+  const starts = startsInWindow(user.id, now);
+  if (config.sandboxCreateLimit > 0 && starts.length >= config.sandboxCreateLimit) {
+    const retryIn = Math.ceil((starts[starts.length - config.sandboxCreateLimit] + config.sandboxCreateWindow * 1000 - now) / 1000);
+    reject(
+      'rate_limited',
+      'sandbox_creations',
+      `Too many sessions started recently (${starts.length} in ${config.sandboxCreateWindow} seconds); try again in ${retryIn} seconds.`
+    );
+  }
+}
+
+/** Counts a session just created for `user` against their limits */
+export function recordSessionStart(session: Session, address: string): void {
+  sessionAddresses.set(session, address);
+  const starts = recentStarts.get(session.user.id) ?? [];
+  starts.push(Date.now());
+  recentStarts.set(session.user.id, starts);
+}
+
+/**
+ * Token bucket over a connection's terminal input: it holds up to a second's
+ * worth of INPUT_RATE_LIMIT and refills continuously.
+ */
+export class InputRateLimiter {
+  private tokens = config.inputRateLimit;
+  private refilledAt = Date.now();
+
+  /** Whether `bytes` more input may be written now; if so, they are taken from the bucket */
+  allow(bytes: number): boolean {
+    if (config.inputRateLimit <= 0) {
+      return true;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(config.inputRateLimit, this.tokens + ((now - this.refilledAt) / 1000) * config.inputRateLimit);
+    this.refilledAt = now;
+    if (bytes > this.tokens) {
+      return false;
+    }
+    this.tokens -= bytes;
+    return true;
+  }
+}
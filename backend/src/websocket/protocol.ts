@@ -0,0 +1,330 @@
+/**
+ * Terminal WebSocket Protocol
+ *
+ * Shared by the backend handler and the frontend WebSocketManager, so this
+ * module must stay free of imports and of Node- or DOM-only APIs.
+ *
+ * Control messages are JSON text frames with a `type`; PTY output travels in
+ * binary frames (see encodeOutputFrame). After the socket opens the
+ * client sends `hello` with the protocol versions it speaks; the server
+ * answers with the negotiated version (or an `unsupported_version` error and
+ * a close) and only then attaches the session. Both ends send `ping` every
+ * HEARTBEAT_INTERVAL_MS, answer pings with `pong`, and drop a peer that has
+ * sent nothing for HEARTBEAT_TIMEOUT_MS.
+ */
+
+// Version 2 moved output from JSON `output` messages to binary frames
+export const PROTOCOL_VERSION = 2;
+// Oldest version this side can still speak
+export const MIN_PROTOCOL_VERSION = 2;
+
+export const HEARTBEAT_INTERVAL_MS = 20_000;
+export const HEARTBEAT_TIMEOUT_MS = 45_000;
+// How long the server waits for the client's hello before giving up
+export const HELLO_TIMEOUT_MS = 10_000;
+
+// Largest terminal width or height, in cells, a client may ask for
+export const MAX_TERMINAL_SIZE = 1000;
+
+// WebSocket close code for protocol violations (RFC 6455)
+export const CLOSE_PROTOCOL_ERROR = 1002;
+// WebSocket close code for a message larger than the server accepts (RFC 6455)
+export const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+export type ErrorCode =
+  | 'invalid_message' // Not JSON, unknown type, or fields of the wrong type
+  | 'unsupported_version' // No protocol version both sides speak
+  | 'handshake_required' // Anything but hello before the handshake completed
+  | 'sandbox_failed' // The session's sandbox could not be created
+  | 'channel_failed' // An additional terminal could not be opened
+  | 'workspace_denied' // The requested workspace doesn't exist or belongs to someone else
+  | 'snapshot_not_found' // The snapshot to restore doesn't exist in the session's workspace
+  | 'invalid_repository' // The repository to start from is malformed or not allowed
+  | 'template_denied' // The requested sandbox template doesn't exist or is above the user's tier
+  | 'share_invalid' // The share link doesn't exist, was revoked, or its session has ended
+  | 'read_only' // The participant's role doesn't allow that message
+  | 'session_terminated' // An admin ended the session
+  | 'session_expired' // The session was idle too long, reached its maximum lifetime or used up the daily quota
+  | 'quota_exceeded' // The user's daily sandbox time is used up, so no new session can start
+  | 'too_many_sessions' // The user, or the client's address, already has as many live sessions as allowed
+  | 'rate_limited' // Too many sessions were started recently; the message says when to try again
+  | 'input_rate_limited'; // Input arrived faster than allowed and some was dropped; the connection stays open
+
+// The session's owner, or a guest who joined through an interactive (editor) or view-only (viewer) share link
+export type ParticipantRole = 'owner' | 'editor' | 'viewer';
+
+export interface ParticipantInfo {
+  id: string;
+  userId: string;
+  role: ParticipantRole;
+}
+
+// Why a session is about to end: no activity, its maximum lifetime, or the user's daily quota
+export type ExpiryReason = 'idle' | 'lifetime' | 'quota';
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp: number;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  // Echoes the ping's timestamp so the sender can measure round-trip time
+  timestamp: number;
+}
+
+/** Messages sent by the browser */
+export type ClientMessage =
+  // A new session can start from a Git repository; ignored when reattaching
+  | {
+      type: 'hello';
+      version: number;
+      minVersion?: number;
+      // Catalog ID of the sandbox template a new session starts from
+      template?: string;
+      repository?: string;
+      ref?: string;
+      setupScript?: string;
+    }
+  // Input/resize without a channel go to the session's first terminal
+  | { type: 'input'; channel?: string; data: string }
+  | { type: 'resize'; channel?: string; cols: number; rows: number }
+  | { type: 'open' }
+  | { type: 'close'; channel: string }
+  | { type: 'terminate' }
+  // Answers an extendable expiry_warning; counts as activity
+  | { type: 'extend' }
+  | PingMessage
+  | PongMessage;
+
+/** Messages sent by the server */
+export type ServerMessage =
+  | { type: 'hello'; version: number }
+  | { type: 'session'; sessionId: string; resumed: boolean; channels: string[]; role: ParticipantRole }
+  | { type: 'status'; message: string }
+  | { type: 'ready' }
+  // The channel's next output frame starts at absolute byte `offset`; clear the terminal first if `reset`
+  | { type: 'replay'; channel: string; reset: boolean; offset: number }
+  | { type: 'opened'; channel: string }
+  | { type: 'closed'; channel: string; exitCode: number }
+  | { type: 'error'; code: ErrorCode; message: string }
+  // The session ends in `remaining` seconds unless it is `extendable` and gets extended
+  | { type: 'expiry_warning'; reason: ExpiryReason; remaining: number; extendable: boolean }
+  // The last expiry_warning no longer applies, e.g. after activity
+  | { type: 'expiry_cleared' }
+  // Everyone attached to the session; `you` is the recipient's own participant ID
+  | { type: 'presence'; you: string; participants: ParticipantInfo[] }
+  // The channel's PTY size, the smallest any owner or editor asked for; terminals render at exactly this size
+  | { type: 'size'; channel: string; cols: number; rows: number }
+  // Ports servers in the sandbox listen on, openable under /preview/<sessionId>/<port>/; sent on attach and on change
+  | { type: 'ports'; ports: number[] }
+  | PingMessage
+  | PongMessage;
+
+// 'dimension' is a terminal width or height: an integer from 1 to MAX_TERMINAL_SIZE
+type FieldType = 'string' | 'number' | 'count' | 'dimension' | 'boolean' | 'string[]' | 'number[]';
+// A trailing "?" marks the field optional; a one-element tuple is an array of objects matching that schema
+type FieldSpec = FieldType | `${FieldType}?` | [Schema];
+interface Schema {
+  [field: string]: FieldSpec;
+}
+
+const PARTICIPANT_SCHEMA: Schema = { id: 'string', userId: 'string', role: 'string' };
+
+const CLIENT_SCHEMAS: Record<ClientMessage['type'], Schema> = {
+  hello: {
+    version: 'count',
+    minVersion: 'count?',
+    template: 'string?',
+    repository: 'string?',
+    ref: 'string?',
+    setupScript: 'string?',
+  },
+  input: { channel: 'string?', data: 'string' },
+  resize: { channel: 'string?', cols: 'dimension', rows: 'dimension' },
+  open: {},
+  close: { channel: 'string' },
+  terminate: {},
+  extend: {},
+  ping: { timestamp: 'number' },
+  pong: { timestamp: 'number' },
+};
+
+const SERVER_SCHEMAS: Record<ServerMessage['type'], Schema> = {
+  hello: { version: 'count' },
+  session: { sessionId: 'string', resumed: 'boolean', channels: 'string[]', role: 'string' },
+  status: { message: 'string' },
+  ready: {},
+  replay: { channel: 'string', reset: 'boolean', offset: 'count' },
+  opened: { channel: 'string' },
+  closed: { channel: 'string', exitCode: 'number' },
+  error: { code: 'string', message: 'string' },
+  expiry_warning: { reason: 'string', remaining: 'count', extendable: 'boolean' },
+  expiry_cleared: {},
+  presence: { you: 'string', participants: [PARTICIPANT_SCHEMA] },
+  size: { channel: 'string', cols: 'count', rows: 'count' },
+  ports: { ports: 'number[]' },
+  ping: { timestamp: 'number' },
+  pong: { timestamp: 'number' },
+};
+
+/**
+ * Binary output frame: one byte holding the channel ID's length, the channel
+ * ID as ASCII, then the raw PTY bytes. Output is not decoded on the server,
+ * so multi-byte characters may be split across frames; clients must decode
+ * each channel with a streaming UTF-8 decoder.
+ */
+export function encodeOutputFrame(channel: string, data: Uint8Array): Uint8Array {
+  const id = new TextEncoder().encode(channel);
+  const frame = new Uint8Array(1 + id.length + data.length);
+  frame[0] = id.length;
+  frame.set(id, 1);
+  frame.set(data, 1 + id.length);
+  return frame;
+}
+
+export function decodeOutputFrame(frame: Uint8Array): { channel: string; data: Uint8Array } | null {
+  const idLength = frame[0];
+  if (frame.length === 0 || idLength === 0 || frame.length < 1 + idLength) {
+    return null;
+  }
+  return {
+    channel: new TextDecoder().decode(frame.subarray(1, 1 + idLength)),
+    data: frame.subarray(1 + idLength),
+  };
+}
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'count':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    case 'dimension':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_TERMINAL_SIZE;
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    case 'number[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'number' && Number.isFinite(item));
+    default:
+      return typeof value === type;
+  }
+}
+
+// Returns the first problem with the object's fields, named from `path`, or null if they match
+function checkFields(fields: Record<string, unknown>, schema: Schema, path: string): string | null {
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = fields[name];
+    if (Array.isArray(spec)) {
+      if (!Array.isArray(value)) {
+        return `${path}.${name} must be an array`;
+      }
+      for (const [index, item] of value.entries()) {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+          return `${path}.${name}[${index}] must be an object`;
+        }
+        const error = checkFields(item as Record<string, unknown>, spec[0], `${path}.${name}[${index}]`);
+        if (error) {
+          return error;
+        }
+      }
+      continue;
+    }
+    const optional = spec.endsWith('?');
+    const type = (optional ? spec.slice(0, -1) : spec) as FieldType;
+    if (value === undefined) {
+      if (!optional) {
+        return `${path}.${name} is required`;
+      }
+    } else if (!matchesType(value, type)) {
+      return type === 'dimension'
+        ? `${path}.${name} must be an integer from 1 to ${MAX_TERMINAL_SIZE}`
+        : `${path}.${name} must be of type ${type}`;
+    }
+  }
+  return null;
+}
+
+function parseMessage<T>(raw: string, schemas: Record<string, Schema>): ParseResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'Message is not valid JSON' };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: 'Message must be a JSON object' };
+  }
+
+  const fields = value as Record<string, unknown>;
+  if (typeof fields.type !== 'string' || !Object.hasOwn(schemas, fields.type)) {
+    return { ok: false, error: `Unknown message type: ${String(fields.type)}` };
+  }
+
+  const error = checkFields(fields, schemas[fields.type], fields.type);
+  return error ? { ok: false, error } : { ok: true, message: value as T };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage(raw, CLIENT_SCHEMAS);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseMessage(raw, SERVER_SCHEMAS);
+}
+
+/**
+ * Picks the highest version both sides speak, or null if their ranges don't
+ * overlap. Clients that omit minVersion only speak their one version.
+ */
+export function negotiateVersion(hello: { version: number; minVersion?: number }): number | null {
+  const version = Math.min(hello.version, PROTOCOL_VERSION);
+  const floor = Math.max(hello.minVersion ?? hello.version, MIN_PROTOCOL_VERSION);
+  return version >= floor ? version : null;
+}
+
+/**
+ * Application-level keepalive. Sends a ping every HEARTBEAT_INTERVAL_MS and
+ * calls onTimeout once nothing has been heard from the peer (any message
+ * counts, see touch()) for HEARTBEAT_TIMEOUT_MS.
+ */
+export class Heartbeat {
+  private readonly sendPing: (ping: PingMessage) => void;
+  private readonly onTimeout: () => void;
+  private lastSeen = Date.now();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(sendPing: (ping: PingMessage) => void, onTimeout: () => void) {
+    this.sendPing = sendPing;
+    this.onTimeout = onTimeout;
+  }
+
+  start(): void {
+    this.stop();
+    this.lastSeen = Date.now();
+    this.timer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  touch(): void {
+    this.lastSeen = Date.now();
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick(): void {
+    if (Date.now() - this.lastSeen > HEARTBEAT_TIMEOUT_MS) {
+      this.stop();
+      this.onTimeout();
+      return;
+    }
+    this.sendPing({ type: 'ping', timestamp: Date.now() });
+  }
+}
@@ -0,0 +1,74 @@
+import { config } from '../config/env.js';
+import { QuotaState, recordUsage, WorkspaceUsage } from './usage.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Quota' });
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function describe(usage: WorkspaceUsage): string {
+  const percent = Math.round((usage.bytes / usage.quota) * 100);
+  const amounts = `${formatBytes(usage.bytes)} of ${formatBytes(usage.quota)} (${percent}%)`;
+  return usage.state === 'exceeded'
+    ? `Workspace ${usage.workspaceId} is over its storage quota: ${amounts}. Uploads are blocked until you free up space.`
+    : `Workspace ${usage.workspaceId} is nearly full: ${amounts}.`;
+}
+
+/**
+ * Measures a session's workspace every WORKSPACE_USAGE_INTERVAL seconds,
+ * records the result, and reports a notice whenever the quota state gets
+ * worse (ok -> warning -> exceeded), including on the first measurement.
+ */
+export class QuotaMonitor {
+  private timer: NodeJS.Timeout | null = null;
+  private state: QuotaState = 'ok';
+  private measuring = false;
+
+  constructor(
+    private readonly workspaceId: string,
+    private readonly measure: () => Promise<number>,
+    private readonly notify: (message: string) => void
+  ) {}
+
+  start(): void {
+    this.stop();
+    void this.check();
+    this.timer = setInterval(() => void this.check(), config.workspaceUsageInterval * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(): Promise<void> {
+    // Large workspaces on FUSE mounts can take longer to walk than the interval
+    if (this.measuring) {
+      return;
+    }
+    this.measuring = true;
+    try {
+      const usage = await recordUsage(this.workspaceId, await this.measure());
+      const worse = usage.state === 'exceeded' ? this.state !== 'exceeded' : usage.state === 'warning' && this.state === 'ok';
+      this.state = usage.state;
+      if (worse) {
+        this.notify(describe(usage));
+      }
+    } catch (error) {
+      log.error('Error measuring workspace', { workspaceId: this.workspaceId, error });
+    } finally {
+      this.measuring = false;
+    }
+  }
+}
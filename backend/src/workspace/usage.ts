@@ -0,0 +1,66 @@
+/**
+ * Workspace Usage Store
+ *
+ * Remembers the last measured size of every workspace in
+ * DATA_DIR/workspace-usage.json, so admins can see usage for workspaces
+ * without a running session and the file API can refuse writes to
+ * workspaces over quota.
+ */
+
+import { config } from '../config/env.js';
+import { JsonFileStore } from '../persistence/json-store.js';
+import { quotaFor } from './workspaces.js';
+import { logger } from '../logging/logger.js';
+
+const log = logger.child({ component: 'Usage' });
+
+export type QuotaState = 'ok' | 'warning' | 'exceeded';
+
+export interface WorkspaceUsage {
+  workspaceId: string;
+  bytes: number;
+  // 0 means unlimited
+  quota: number;
+  state: QuotaState;
+  measuredAt: string;
+}
+
+interface StoredUsage {
+  bytes: number;
+  measuredAt: string;
+}
+
+// Keyed by workspace ID
+const store = new JsonFileStore<Record<string, StoredUsage>>('workspace-usage.json', 'workspace usage', () => ({}), log);
+
+export function quotaState(bytes: number, quota: number): QuotaState {
+  if (quota <= 0) {
+    return 'ok';
+  }
+  if (bytes >= quota) {
+    return 'exceeded';
+  }
+  return bytes >= (quota * config.workspaceQuotaWarnPercent) / 100 ? 'warning' : 'ok';
+}
+
+function toUsage(workspaceId: string, stored: StoredUsage): WorkspaceUsage {
+  const quota = quotaFor(workspaceId);
+  return { workspaceId, ...stored, quota, state: quotaState(stored.bytes, quota) };
+}
+
+export async function recordUsage(workspaceId: string, bytes: number): Promise<WorkspaceUsage> {
+  const stored = { bytes, measuredAt: new Date().toISOString() };
+  (await store.load())[workspaceId] = stored;
+  void store.save();
+  return toUsage(workspaceId, stored);
+}
+
+/** Last measured usage, or null if the workspace has never been measured */
+export async function getUsage(workspaceId: string): Promise<WorkspaceUsage | null> {
+  const stored = (await store.load())[workspaceId];
+  return stored ? toUsage(workspaceId, stored) : null;
+}
+
+export async function listUsage(): Promise<WorkspaceUsage[]> {
+  return Object.entries(await store.load()).map(([workspaceId, stored]) => toUsage(workspaceId, stored));
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The config module checks the environment when it is first imported
+process.env.SANDBOX_PROVIDER ??= 'local';
+process.env.ANTHROPIC_API_KEY ??= 'test';
+process.env.AUTH_JWT_SECRET ??= 'test';
+
+const admin = { id: 'root', admin: true };
+
+test('encoded workspace IDs round-trip', async () => {
+  const { parseWorkspaceId, resolveWorkspace, workspaceForUser } = await import('./workspaces.js');
+
+  const own = workspaceForUser('alice@example.com');
+  assert.equal(own.id, `users/~${Buffer.from('alice@example.com').toString('hex')}`);
+  assert.deepEqual(parseWorkspaceId(own.id), own);
+  assert.deepEqual(resolveWorkspace(admin, own.id), own);
+});
+
+test('readable workspace IDs are kept as they are', async () => {
+  const { parseWorkspaceId } = await import('./workspaces.js');
+
+  assert.deepEqual(parseWorkspaceId('teams/core'), { id: 'teams/core', kind: 'team', name: 'core' });
+});
+
+test('workspace IDs not in the form toName gives are rejected', async () => {
+  const { parseWorkspaceId } = await import('./workspaces.js');
+
+  assert.equal(parseWorkspaceId('users/.hidden'), null);
+  // "alice" is readable, so its encoded form is not its ID
+  assert.equal(parseWorkspaceId(`users/~${Buffer.from('alice').toString('hex')}`), null);
+  assert.equal(parseWorkspaceId('users/~abc'), null);
+  assert.equal(parseWorkspaceId('users/~ABCD'), null);
+  assert.equal(parseWorkspaceId('groups/alice'), null);
+});
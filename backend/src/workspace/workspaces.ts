@@ -0,0 +1,74 @@
+/**
+ * Workspaces
+ *
+ * Each user's files live under their own prefix of the shared bucket:
+ * `users/<userId>`, or `teams/<team>` for users assigned a team in
+ * WORKSPACE_TEAMS. The prefix doubles as the workspace ID. Admins may open
+ * a session on any workspace.
+ */
+
+import { config } from '../config/env.js';
+import { UserIdentity } from '../auth/identity.js';
+
+export interface Workspace {
+  // Also the storage prefix, e.g. "users/alice"
+  id: string;
+  kind: 'user' | 'team';
+  name: string;
+}
+
+export class WorkspaceAccessError extends Error {}
+
+// Names end up in object keys, mount options and host paths
+const WORKSPACE_NAME = /^[A-Za-z0-9._-]+$/;
+// Either a readable name or one encoded by toName
+const WORKSPACE_ID = /^(users|teams)\/([A-Za-z0-9._-]+|~(?:[0-9a-f]{2})+)$/;
+
+function toName(raw: string): string {
+  // Keep readable names as they are; anything else is encoded into the allowed alphabet
+  return WORKSPACE_NAME.test(raw) && !raw.startsWith('.') ? raw : `~${Buffer.from(raw).toString('hex')}`;
+}
+
+export function workspaceForUser(userId: string): Workspace {
+  const team = config.workspaceTeams[userId];
+  return team
+    ? { id: `teams/${toName(team)}`, kind: 'team', name: team }
+    : { id: `users/${toName(userId)}`, kind: 'user', name: userId };
+}
+
+export function parseWorkspaceId(id: string): Workspace | null {
+  const match = WORKSPACE_ID.exec(id);
+  if (!match) {
+    return null;
+  }
+  const name = match[2].startsWith('~') ? Buffer.from(match[2].slice(1), 'hex').toString() : match[2];
+  // Only the form toName gives a name, so each workspace has exactly one ID
+  if (toName(name) !== match[2]) {
+    return null;
+  }
+  return { id, kind: match[1] === 'users' ? 'user' : 'team', name };
+}
+
+/**
+ * The workspace a session should mount: the user's own, or for admins any
+ * workspace they ask for.
+ */
+export function resolveWorkspace(user: UserIdentity, requestedId: string | null): Workspace {
+  const own = workspaceForUser(user.id);
+  if (!requestedId || requestedId === own.id) {
+    return own;
+  }
+  if (!user.admin) {
+    throw new WorkspaceAccessError('Only admins can open other workspaces');
+  }
+  const workspace = parseWorkspaceId(requestedId);
+  if (!workspace) {
+    throw new WorkspaceAccessError(`Invalid workspace ID: ${requestedId}`);
+  }
+  return workspace;
+}
+
+/** Quota in bytes for a workspace; 0 means unlimited */
+export function quotaFor(workspaceId: string): number {
+  return config.workspaceQuotas[workspaceId] ?? config.workspaceQuota;
+}
@@ -2,42 +2,198 @@
  * Main App Component
  *
  * Purpose: Orchestrate terminal display and WebSocket connection
- * Contract: Display terminal, manage connection state, handle errors
+ * Contract: Display terminal tabs, manage connection state, handle errors
+ *
+ * Each tab is one PTY channel in the session's sandbox. All tabs stay mounted
+ * (inactive ones are hidden) so their scrollback survives switching.
+ *
+ * Opened through a share link (`?share=<token>`), the app joins that session
+ * as a guest instead of starting one; view-only guests can't type, and only
+ * the owner gets the file tree, snapshots and sharing.
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import type { Terminal as XTerm } from '@xterm/xterm';
 import { Terminal } from './components/Terminal';
-import { WebSocketManager, type ConnectionState } from './lib/websocket';
+import { FileTree } from './components/FileTree';
+import { Recordings } from './components/Recordings';
+import { Snapshots } from './components/Snapshots';
+import { AdminDashboard } from './components/AdminDashboard';
+import { ExpiryBanner } from './components/ExpiryBanner';
+import { SharePanel } from './components/SharePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import {
+  WebSocketManager,
+  type ConnectionState,
+  type ExpiryWarning,
+  type ParticipantInfo,
+  type ParticipantRole,
+} from './lib/websocket';
+import { WS_URL, clearToken, fetchCurrentUser, getToken, login, type User } from './lib/api';
+import { listWorkspaces, type WorkspaceInfo } from './lib/workspaces';
+import { describeResources, listTemplates, type TemplateCatalog } from './lib/templates';
+import type { SnapshotInfo } from './lib/snapshots';
+import { clearShareTokenFromLocation, shareTokenFromLocation } from './lib/shares';
+import { openPreview, previewUrl } from './lib/preview';
+import {
+  clearServerSettings,
+  fetchServerSettings,
+  loadLocalSettings,
+  saveLocalSettings,
+  saveServerSettings,
+  type TerminalSettings,
+} from './lib/settings';
 import './App.css';
 
-const WS_URL = 'ws://localhost:3000/terminal';
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+  owner: 'Owner',
+  editor: 'Can type',
+  viewer: 'View only',
+};
 
 function App() {
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [error, setError] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [sessionStarted, setSessionStarted] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [apiKey, setApiKey] = useState('');
+  const [channels, setChannels] = useState<string[]>([]);
+  const [activeChannel, setActiveChannel] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sandboxReady, setSandboxReady] = useState(false);
+  const [expiryWarning, setExpiryWarning] = useState<ExpiryWarning | null>(null);
+  // Set when the page was opened through a share link
+  const [shareToken, setShareToken] = useState(shareTokenFromLocation);
+  const [role, setRole] = useState<ParticipantRole | null>(null);
+  const [presence, setPresence] = useState<{ you: string; participants: ParticipantInfo[] } | null>(null);
+  // The size the server runs each channel's PTY at
+  const [terminalSizes, setTerminalSizes] = useState<Record<string, { cols: number; rows: number }>>({});
+  // Ports servers in the sandbox listen on, linked as previews
+  const [ports, setPorts] = useState<number[]>([]);
+  const [sharePanelOpen, setSharePanelOpen] = useState(false);
+  const [terminalSettings, setTerminalSettings] = useState(loadLocalSettings);
+  const [settingsPanelOpen, setSettingsPanelOpen] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [filesCollapsed, setFilesCollapsed] = useState(false);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [snapshotPanelOpen, setSnapshotPanelOpen] = useState(false);
+  const [showAdmin, setShowAdmin] = useState(false);
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+  // Empty means the user's own workspace
+  const [selectedWorkspace, setSelectedWorkspace] = useState('');
+  const [templateCatalog, setTemplateCatalog] = useState<TemplateCatalog | null>(null);
+  // Empty until the catalog loads, then the server's default
+  const [selectedTemplate, setSelectedTemplate] = useState('');
+  // Optional Git repository to start the session from
+  const [repositoryUrl, setRepositoryUrl] = useState('');
+  const [repositoryRef, setRepositoryRef] = useState('');
+  const [setupScript, setSetupScript] = useState('');
   const wsManagerRef = useRef<WebSocketManager | null>(null);
-  const terminalRef = useRef<HTMLDivElement>(null);
+  const xtermsRef = useRef(new Map<string, XTerm>());
+  // Output that arrives before a tab's xterm has mounted
+  const pendingOutputRef = useRef(new Map<string, string[]>());
+  // Pending save of the settings to the user's account
+  const settingsSaveRef = useRef<number | null>(null);
 
-  const startSession = () => {
+  const visibleChannel = activeChannel && channels.includes(activeChannel) ? activeChannel : channels[0];
+
+  const writeToChannel = (channel: string, data: string) => {
+    const xterm = xtermsRef.current.get(channel);
+    if (xterm) {
+      xterm.write(data);
+    } else {
+      const pending = pendingOutputRef.current.get(channel) ?? [];
+      pending.push(data);
+      pendingOutputRef.current.set(channel, pending);
+    }
+  };
+
+  const forgetChannel = (channel: string) => {
+    xtermsRef.current.delete(channel);
+    pendingOutputRef.current.delete(channel);
+  };
+
+  const startSession = (restoreFrom?: SnapshotInfo, share?: string) => {
     setSessionStarted(true);
+    setShowSnapshots(false);
     setError(null);
 
     const wsManager = new WebSocketManager({
       url: WS_URL,
+      getToken,
+      workspace: selectedWorkspace || undefined,
+      template: selectedTemplate || undefined,
+      restoreSnapshot: restoreFrom?.id,
+      repository: repositoryUrl.trim()
+        ? { url: repositoryUrl.trim(), ref: repositoryRef.trim() || undefined, setupScript: setupScript.trim() ? setupScript : undefined }
+        : undefined,
+      share,
+      // An unreachable backend is not an auth failure, so keep reconnecting in that case
+      verifyAuth: () => fetchCurrentUser().then((current) => current !== null, () => true),
       onStateChange: (state) => {
         setConnectionState(state);
+        if (state === 'unauthorized') {
+          // Token expired or revoked: drop back to the login screen
+          clearToken();
+          setUser(null);
+          setSessionStarted(false);
+        }
+      },
+      onData: (channel, data) => {
+        writeToChannel(channel, data);
+      },
+      onReset: (channel) => {
+        // Replayed scrollback no longer overlaps what the terminal shows
+        xtermsRef.current.get(channel)?.reset();
+        pendingOutputRef.current.delete(channel);
+      },
+      onSession: (id, resumed, sessionRole) => {
+        setSessionId(id);
+        setRole(sessionRole);
+        if (!resumed) {
+          setSandboxReady(false);
+          setExpiryWarning(null);
+          setTerminalSizes({});
+          setPorts([]);
+        }
       },
-      onData: (data) => {
-        // Write data to terminal
-        const terminalContainer = terminalRef.current;
-        if (terminalContainer) {
-          const xtermElement = terminalContainer.querySelector('.xterm');
-          const xterm = (xtermElement as any)?.terminal;
-          if (xterm) {
-            xterm.write(data);
+      onPresence: (you, participants) => {
+        setPresence({ you, participants });
+      },
+      onSize: (channel, cols, rows) => {
+        setTerminalSizes((prev) => ({ ...prev, [channel]: { cols, rows } }));
+      },
+      onPorts: (serverPorts) => {
+        setPorts(serverPorts);
+      },
+      onChannels: (serverChannels) => {
+        for (const channel of xtermsRef.current.keys()) {
+          if (!serverChannels.includes(channel)) {
+            forgetChannel(channel);
           }
         }
+        setChannels(serverChannels);
+      },
+      onChannelOpened: (channel) => {
+        setChannels((prev) => (prev.includes(channel) ? prev : [...prev, channel]));
+        setActiveChannel(channel);
+      },
+      onChannelClosed: (channel) => {
+        forgetChannel(channel);
+        setChannels((prev) => prev.filter((c) => c !== channel));
+      },
+      onReady: () => {
+        setSandboxReady(true);
+        setStatusMessage(null);
+      },
+      onStatus: (message) => {
+        setStatusMessage(message);
+      },
+      onExpiryWarning: (warning) => {
+        setExpiryWarning(warning);
       },
       onError: (err) => {
         setError(err.message);
@@ -48,15 +204,112 @@ function App() {
     wsManager.connect();
   };
 
-  const handleTerminalData = (data: string) => {
-    wsManagerRef.current?.send(data);
+  const handleLogin = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    try {
+      setUser(await login(apiKey.trim()));
+      setApiKey('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    }
+  };
+
+  const handleLogout = () => {
+    clearToken();
+    setUser(null);
+  };
+
+  const updateSettings = (next: TerminalSettings) => {
+    const wasSynced = terminalSettings.sync;
+    setTerminalSettings(next);
+    saveLocalSettings(next);
+    if (settingsSaveRef.current) {
+      clearTimeout(settingsSaveRef.current);
+      settingsSaveRef.current = null;
+    }
+    const onSaveError = (err: unknown) =>
+      setSettingsError(err instanceof Error ? err.message : 'Failed to save settings to your account');
+    if (next.sync) {
+      // Clicking through colors changes the settings many times a second, so save once it settles
+      settingsSaveRef.current = window.setTimeout(() => {
+        saveServerSettings(next).then(() => setSettingsError(null), onSaveError);
+      }, 1000);
+    } else if (wasSynced) {
+      clearServerSettings().then(() => setSettingsError(null), onSaveError);
+    }
   };
 
-  const handleTerminalResize = (cols: number, rows: number) => {
-    // Send resize event to backend (for future implementation)
-    wsManagerRef.current?.send(JSON.stringify({ type: 'resize', cols, rows }));
+  const handleTerminalReady = (channel: string, xterm: XTerm) => {
+    xtermsRef.current.set(channel, xterm);
+    for (const data of pendingOutputRef.current.get(channel) ?? []) {
+      xterm.write(data);
+    }
+    pendingOutputRef.current.delete(channel);
   };
 
+  useEffect(() => {
+    // Restore a previous login, or detect that the server has auth disabled
+    fetchCurrentUser()
+      .then(setUser)
+      .catch(() => setError('Unable to reach the backend'))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    // Settings saved to the account take precedence over this browser's copy
+    if (!user) return;
+    let cancelled = false;
+    fetchServerSettings().then(
+      (saved) => {
+        if (cancelled || !saved) return;
+        setTerminalSettings(saved);
+        saveLocalSettings(saved);
+      },
+      () => {
+        // This browser's settings still apply
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    // Only admins may list and open other workspaces
+    if (!user?.admin) return;
+    let cancelled = false;
+    listWorkspaces().then(
+      (loaded) => {
+        if (!cancelled) setWorkspaces(loaded);
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load workspaces');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    listTemplates().then(
+      (catalog) => {
+        if (cancelled) return;
+        setTemplateCatalog(catalog);
+        setSelectedTemplate(catalog.default ?? '');
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sandbox templates');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
   useEffect(() => {
     // Cleanup on unmount
     return () => {
@@ -64,30 +317,143 @@ function App() {
     };
   }, []);
 
-  // Store terminal xterm instance on ref for later access
-  const handleTerminalRef = (el: HTMLDivElement | null) => {
-    if (el) {
-      terminalRef.current = el;
-      // Store xterm instance on the element for easy access
-      const observer = new MutationObserver(() => {
-        const xtermElement = el.querySelector('.xterm');
-        if (xtermElement) {
-          (el as any)._xterm = (xtermElement as any).terminal;
-          observer.disconnect();
-        }
-      });
-      observer.observe(el, { childList: true, subtree: true });
-    }
-  };
-
   return (
     <div className="app">
-      {!sessionStarted ? (
+      {!sessionStarted && showRecordings ? (
+        <Recordings onClose={() => setShowRecordings(false)} />
+      ) : !sessionStarted && showAdmin && user?.admin ? (
+        <AdminDashboard onClose={() => setShowAdmin(false)} />
+      ) : !sessionStarted && showSnapshots ? (
+        <Snapshots
+          sessionId={null}
+          onRestoreInNewSession={(snapshot) => startSession(snapshot)}
+          onClose={() => setShowSnapshots(false)}
+        />
+      ) : !sessionStarted ? (
         <div className="start-screen">
           <h1>Cloud Development Environment</h1>
-          <button onClick={startSession} className="start-button">
-            Start Session
-          </button>
+          {!authChecked ? null : user ? (
+            <>
+              {shareToken && (
+                <div className="share-invite">
+                  You were invited to join someone's session.
+                  <button
+                    onClick={() => {
+                      clearShareTokenFromLocation();
+                      setShareToken(null);
+                    }}
+                    className="link-button"
+                  >
+                    Start my own instead
+                  </button>
+                </div>
+              )}
+              {!shareToken && user.admin && workspaces.length > 0 && (
+                <select
+                  value={selectedWorkspace}
+                  onChange={(e) => setSelectedWorkspace(e.target.value)}
+                  className="login-input"
+                  title="Workspace"
+                >
+                  <option value="">My workspace</option>
+                  {workspaces.map((workspace) => (
+                    <option key={workspace.id} value={workspace.id}>
+                      {workspace.id}
+                      {workspace.activeSessions > 0 ? ` (${workspace.activeSessions} active)` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!shareToken && templateCatalog && templateCatalog.templates.length > 1 && (
+                <div className="template-picker">
+                  <select
+                    value={selectedTemplate}
+                    onChange={(e) => setSelectedTemplate(e.target.value)}
+                    className="login-input"
+                    title="Sandbox template"
+                  >
+                    {templateCatalog.templates.map((template) => (
+                      <option key={template.id} value={template.id} disabled={!template.allowed}>
+                        {template.name} ({template.tier}){template.allowed ? '' : ' - above your tier'}
+                      </option>
+                    ))}
+                  </select>
+                  {templateCatalog.templates
+                    .filter((template) => template.id === selectedTemplate)
+                    .map((template) => (
+                      <span key={template.id} className="template-details">
+                        {template.description && `${template.description} · `}
+                        {describeResources(template)}
+                      </span>
+                    ))}
+                </div>
+              )}
+              {!shareToken && (
+                <details className="repository-form">
+                  <summary>Start from a Git repository</summary>
+                  <input
+                    type="url"
+                    value={repositoryUrl}
+                    onChange={(e) => setRepositoryUrl(e.target.value)}
+                    placeholder="https://github.com/org/repo.git"
+                    className="login-input"
+                  />
+                  <input
+                    type="text"
+                    value={repositoryRef}
+                    onChange={(e) => setRepositoryRef(e.target.value)}
+                    placeholder="Branch, tag or commit (default branch if empty)"
+                    className="login-input"
+                  />
+                  <textarea
+                    value={setupScript}
+                    onChange={(e) => setSetupScript(e.target.value)}
+                    placeholder="Setup script, run once in the checkout (optional)"
+                    className="login-input repository-script"
+                    rows={4}
+                    spellCheck={false}
+                  />
+                </details>
+              )}
+              <button onClick={() => startSession(undefined, shareToken ?? undefined)} className="start-button">
+                {shareToken ? 'Join Session' : 'Start Session'}
+              </button>
+              <button onClick={() => setShowRecordings(true)} className="link-button">
+                Recordings
+              </button>
+              <button onClick={() => setShowSnapshots(true)} className="link-button">
+                Snapshots
+              </button>
+              {user.admin && (
+                <button onClick={() => setShowAdmin(true)} className="link-button">
+                  Admin
+                </button>
+              )}
+              {user.id !== 'anonymous' && (
+                <div className="user-info">
+                  Signed in as {user.id}
+                  <button onClick={handleLogout} className="link-button">
+                    Sign out
+                  </button>
+                </div>
+              )}
+            </>
+          ) : (
+            <form onSubmit={handleLogin} className="login-form">
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="API key"
+                className="login-input"
+                autoFocus
+              />
+              <button type="submit" className="start-button" disabled={!apiKey.trim()}>
+                Sign In
+              </button>
+            </form>
+          )}
+          {error && <span className="error-message">{error}</span>}
         </div>
       ) : (
         <>
@@ -97,11 +463,147 @@ function App() {
               {connectionState === 'connecting' && '○ Connecting...'}
               {connectionState === 'disconnected' && '○ Disconnected'}
               {connectionState === 'error' && '✕ Error'}
+              {connectionState === 'unauthorized' && '✕ Unauthorized'}
             </span>
+            {selectedWorkspace && <span className="status-message">Workspace: {selectedWorkspace}</span>}
+            {role && role !== 'owner' && <span className="status-message">Guest: {ROLE_LABELS[role]}</span>}
+            {statusMessage && <span className="status-message">{statusMessage}</span>}
             {error && <span className="error-message">{error}</span>}
+            {presence && presence.participants.length > 1 && (
+              <span className="presence" title="People in this session">
+                {presence.participants.map((participant) => (
+                  <span
+                    key={participant.id}
+                    className={`presence-user presence-${participant.role}`}
+                    title={ROLE_LABELS[participant.role]}
+                  >
+                    {participant.userId}
+                    {participant.id === presence.you && ' (you)'}
+                  </span>
+                ))}
+              </span>
+            )}
+            {sessionId && ports.length > 0 && (
+              <span className="previews" title="Servers running in the sandbox">
+                {ports.map((port) => (
+                  <a
+                    key={port}
+                    href={previewUrl(sessionId, port)}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      openPreview(sessionId, port).catch((err) =>
+                        setError(err instanceof Error ? err.message : 'Failed to open preview')
+                      );
+                    }}
+                  >
+                    :{port}
+                  </a>
+                ))}
+              </span>
+            )}
+            {sessionId && sandboxReady && role === 'owner' && (
+              <>
+                <button onClick={() => setSharePanelOpen((prev) => !prev)} className="link-button status-action">
+                  Share
+                </button>
+                <button onClick={() => setSnapshotPanelOpen((prev) => !prev)} className="link-button status-action">
+                  Snapshots
+                </button>
+              </>
+            )}
+            <button onClick={() => setSettingsPanelOpen((prev) => !prev)} className="link-button status-action">
+              Settings
+            </button>
           </div>
-          <div className="terminal-container" ref={handleTerminalRef}>
-            <Terminal onData={handleTerminalData} onResize={handleTerminalResize} />
+          {expiryWarning && (
+            <ExpiryBanner
+              warning={expiryWarning}
+              onExtend={role === 'viewer' ? undefined : () => wsManagerRef.current?.extend()}
+            />
+          )}
+          <div className="workspace">
+            {sessionId && sandboxReady && role === 'owner' && (
+              <FileTree
+                sessionId={sessionId}
+                collapsed={filesCollapsed}
+                onToggle={() => setFilesCollapsed((prev) => !prev)}
+              />
+            )}
+            <div className="terminal-area">
+              <div className="tab-strip">
+                {channels.map((channel) => (
+                  <div
+                    key={channel}
+                    className={`tab ${channel === visibleChannel ? 'tab-active' : ''}`}
+                    onClick={() => setActiveChannel(channel)}
+                  >
+                    <span>Terminal {channel}</span>
+                    {role !== 'viewer' && (
+                      <button
+                        className="tab-close"
+                        title="Close terminal"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          wsManagerRef.current?.closeChannel(channel);
+                        }}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {role !== 'viewer' && (
+                  <button
+                    className="tab-new"
+                    title="New terminal"
+                    disabled={connectionState !== 'connected' || channels.length === 0}
+                    onClick={() => wsManagerRef.current?.openChannel()}
+                  >
+                    +
+                  </button>
+                )}
+              </div>
+              <div className="terminal-container">
+                {channels.map((channel) => (
+                  <div
+                    key={channel}
+                    className={`terminal-pane ${channel === visibleChannel ? 'terminal-pane-active' : ''}`}
+                  >
+                    <Terminal
+                      active={channel === visibleChannel}
+                      onData={(data) => wsManagerRef.current?.send(channel, data)}
+                      onResize={(cols, rows) => wsManagerRef.current?.sendResize(channel, cols, rows)}
+                      onReady={(xterm) => handleTerminalReady(channel, xterm)}
+                      size={terminalSizes[channel]}
+                      readOnly={role === 'viewer'}
+                      settings={terminalSettings}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            {sessionId && sandboxReady && role === 'owner' && sharePanelOpen && (
+              <div className="share-panel">
+                <SharePanel sessionId={sessionId} onClose={() => setSharePanelOpen(false)} />
+              </div>
+            )}
+            {sessionId && sandboxReady && role === 'owner' && snapshotPanelOpen && (
+              <div className="snapshot-panel">
+                <Snapshots sessionId={sessionId} onClose={() => setSnapshotPanelOpen(false)} />
+              </div>
+            )}
+            {settingsPanelOpen && (
+              <div className="settings-panel">
+                <SettingsPanel
+                  settings={terminalSettings}
+                  onChange={updateSettings}
+                  error={settingsError}
+                  onClose={() => setSettingsPanelOpen(false)}
+                />
+              </div>
+            )}
           </div>
         </>
       )}
@@ -0,0 +1,183 @@
+/**
+ * AdminDashboard Component
+ *
+ * Purpose: Show every live session on the server and let an admin end, extend or message them
+ * Contract: Admins only; the list refreshes every few seconds while the view is open
+ *
+ * Props:
+ * - onClose: Called when the admin goes back to the start screen
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { broadcastMessage, extendSession, listLiveSessions, terminateSession, type LiveSession } from '../lib/admin';
+
+export interface AdminDashboardProps {
+  onClose: () => void;
+}
+
+const REFRESH_INTERVAL_MS = 5000;
+// How much "Extend" adds to a session's lifetime
+const EXTEND_SECONDS = 30 * 60;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleTimeString() : '—';
+}
+
+export function AdminDashboard({ onClose }: AdminDashboardProps) {
+  const [sessions, setSessions] = useState<LiveSession[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      listLiveSessions().then(
+        (loaded) => {
+          if (!cancelled) setSessions(loaded);
+        },
+        (err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load sessions');
+        }
+      );
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [reloadKey]);
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    try {
+      setNotice((await action()) ?? null);
+      setError(null);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Admin action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTerminate = (session: LiveSession) => {
+    if (!window.confirm(`Terminate ${session.userId}'s session? Unsaved work outside the workspace is lost.`)) {
+      return;
+    }
+    runAction(async () => {
+      await terminateSession(session.id);
+      return `Terminated session of ${session.userId}`;
+    });
+  };
+
+  const handleExtend = (session: LiveSession) =>
+    runAction(async () => {
+      const extended = await extendSession(session.id, EXTEND_SECONDS);
+      return `Session of ${session.userId} now expires at ${formatTime(extended.expiresAt)}`;
+    });
+
+  const handleMessage = (session: LiveSession) => {
+    const text = window.prompt(`Message to ${session.userId}:`, '');
+    if (!text?.trim()) return;
+    runAction(async () => {
+      await broadcastMessage(text, [session.id]);
+      return `Message sent to ${session.userId}`;
+    });
+  };
+
+  const handleBroadcast = (e: FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const delivered = await broadcastMessage(message);
+      setMessage('');
+      return `Message sent to ${delivered.length} session(s)`;
+    });
+  };
+
+  return (
+    <div className="admin-dashboard">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          ← Back
+        </button>
+        <span>Live Sessions{sessions ? ` (${sessions.length})` : ''}</span>
+        {notice && <span className="status-message">{notice}</span>}
+        {error && <span className="error-message">{error}</span>}
+      </div>
+      <form onSubmit={handleBroadcast} className="admin-broadcast">
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Message to print in every terminal"
+          className="login-input"
+          maxLength={500}
+        />
+        <button type="submit" className="player-button" disabled={busy || !message.trim()}>
+          Broadcast
+        </button>
+      </form>
+      <div className="recording-list">
+        {sessions?.length === 0 && <div className="recording-empty">No live sessions</div>}
+        {sessions && sessions.length > 0 && (
+          <table className="admin-sessions">
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Workspace</th>
+                <th>Sandbox</th>
+                <th>Storage</th>
+                <th>Started</th>
+                <th>Last input</th>
+                <th>In / Out</th>
+                <th>Expires</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr key={session.id} className={session.attached ? '' : 'admin-session-detached'}>
+                  <td title={session.id}>
+                    {session.userId}
+                    {!session.attached && ' (detached)'}
+                  </td>
+                  <td>{session.workspaceId}</td>
+                  <td title={session.templateId ? `Template ${session.templateId}` : undefined}>
+                    {session.sandboxId ?? (session.ready ? '—' : 'starting…')}
+                  </td>
+                  <td>{session.storage ?? '—'}</td>
+                  <td>{formatTime(session.startedAt)}</td>
+                  <td>{formatTime(session.lastInputAt)}</td>
+                  <td>
+                    {formatSize(session.bytesIn)} / {formatSize(session.bytesOut)}
+                  </td>
+                  <td>{formatTime(session.expiresAt)}</td>
+                  <td className="admin-actions">
+                    <button className="link-button" disabled={busy || !session.ready} onClick={() => handleMessage(session)}>
+                      Message
+                    </button>
+                    <button className="link-button" disabled={busy || !session.ready} onClick={() => handleExtend(session)}>
+                      +30 min
+                    </button>
+                    <button className="link-button" disabled={busy} onClick={() => handleTerminate(session)}>
+                      Terminate
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
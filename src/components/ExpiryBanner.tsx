@@ -0,0 +1,52 @@
+/**
+ * Expiry Banner Component
+ *
+ * Purpose: Warn that the server is about to end the session and count down to it
+ * Contract: Shows why and how long is left; idle sessions get an Extend button
+ *
+ * Props:
+ * - warning: The server's latest expiry warning
+ * - onExtend: Called when the user asks for more time; without it there is no Extend button
+ */
+
+import { useEffect, useState } from 'react';
+import type { ExpiryWarning } from '../lib/websocket';
+
+export interface ExpiryBannerProps {
+  warning: ExpiryWarning;
+  onExtend?: () => void;
+}
+
+const REASON_TEXT: Record<ExpiryWarning['reason'], string> = {
+  idle: 'This session has been idle and will end',
+  lifetime: 'This session reaches its maximum lifetime and will end',
+  quota: 'Your daily sandbox time is nearly used up; this session will end',
+};
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function ExpiryBanner({ warning, onExtend }: ExpiryBannerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  return (
+    <div className={`expiry-banner expiry-${warning.reason}`} role="alert">
+      <span>
+        {REASON_TEXT[warning.reason]} in <strong>{formatCountdown(warning.expiresAt - now)}</strong>.
+        {!warning.extendable && ' Save your work.'}
+      </span>
+      {warning.extendable && onExtend && (
+        <button onClick={onExtend} className="start-button expiry-extend">
+          Extend
+        </button>
+      )}
+    </div>
+  );
+}
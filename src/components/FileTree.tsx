@@ -0,0 +1,214 @@
+/**
+ * FileTree Component
+ *
+ * Purpose: Collapsible browser for the session's workspace directory
+ * Contract: Lazily list directories, poll for changes, upload/download/rename/delete
+ *
+ * Props:
+ * - sessionId: Session whose sandbox workspace is shown
+ * - collapsed: Render only the expand handle
+ * - onToggle: Called when the user collapses or expands the panel
+ */
+
+import { useCallback, useEffect, useRef, useState, type ChangeEvent } from 'react';
+import {
+  deletePath,
+  downloadFile,
+  listDirectory,
+  renamePath,
+  uploadFile,
+  type FileEntry,
+} from '../lib/files';
+
+const REFRESH_INTERVAL_MS = 5000;
+const ROOT = '';
+
+export interface FileTreeProps {
+  sessionId: string;
+  collapsed: boolean;
+  onToggle: () => void;
+}
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? ROOT : path.slice(0, index);
+}
+
+export function FileTree({ sessionId, collapsed, onToggle }: FileTreeProps) {
+  const [listings, setListings] = useState<Map<string, FileEntry[]>>(new Map());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set([ROOT]));
+  const [selectedDir, setSelectedDir] = useState(ROOT);
+  const [error, setError] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    const dirs = [...expanded];
+    const results = await Promise.allSettled(dirs.map((dir) => listDirectory(sessionId, dir)));
+
+    setListings((prev) => {
+      const next = new Map(prev);
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          next.set(dirs[i], result.value);
+        } else {
+          // Directory was removed or renamed since it was expanded
+          next.delete(dirs[i]);
+        }
+      });
+      return next;
+    });
+
+    const rootResult = results[dirs.indexOf(ROOT)];
+    setError(rootResult?.status === 'rejected' ? String(rootResult.reason?.message ?? rootResult.reason) : null);
+  }, [sessionId, expanded]);
+
+  // Poll so changes made from the terminal show up without a manual refresh
+  useEffect(() => {
+    if (collapsed) return;
+
+    let cancelled = false;
+    let timer: number;
+    const poll = async () => {
+      if (document.visibilityState === 'visible') {
+        await refresh();
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(poll, REFRESH_INTERVAL_MS);
+      }
+    };
+    timer = window.setTimeout(poll, 0);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [collapsed, refresh]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'File operation failed');
+    }
+    await refresh();
+  };
+
+  const toggleDir = (path: string) => {
+    setSelectedDir(path);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleDownload = (entry: FileEntry) =>
+    runAction(async () => {
+      const blob = await downloadFile(sessionId, entry.path);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = entry.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+
+  const handleRename = (entry: FileEntry) => {
+    const name = window.prompt(`Rename ${entry.name} to:`, entry.name)?.trim();
+    if (!name || name === entry.name) return;
+    const parent = parentOf(entry.path);
+    runAction(() => renamePath(sessionId, entry.path, parent ? `${parent}/${name}` : name));
+  };
+
+  const handleDelete = (entry: FileEntry) => {
+    if (!window.confirm(`Delete ${entry.path}${entry.type === 'dir' ? ' and everything in it' : ''}?`)) return;
+    runAction(() => deletePath(sessionId, entry.path));
+  };
+
+  const handleUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    runAction(async () => {
+      for (const file of files) {
+        await uploadFile(sessionId, selectedDir ? `${selectedDir}/${file.name}` : file.name, file);
+      }
+    });
+  };
+
+  const renderDir = (path: string, depth: number) =>
+    (listings.get(path) ?? []).map((entry) => (
+      <div key={entry.path}>
+        <div
+          className={`file-entry ${entry.type === 'dir' && entry.path === selectedDir ? 'file-entry-selected' : ''}`}
+          style={{ paddingLeft: `${0.5 + depth * 0.9}rem` }}
+          onClick={() => (entry.type === 'dir' ? toggleDir(entry.path) : handleDownload(entry))}
+          title={entry.type === 'dir' ? entry.path : `Download ${entry.path}`}
+        >
+          <span className="file-icon">{entry.type === 'dir' ? (expanded.has(entry.path) ? '▾' : '▸') : ' '}</span>
+          <span className="file-name">{entry.name}</span>
+          <span className="file-actions">
+            <button
+              title="Rename"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRename(entry);
+              }}
+            >
+              ✎
+            </button>
+            <button
+              title="Delete"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(entry);
+              }}
+            >
+              ✕
+            </button>
+          </span>
+        </div>
+        {entry.type === 'dir' && expanded.has(entry.path) && renderDir(entry.path, depth + 1)}
+      </div>
+    ));
+
+  if (collapsed) {
+    return (
+      <div className="file-tree file-tree-collapsed">
+        <button className="file-tree-toggle" title="Show files" onClick={onToggle}>
+          ▸
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="file-tree">
+      <div className="file-tree-header">
+        <span
+          className={`file-tree-title ${selectedDir === ROOT ? 'file-entry-selected' : ''}`}
+          onClick={() => setSelectedDir(ROOT)}
+          title="Upload target: workspace root"
+        >
+          Files
+        </span>
+        <button title="Upload" onClick={() => uploadInputRef.current?.click()}>
+          ⇪
+        </button>
+        <button title="Refresh" onClick={() => refresh()}>
+          ↻
+        </button>
+        <button className="file-tree-toggle" title="Hide files" onClick={onToggle}>
+          ◂
+        </button>
+        <input ref={uploadInputRef} type="file" multiple hidden onChange={handleUpload} />
+      </div>
+      {error && <div className="file-tree-error">{error}</div>}
+      <div className="file-tree-body">{renderDir(ROOT, 0)}</div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Find Bar Component
+ *
+ * Purpose: Search a terminal's output and scrollback
+ * Contract: Highlights every match, steps through them, and clears the highlights when closed
+ *
+ * Keys: Enter / Shift+Enter for the next / previous match, Escape to close,
+ * Alt+C, Alt+W and Alt+R to toggle case sensitivity, whole words and regex.
+ *
+ * Props:
+ * - search: The terminal's search addon
+ * - focusKey: Changes whenever the user asks for the find bar, to refocus it if it is already open
+ * - onClose: Called when the user closes the bar
+ */
+
+import { useEffect, useRef, useState, type KeyboardEvent, type RefObject } from 'react';
+import type { ISearchOptions, SearchAddon } from '@xterm/addon-search';
+
+export interface FindBarProps {
+  search: RefObject<SearchAddon | null>;
+  focusKey: number;
+  onClose: () => void;
+}
+
+// Highlights must be given as #RRGGBB
+const DECORATIONS: ISearchOptions['decorations'] = {
+  matchBackground: '#555555',
+  matchOverviewRuler: '#888888',
+  activeMatchBackground: '#b58900',
+  activeMatchColorOverviewRuler: '#b58900',
+};
+
+type Toggle = 'caseSensitive' | 'wholeWord' | 'regex';
+
+const TOGGLES: { option: Toggle; label: string; title: string; key: string }[] = [
+  { option: 'caseSensitive', label: 'Aa', title: 'Match case (Alt+C)', key: 'c' },
+  { option: 'wholeWord', label: 'W', title: 'Whole words (Alt+W)', key: 'w' },
+  { option: 'regex', label: '.*', title: 'Regular expression (Alt+R)', key: 'r' },
+];
+
+export function FindBar({ search, focusKey, onClose }: FindBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [toggles, setToggles] = useState<Record<Toggle, boolean>>({
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  });
+  const [results, setResults] = useState<{ index: number; count: number } | null>(null);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusKey]);
+
+  useEffect(() => {
+    const addon = search.current;
+    const subscription = addon?.onDidChangeResults(({ resultIndex, resultCount }) => {
+      setResults({ index: resultIndex, count: resultCount });
+    });
+    return () => {
+      subscription?.dispose();
+      addon?.clearDecorations();
+    };
+  }, [search]);
+
+  const find = (term: string, options: Record<Toggle, boolean>, backwards = false, incremental = false) => {
+    const addon = search.current;
+    if (!addon) return;
+    if (!term) {
+      addon.clearDecorations();
+      setResults(null);
+      setInvalid(false);
+      return;
+    }
+    try {
+      const searchOptions: ISearchOptions = { ...options, incremental, decorations: DECORATIONS };
+      if (backwards) {
+        addon.findPrevious(term, searchOptions);
+      } else {
+        addon.findNext(term, searchOptions);
+      }
+      setInvalid(false);
+    } catch {
+      // An unfinished regular expression
+      setInvalid(true);
+      setResults(null);
+    }
+  };
+
+  const handleChange = (term: string) => {
+    setQuery(term);
+    find(term, toggles, false, true);
+  };
+
+  const toggle = (option: Toggle) => {
+    const next = { ...toggles, [option]: !toggles[option] };
+    setToggles(next);
+    find(query, next);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      find(query, toggles, e.shiftKey);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.altKey) {
+      const match = TOGGLES.find((t) => t.key === e.key.toLowerCase());
+      if (match) {
+        e.preventDefault();
+        toggle(match.option);
+      }
+    }
+  };
+
+  let summary = '';
+  if (invalid) {
+    summary = 'Invalid pattern';
+  } else if (results && results.count === 0) {
+    summary = 'No results';
+  } else if (results) {
+    summary = results.index >= 0 ? `${results.index + 1} of ${results.count}` : `${results.count} results`;
+  }
+
+  return (
+    <div className="find-bar" role="search">
+      <input
+        ref={inputRef}
+        className={invalid ? 'find-input find-invalid' : 'find-input'}
+        value={query}
+        placeholder="Find"
+        aria-label="Find in terminal"
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+      {TOGGLES.map(({ option, label, title }) => (
+        <button
+          key={option}
+          className={toggles[option] ? 'find-toggle find-toggle-on' : 'find-toggle'}
+          title={title}
+          aria-pressed={toggles[option]}
+          onClick={() => toggle(option)}
+        >
+          {label}
+        </button>
+      ))}
+      <span className="find-summary">{summary}</span>
+      <button className="find-toggle" title="Previous match (Shift+Enter)" onClick={() => find(query, toggles, true)}>
+        ↑
+      </button>
+      <button className="find-toggle" title="Next match (Enter)" onClick={() => find(query, toggles)}>
+        ↓
+      </button>
+      <button className="find-toggle" title="Close (Escape)" onClick={onClose}>
+        ✕
+      </button>
+    </div>
+  );
+}
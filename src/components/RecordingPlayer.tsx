@@ -0,0 +1,192 @@
+/**
+ * Recording Player Component
+ *
+ * Purpose: Replay a recorded terminal session in a read-only xterm
+ * Contract: Play/pause, seek anywhere on the timeline, change playback speed
+ *
+ * Props:
+ * - recording: The recording to load and play
+ * - onClose: Called when the user leaves the player
+ *
+ * Seeking resets the terminal and replays every event up to the target time,
+ * since terminal state can't be rewound.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import { fetchCast, type Cast, type CastEvent, type RecordingInfo } from '../lib/recordings';
+
+export interface RecordingPlayerProps {
+  recording: RecordingInfo;
+  onClose: () => void;
+}
+
+const TICK_MS = 50;
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/** Applies events from index `from` whose time is <= `until`; returns the next unapplied index */
+function applyEvents(xterm: XTerm, events: CastEvent[], from: number, until: number): number {
+  let index = from;
+  let output = '';
+  for (; index < events.length && events[index][0] <= until; index++) {
+    const [, code, data] = events[index];
+    if (code === 'o') {
+      output += data;
+    } else if (code === 'r') {
+      // Flush pending output so it renders at the size it was produced at
+      if (output) {
+        xterm.write(output);
+        output = '';
+      }
+      const [cols, rows] = data.split('x').map(Number);
+      if (cols > 0 && rows > 0) {
+        xterm.resize(cols, rows);
+      }
+    }
+  }
+  if (output) {
+    xterm.write(output);
+  }
+  return index;
+}
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+export function RecordingPlayer({ recording, onClose }: RecordingPlayerProps) {
+  const screenRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTerm | null>(null);
+  const nextEventRef = useRef(0);
+  const positionRef = useRef(0);
+  const [cast, setCast] = useState<Cast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!screenRef.current) return;
+
+    const xterm = new XTerm({
+      theme: {
+        background: '#1a1a1a',
+        foreground: '#00ff00',
+        cursor: '#00ff00',
+        cursorAccent: '#1a1a1a',
+        selectionBackground: '#404040',
+      },
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      fontSize: 14,
+      disableStdin: true,
+    });
+    xterm.open(screenRef.current);
+    xtermRef.current = xterm;
+    nextEventRef.current = 0;
+    positionRef.current = 0;
+
+    let cancelled = false;
+    fetchCast(recording.id).then(
+      (loaded) => {
+        if (cancelled) return;
+        xterm.resize(loaded.width, loaded.height);
+        setCast(loaded);
+        setPosition(0);
+        setPlaying(true);
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recording');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      xterm.dispose();
+      xtermRef.current = null;
+    };
+  }, [recording.id]);
+
+  useEffect(() => {
+    if (!playing || !cast) return;
+
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const xterm = xtermRef.current;
+      if (!xterm) return;
+
+      const now = performance.now();
+      const next = Math.min(positionRef.current + ((now - last) / 1000) * speed, cast.duration);
+      last = now;
+
+      nextEventRef.current = applyEvents(xterm, cast.events, nextEventRef.current, next);
+      positionRef.current = next;
+      setPosition(next);
+      if (next >= cast.duration) {
+        setPlaying(false);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, speed, cast]);
+
+  const seek = (target: number) => {
+    const xterm = xtermRef.current;
+    if (!xterm || !cast) return;
+
+    xterm.reset();
+    xterm.resize(cast.width, cast.height);
+    nextEventRef.current = applyEvents(xterm, cast.events, 0, target);
+    positionRef.current = target;
+    setPosition(target);
+  };
+
+  const togglePlaying = () => {
+    if (!cast) return;
+    if (!playing && positionRef.current >= cast.duration) {
+      seek(0);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="player">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          ← Recordings
+        </button>
+        <span>
+          Terminal {recording.channel} · {new Date(recording.startedAt).toLocaleString()}
+        </span>
+        {error && <span className="error-message">{error}</span>}
+      </div>
+      <div className="player-screen" ref={screenRef} />
+      <div className="player-controls">
+        <button onClick={togglePlaying} disabled={!cast} className="player-button">
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          className="player-timeline"
+          min={0}
+          max={cast?.duration ?? 0}
+          step={0.1}
+          value={position}
+          disabled={!cast}
+          onChange={(e) => seek(Number(e.target.value))}
+        />
+        <span className="player-time">
+          {formatTime(position)} / {formatTime(cast?.duration ?? 0)}
+        </span>
+        <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="player-speed">
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}x
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
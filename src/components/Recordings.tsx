@@ -0,0 +1,75 @@
+/**
+ * Recordings Component
+ *
+ * Purpose: Browse the signed-in user's recorded sessions and open one for playback
+ * Contract: Lists newest first; selecting a finished recording shows the player
+ *
+ * Props:
+ * - onClose: Called when the user goes back to the start screen
+ */
+
+import { useEffect, useState } from 'react';
+import { RecordingPlayer } from './RecordingPlayer';
+import { listRecordings, type RecordingInfo } from '../lib/recordings';
+
+export interface RecordingsProps {
+  onClose: () => void;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return 'recording…';
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}m ${whole % 60}s`;
+}
+
+export function Recordings({ onClose }: RecordingsProps) {
+  const [recordings, setRecordings] = useState<RecordingInfo[] | null>(null);
+  const [selected, setSelected] = useState<RecordingInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listRecordings().then(
+      (loaded) => {
+        if (!cancelled) setRecordings(loaded);
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load recordings');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (selected) {
+    return <RecordingPlayer recording={selected} onClose={() => setSelected(null)} />;
+  }
+
+  return (
+    <div className="recordings">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          ← Back
+        </button>
+        <span>Session Recordings</span>
+        {error && <span className="error-message">{error}</span>}
+      </div>
+      <div className="recording-list">
+        {recordings?.length === 0 && <div className="recording-empty">No recordings yet</div>}
+        {recordings?.map((recording) => (
+          <button
+            key={recording.id}
+            className="recording-item"
+            disabled={recording.endedAt === null}
+            onClick={() => setSelected(recording)}
+          >
+            <span>{new Date(recording.startedAt).toLocaleString()}</span>
+            <span>Terminal {recording.channel}</span>
+            <span>{formatDuration(recording.duration)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Settings Panel Component
+ *
+ * Purpose: Let the user adjust how terminals look and behave
+ * Contract: Every change is reported at once through onChange, so terminals update live
+ *
+ * Editing a color switches the theme to "Custom", starting from the colors of
+ * the preset that was selected.
+ *
+ * Props:
+ * - settings: The settings in effect
+ * - onChange: Called with the complete new settings on every change
+ * - error: Why saving the settings to the account failed, if it did
+ * - onClose: Called when the user closes the panel
+ */
+
+import {
+  DEFAULT_SETTINGS,
+  FONT_FAMILIES,
+  FONT_SIZES,
+  SCROLLBACK_LINES,
+  THEME_PRESETS,
+  themeColors,
+  type BellStyle,
+  type CursorStyle,
+  type TerminalColors,
+  type TerminalSettings,
+} from '../lib/settings';
+
+export interface SettingsPanelProps {
+  settings: TerminalSettings;
+  onChange: (settings: TerminalSettings) => void;
+  error?: string | null;
+  onClose: () => void;
+}
+
+const COLOR_LABELS: Record<keyof TerminalColors, string> = {
+  background: 'Background',
+  foreground: 'Text',
+  cursor: 'Cursor',
+  selection: 'Selection',
+};
+
+const CURSOR_LABELS: Record<CursorStyle, string> = {
+  block: 'Block',
+  underline: 'Underline',
+  bar: 'Bar',
+};
+
+const BELL_LABELS: Record<BellStyle, string> = {
+  none: 'Off',
+  visual: 'Flash',
+  sound: 'Sound',
+};
+
+// Settings from another version of the app may hold a value the choices don't list
+function withCurrent(choices: number[], current: number): number[] {
+  return choices.includes(current) ? choices : [...choices, current].sort((a, b) => a - b);
+}
+
+export function SettingsPanel({ settings, onChange, error, onClose }: SettingsPanelProps) {
+  const update = (changes: Partial<TerminalSettings>) => onChange({ ...settings, ...changes });
+  const colors = themeColors(settings);
+
+  return (
+    <div className="settings">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          Close
+        </button>
+        <span>Terminal Settings</span>
+        <button onClick={() => onChange({ ...DEFAULT_SETTINGS, sync: settings.sync })} className="player-button">
+          Reset
+        </button>
+      </div>
+      <div className="settings-form">
+        <label className="settings-row">
+          <span>Theme</span>
+          <select value={settings.theme} onChange={(e) => update({ theme: e.target.value })}>
+            {Object.entries(THEME_PRESETS).map(([id, preset]) => (
+              <option key={id} value={id}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </label>
+        {(Object.keys(COLOR_LABELS) as (keyof TerminalColors)[]).map((key) => (
+          <label key={key} className="settings-row">
+            <span>{COLOR_LABELS[key]}</span>
+            <input
+              type="color"
+              value={colors[key]}
+              onChange={(e) => update({ theme: 'custom', colors: { ...colors, [key]: e.target.value } })}
+            />
+          </label>
+        ))}
+        <label className="settings-row">
+          <span>Font</span>
+          <select value={settings.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })}>
+            {!FONT_FAMILIES.includes(settings.fontFamily) && (
+              <option value={settings.fontFamily}>{settings.fontFamily}</option>
+            )}
+            {FONT_FAMILIES.map((family) => (
+              <option key={family} value={family}>
+                {family.split(',')[0].replace(/"/g, '')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>Font size</span>
+          <select value={settings.fontSize} onChange={(e) => update({ fontSize: Number(e.target.value) })}>
+            {withCurrent(FONT_SIZES, settings.fontSize).map((fontSize) => (
+              <option key={fontSize} value={fontSize}>
+                {fontSize}px
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>Cursor</span>
+          <select
+            value={settings.cursorStyle}
+            onChange={(e) => update({ cursorStyle: e.target.value as CursorStyle })}
+          >
+            {(Object.keys(CURSOR_LABELS) as CursorStyle[]).map((style) => (
+              <option key={style} value={style}>
+                {CURSOR_LABELS[style]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>Blinking cursor</span>
+          <input
+            type="checkbox"
+            checked={settings.cursorBlink}
+            onChange={(e) => update({ cursorBlink: e.target.checked })}
+          />
+        </label>
+        <label className="settings-row">
+          <span>Scrollback lines</span>
+          <select value={settings.scrollback} onChange={(e) => update({ scrollback: Number(e.target.value) })}>
+            {withCurrent(SCROLLBACK_LINES, settings.scrollback).map((lines) => (
+              <option key={lines} value={lines}>
+                {lines.toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>Bell</span>
+          <select value={settings.bell} onChange={(e) => update({ bell: e.target.value as BellStyle })}>
+            {(Object.keys(BELL_LABELS) as BellStyle[]).map((bell) => (
+              <option key={bell} value={bell}>
+                {BELL_LABELS[bell]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="settings-row">
+          <span>Save to my account</span>
+          <input type="checkbox" checked={settings.sync} onChange={(e) => update({ sync: e.target.checked })} />
+        </label>
+        <div className="settings-hint">
+          Settings are kept in this browser; saved to your account, they follow you to other browsers.
+        </div>
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </div>
+  );
+}
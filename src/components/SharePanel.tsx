@@ -0,0 +1,117 @@
+/**
+ * Share Panel Component
+ *
+ * Purpose: Let a session's owner invite others through share links
+ * Contract: Creates interactive or view-only links, copies them, and revokes them
+ *
+ * Props:
+ * - sessionId: The live session whose links are managed
+ * - onClose: Called when the user closes the panel
+ */
+
+import { useEffect, useState } from 'react';
+import { createShare, listShares, revokeShare, type ShareLink, type ShareRole } from '../lib/shares';
+
+export interface SharePanelProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  editor: 'Can type',
+  viewer: 'View only',
+};
+
+export function SharePanel({ sessionId, onClose }: SharePanelProps) {
+  const [shares, setShares] = useState<ShareLink[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listShares(sessionId).then(
+      (loaded) => {
+        if (!cancelled) setShares(loaded.shares);
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load share links');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, reloadKey]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Share operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async (share: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopied(share.id);
+    } catch {
+      // Clipboard access can be denied; the link is shown for copying by hand
+      setError('Copy the link by hand');
+    }
+  };
+
+  const handleCreate = (role: ShareRole) =>
+    runAction(async () => {
+      await createShare(sessionId, role);
+    });
+
+  const handleRevoke = (share: ShareLink) => {
+    if (share.participants > 0 && !window.confirm(`Revoke this link and disconnect ${share.participants} guest(s)?`)) {
+      return;
+    }
+    runAction(() => revokeShare(sessionId, share.id));
+  };
+
+  return (
+    <div className="shares">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          Close
+        </button>
+        <span>Share Session</span>
+        <button onClick={() => handleCreate('editor')} className="player-button" disabled={busy}>
+          New interactive link
+        </button>
+        <button onClick={() => handleCreate('viewer')} className="player-button" disabled={busy}>
+          New view-only link
+        </button>
+        {error && <span className="error-message">{error}</span>}
+      </div>
+      <div className="recording-list">
+        {shares?.length === 0 && <div className="recording-empty">No share links yet</div>}
+        {shares?.map((share) => (
+          <div key={share.id} className="share-item">
+            <span>{ROLE_LABELS[share.role]}</span>
+            <input className="share-url" value={share.url} readOnly onFocus={(e) => e.target.select()} />
+            <span>{share.participants} connected</span>
+            <span className="snapshot-actions">
+              <button className="link-button" onClick={() => handleCopy(share)}>
+                {copied === share.id ? 'Copied' : 'Copy'}
+              </button>
+              <button className="link-button" disabled={busy} onClick={() => handleRevoke(share)}>
+                Revoke
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * Snapshots Component
+ *
+ * Purpose: Browse the workspace's snapshots, compare them with the current files and restore them
+ * Contract: Lists newest first; diffs and in-place restores need a live session
+ *
+ * Props:
+ * - sessionId: Session to take, diff and restore snapshots in; null on the start screen
+ * - onRestoreInNewSession: Called to start a new session from a snapshot (start screen only)
+ * - onClose: Called when the user closes the view
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  createSnapshot,
+  diffSnapshot,
+  diffSnapshotFile,
+  listSnapshots,
+  restoreSnapshot,
+  type SnapshotChange,
+  type SnapshotInfo,
+} from '../lib/snapshots';
+
+export interface SnapshotsProps {
+  sessionId: string | null;
+  onRestoreInNewSession?: (snapshot: SnapshotInfo) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<SnapshotInfo['reason'], string> = {
+  manual: 'Manual',
+  'session-end': 'Session end',
+  scheduled: 'Scheduled',
+  'pre-restore': 'Before restore',
+};
+
+const CHANGE_MARKERS: Record<SnapshotChange['status'], string> = {
+  added: '+',
+  removed: '-',
+  modified: '~',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'diff-file';
+  if (line.startsWith('@@')) return 'diff-hunk';
+  if (line.startsWith('+')) return 'diff-add';
+  if (line.startsWith('-')) return 'diff-remove';
+  return '';
+}
+
+export function Snapshots({ sessionId, onRestoreInNewSession, onClose }: SnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [compared, setCompared] = useState<SnapshotInfo | null>(null);
+  const [changes, setChanges] = useState<SnapshotChange[] | null>(null);
+  const [fileDiff, setFileDiff] = useState<{ path: string; diff: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots().then(
+      (loaded) => {
+        if (!cancelled) setSnapshots(loaded);
+      },
+      (err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Snapshot operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTake = (activeSession: string) => {
+    const label = window.prompt('Snapshot label (optional):', '');
+    if (label === null) return;
+    runAction(async () => {
+      await createSnapshot(activeSession, label);
+      setReloadKey((key) => key + 1);
+    });
+  };
+
+  const handleCompare = (activeSession: string, snapshot: SnapshotInfo) =>
+    runAction(async () => {
+      setCompared(snapshot);
+      setChanges(null);
+      setFileDiff(null);
+      setChanges(await diffSnapshot(activeSession, snapshot.id));
+    });
+
+  const handleFileDiff = (activeSession: string, snapshot: SnapshotInfo, path: string) =>
+    runAction(async () => {
+      setFileDiff({ path, diff: await diffSnapshotFile(activeSession, snapshot.id, path) });
+    });
+
+  const handleRestore = (snapshot: SnapshotInfo) => {
+    if (!sessionId) {
+      onRestoreInNewSession?.(snapshot);
+      return;
+    }
+    const when = new Date(snapshot.createdAt).toLocaleString();
+    if (!window.confirm(`Replace the workspace with the snapshot from ${when}? The current files are saved as a new snapshot first.`)) {
+      return;
+    }
+    runAction(async () => {
+      await restoreSnapshot(sessionId, snapshot.id);
+      setCompared(null);
+      setChanges(null);
+      setFileDiff(null);
+      setReloadKey((key) => key + 1);
+    });
+  };
+
+  return (
+    <div className="snapshots">
+      <div className="player-header">
+        <button onClick={onClose} className="link-button">
+          {sessionId ? 'Close' : '← Back'}
+        </button>
+        <span>Workspace Snapshots</span>
+        {sessionId && (
+          <button onClick={() => handleTake(sessionId)} className="player-button" disabled={busy}>
+            Take snapshot
+          </button>
+        )}
+        {error && <span className="error-message">{error}</span>}
+      </div>
+      <div className="recording-list">
+        {snapshots?.length === 0 && <div className="recording-empty">No snapshots yet</div>}
+        {snapshots?.map((snapshot) => (
+          <div key={snapshot.id} className={`snapshot-item ${snapshot.id === compared?.id ? 'snapshot-item-active' : ''}`}>
+            <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+            <span>{REASON_LABELS[snapshot.reason]}</span>
+            <span className="snapshot-label">{snapshot.label ?? ''}</span>
+            <span>{formatSize(snapshot.bytes)}</span>
+            <span className="snapshot-actions">
+              {sessionId && (
+                <button className="link-button" disabled={busy} onClick={() => handleCompare(sessionId, snapshot)}>
+                  Diff
+                </button>
+              )}
+              <button className="link-button" disabled={busy} onClick={() => handleRestore(snapshot)}>
+                {sessionId ? 'Restore' : 'Start session from it'}
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+      {sessionId && compared && (
+        <div className="snapshot-diff">
+          <div className="snapshot-changes">
+            {changes === null && <div className="recording-empty">Comparing…</div>}
+            {changes?.length === 0 && <div className="recording-empty">No changes since this snapshot</div>}
+            {changes?.map((change) => (
+              <div
+                key={change.path}
+                className={`file-entry snapshot-change-${change.status} ${change.path === fileDiff?.path ? 'file-entry-selected' : ''}`}
+                onClick={() => handleFileDiff(sessionId, compared, change.path)}
+                title={`${change.status}: ${change.path}`}
+              >
+                <span className="file-icon">{CHANGE_MARKERS[change.status]}</span>
+                <span className="file-name">{change.path}</span>
+              </div>
+            ))}
+          </div>
+          <pre className="snapshot-file-diff">
+            {fileDiff
+              ? fileDiff.diff.split('\n').map((line, i) => (
+                  <div key={i} className={diffLineClass(line)}>
+                    {line}
+                  </div>
+                ))
+              : 'Select a file to see its changes'}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,98 +2,221 @@
  * Terminal Component
  *
  * Purpose: Full-screen terminal emulator using xterm.js
- * Contract: Display terminal, handle user input, auto-resize
+ * Contract: Display terminal, handle user input, report the size that fits the container
+ *
+ * A shared session's PTY can only have one size, so the terminal doesn't
+ * resize itself once the server has said which size to render at: it reports
+ * the size it would fit and renders at `size`, leaving any extra space empty.
  *
  * Props:
  * - onData: Called when user types (sends input to backend)
- * - onResize: Called when terminal size changes
+ * - onResize: Called when the size that would fit the container changes
+ * - onReady: Called once with the xterm instance so the parent can write output to it
+ * - active: Whether this terminal is the visible tab (refits and focuses when it becomes active)
+ * - size: The size to render at, from the server; fits the container until it is known
+ * - readOnly: Ignore keyboard input, e.g. for view-only guests
+ * - settings: Theme, font, cursor, scrollback and bell; applied live when they change
+ *
+ * Ctrl+Shift+F (Cmd+F on macOS) opens a find bar over the terminal.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Terminal as XTerm } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
+import { SearchAddon } from '@xterm/addon-search';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import '@xterm/xterm/css/xterm.css';
+import { FindBar } from './FindBar';
+import { DEFAULT_SETTINGS, themeColors, xtermOptions, type TerminalSettings } from '../lib/settings';
 
 export interface TerminalProps {
   onData?: (data: string) => void;
   onResize?: (cols: number, rows: number) => void;
+  onReady?: (xterm: XTerm) => void;
+  active?: boolean;
+  size?: { cols: number; rows: number };
+  readOnly?: boolean;
+  settings?: TerminalSettings;
 }
 
-export function Terminal({ onData, onResize }: TerminalProps) {
+let audioContext: AudioContext | null = null;
+
+// A short beep for the audible bell
+function playBell(): void {
+  audioContext ??= new AudioContext();
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.frequency.value = 880;
+  gain.gain.setValueAtTime(0.1, audioContext.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.15);
+  oscillator.connect(gain).connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + 0.15);
+}
+
+function isFindShortcut(e: KeyboardEvent): boolean {
+  if (e.type !== 'keydown' || e.key.toLowerCase() !== 'f' || e.altKey) return false;
+  return (e.ctrlKey && e.shiftKey) || (e.metaKey && !e.ctrlKey);
+}
+
+export function Terminal({
+  onData,
+  onResize,
+  onReady,
+  active = true,
+  size,
+  readOnly = false,
+  settings = DEFAULT_SETTINGS,
+}: TerminalProps) {
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
-  const fitAddonRef = useRef<FitAddon | null>(null);
+  const fitRef = useRef<(() => void) | null>(null);
+  const searchRef = useRef<SearchAddon | null>(null);
+  // Bumped on every find shortcut; null while the find bar is closed
+  const [findKey, setFindKey] = useState<number | null>(null);
+
+  // Keep the latest callbacks in refs so re-renders of the parent don't recreate the xterm instance
+  const onDataRef = useRef(onData);
+  const onResizeRef = useRef(onResize);
+  const onReadyRef = useRef(onReady);
+  const sizeRef = useRef(size);
+  const bellRef = useRef(settings.bell);
+  useEffect(() => {
+    onDataRef.current = onData;
+    onResizeRef.current = onResize;
+    onReadyRef.current = onReady;
+    sizeRef.current = size;
+    bellRef.current = settings.bell;
+  });
 
   useEffect(() => {
     if (!terminalRef.current) return;
 
-    // Create terminal instance
+    // Create terminal instance; appearance comes from the settings effect below
     const xterm = new XTerm({
-      theme: {
-        background: '#1a1a1a',
-        foreground: '#00ff00',
-        cursor: '#00ff00',
-        cursorAccent: '#1a1a1a',
-        selectionBackground: '#404040',
-      },
-      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
-      fontSize: 14,
-      cursorBlink: true,
       allowTransparency: false,
+      // Search highlights are decorations, which xterm still counts as a proposed API
+      allowProposedApi: true,
     });
 
     // Add addons
     const fitAddon = new FitAddon();
     const webLinksAddon = new WebLinksAddon();
+    const searchAddon = new SearchAddon();
 
     xterm.loadAddon(fitAddon);
     xterm.loadAddon(webLinksAddon);
+    xterm.loadAddon(searchAddon);
 
     // Open terminal in DOM
     xterm.open(terminalRef.current);
 
+    let reported: { cols: number; rows: number } | null = null;
+    const fit = () => {
+      const proposed = fitAddon.proposeDimensions();
+      // Hidden tabs measure as zero or NaN
+      if (!proposed || !(proposed.cols > 0) || !(proposed.rows > 0)) return;
+      if (!sizeRef.current) {
+        xterm.resize(proposed.cols, proposed.rows);
+      }
+      if (reported?.cols !== proposed.cols || reported?.rows !== proposed.rows) {
+        reported = proposed;
+        onResizeRef.current?.(proposed.cols, proposed.rows);
+      }
+    };
+
     // Store xterm instance on the .xterm element for App.tsx to access
     requestAnimationFrame(() => {
       const xtermElement = terminalRef.current?.querySelector('.xterm');
       if (xtermElement) {
         (xtermElement as any).terminal = xterm;
       }
-      fitAddon.fit();
+      fit();
     });
 
     // Handle user input
     xterm.onData((data) => {
-      onData?.(data);
+      onDataRef.current?.(data);
+    });
+
+    xterm.attachCustomKeyEventHandler((e) => {
+      if (!isFindShortcut(e)) return true;
+      e.preventDefault();
+      setFindKey((key) => (key ?? 0) + 1);
+      return false;
     });
 
-    // Handle resize
-    xterm.onResize(({ cols, rows }) => {
-      onResize?.(cols, rows);
+    xterm.onBell(() => {
+      if (bellRef.current === 'sound') {
+        playBell();
+      } else if (bellRef.current === 'visual') {
+        const element = terminalRef.current;
+        element?.classList.add('terminal-bell');
+        setTimeout(() => element?.classList.remove('terminal-bell'), 150);
+      }
     });
 
+    onReadyRef.current?.(xterm);
+
     // Store refs
     xtermRef.current = xterm;
-    fitAddonRef.current = fitAddon;
+    fitRef.current = fit;
+    searchRef.current = searchAddon;
 
     // Expose xterm instance on the DOM element for parent component access
     if (terminalRef.current) {
       (terminalRef.current as any)._xterm = xterm;
     }
 
-    // Handle window resize
-    const handleResize = () => {
-      fitAddon.fit();
-    };
+    // Refit whenever the container changes size (window resize, side panels toggling)
+    const resizeObserver = new ResizeObserver(() => {
+      fit();
+    });
 
-    window.addEventListener('resize', handleResize);
+    resizeObserver.observe(terminalRef.current);
 
     // Cleanup
     return () => {
-      window.removeEventListener('resize', handleResize);
+      resizeObserver.disconnect();
       xterm.dispose();
     };
-  }, [onData, onResize]);
+  }, []);
+
+  // Hidden tabs can't measure themselves, so refit when this one is shown
+  useEffect(() => {
+    if (active && xtermRef.current) {
+      requestAnimationFrame(() => {
+        fitRef.current?.();
+        xtermRef.current?.focus();
+      });
+    }
+  }, [active]);
+
+  useEffect(() => {
+    const xterm = xtermRef.current;
+    if (size && xterm && (xterm.cols !== size.cols || xterm.rows !== size.rows)) {
+      xterm.resize(size.cols, size.rows);
+    }
+  }, [size]);
+
+  useEffect(() => {
+    if (xtermRef.current) {
+      xtermRef.current.options.disableStdin = readOnly;
+    }
+  }, [readOnly]);
+
+  // A new font changes how many cells fit, so refit after applying the settings
+  useEffect(() => {
+    if (xtermRef.current) {
+      xtermRef.current.options = xtermOptions(settings);
+      fitRef.current?.();
+    }
+  }, [settings]);
+
+  const closeFind = () => {
+    setFindKey(null);
+    xtermRef.current?.focus();
+  };
 
   // Public method to write to terminal
   useEffect(() => {
@@ -104,13 +227,16 @@ export function Terminal({ onData, onResize }: TerminalProps) {
   }, []);
 
   return (
-    <div
-      ref={terminalRef}
-      style={{
-        width: '100%',
-        height: '100%',
-      }}
-    />
+    <div className="terminal-frame" style={{ background: themeColors(settings).background }}>
+      {findKey !== null && <FindBar search={searchRef} focusKey={findKey} onClose={closeFind} />}
+      <div
+        ref={terminalRef}
+        style={{
+          width: '100%',
+          height: '100%',
+        }}
+      />
+    </div>
   );
 }
 
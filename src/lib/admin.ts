@@ -0,0 +1,66 @@
+/**
+ * Admin API
+ *
+ * Purpose: Let admins watch live sessions, end or extend them and message their users
+ * Contract: Every call requires an ADMIN_USERS account; others get 403
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface LiveSession {
+  id: string;
+  userId: string;
+  workspaceId: string;
+  // Null while the sandbox is still being created
+  sandboxId: string | null;
+  templateId: string | null;
+  // Storage backend mounted into the sandbox, null without cloud storage
+  storage: string | null;
+  ready: boolean;
+  // Whether a client is connected; detached sessions wait out the grace period
+  attached: boolean;
+  channels: number;
+  startedAt: string;
+  lastInputAt: string | null;
+  expiresAt: string | null;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+function sessionPath(sessionId: string, route = ''): string {
+  return `/api/admin/sessions/${encodeURIComponent(sessionId)}${route}`;
+}
+
+/** Every live session on the server, oldest first */
+export async function listLiveSessions(): Promise<LiveSession[]> {
+  const response = await expectOk(await apiFetch('/api/admin/sessions'));
+  return (await response.json()).sessions;
+}
+
+export async function terminateSession(sessionId: string): Promise<void> {
+  await expectOk(await apiFetch(sessionPath(sessionId), { method: 'DELETE' }));
+}
+
+/** Pushes the session's sandbox timeout `seconds` further out */
+export async function extendSession(sessionId: string, seconds: number): Promise<LiveSession> {
+  const response = await expectOk(
+    await apiFetch(sessionPath(sessionId, '/extend'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ seconds }),
+    })
+  );
+  return response.json();
+}
+
+/** Prints a message into the terminals of the given sessions, or of all of them; resolves with the IDs reached */
+export async function broadcastMessage(message: string, sessionIds?: string[]): Promise<string[]> {
+  const response = await expectOk(
+    await apiFetch('/api/admin/broadcast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, sessionIds }),
+    })
+  );
+  return (await response.json()).delivered;
+}
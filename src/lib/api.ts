@@ -0,0 +1,88 @@
+/**
+ * Backend API Client
+ *
+ * Purpose: Single place for backend URLs, the auth token and authenticated requests
+ * Contract: Store/clear the session token, log in with an API key, fetch with auth
+ */
+
+export const API_URL = 'http://localhost:3000';
+export const WS_URL = 'ws://localhost:3000/terminal';
+
+const TOKEN_STORAGE_KEY = 'cloud-dev-env:token';
+
+export interface User {
+  id: string;
+  // Admins can open sessions on any workspace
+  admin?: boolean;
+}
+
+export class UnauthorizedError extends Error {
+  constructor(message = 'Unauthorized') {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export function clearToken(): void {
+  localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(`${API_URL}${path}`, { ...init, headers });
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+  return response;
+}
+
+/** Throws with the server's `error` message for non-2xx responses */
+export async function expectOk(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error ?? `Request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+export async function login(apiKey: string): Promise<User> {
+  const response = await fetch(`${API_URL}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ apiKey }),
+  });
+  const body = await response.json();
+
+  if (!response.ok) {
+    throw new Error(body.error ?? 'Login failed');
+  }
+
+  localStorage.setItem(TOKEN_STORAGE_KEY, body.token);
+  return body.user;
+}
+
+/** Returns the signed-in user, or null if the stored token is missing or rejected */
+export async function fetchCurrentUser(): Promise<User | null> {
+  try {
+    const response = await apiFetch('/auth/me');
+    if (!response.ok) {
+      return null;
+    }
+    const body = await response.json();
+    return body.user;
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Workspace Files API
+ *
+ * Purpose: Typed wrappers around the backend's per-session file routes
+ * Contract: Paths are relative to the session's workspace root
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  modifiedTime?: string;
+}
+
+function filesPath(sessionId: string, route = '', path?: string): string {
+  const query = path !== undefined ? `?path=${encodeURIComponent(path)}` : '';
+  return `/api/sessions/${encodeURIComponent(sessionId)}/files${route}${query}`;
+}
+
+export async function listDirectory(sessionId: string, path: string): Promise<FileEntry[]> {
+  const response = await expectOk(await apiFetch(filesPath(sessionId, '', path)));
+  return (await response.json()).entries;
+}
+
+export async function uploadFile(sessionId: string, path: string, file: Blob): Promise<void> {
+  await expectOk(await apiFetch(filesPath(sessionId, '/upload', path), { method: 'PUT', body: file }));
+}
+
+export async function downloadFile(sessionId: string, path: string): Promise<Blob> {
+  const response = await expectOk(await apiFetch(filesPath(sessionId, '/download', path)));
+  return response.blob();
+}
+
+export async function deletePath(sessionId: string, path: string): Promise<void> {
+  await expectOk(await apiFetch(filesPath(sessionId, '', path), { method: 'DELETE' }));
+}
+
+export async function renamePath(sessionId: string, from: string, to: string): Promise<void> {
+  await expectOk(
+    await apiFetch(filesPath(sessionId, '/rename'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to }),
+    })
+  );
+}
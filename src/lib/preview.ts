@@ -0,0 +1,37 @@
+/**
+ * Preview Links
+ *
+ * Purpose: Address of a server running in the sandbox, served through the backend's preview proxy
+ * Contract: Opening a preview asks the backend for a short-lived link limited to that session and port;
+ * the backend swaps it for a cookie scoped to the preview, so the login token never leaves this app
+ */
+
+import { API_URL, apiFetch, expectOk } from './api';
+
+/** The preview's address; it opens without a fresh link only while an earlier visit's cookie is valid */
+export function previewUrl(sessionId: string, port: number): string {
+  return `${API_URL}/preview/${encodeURIComponent(sessionId)}/${port}/`;
+}
+
+/**
+ * Opens the preview in a new tab. The tab is opened before the link is
+ * fetched so popup blockers still see it as a response to the click.
+ */
+export async function openPreview(sessionId: string, port: number): Promise<void> {
+  const tab = window.open('about:blank', '_blank');
+  if (tab) {
+    tab.opener = null;
+  }
+  try {
+    const response = await expectOk(
+      await apiFetch(`/api/sessions/${encodeURIComponent(sessionId)}/previews/${port}/link`, { method: 'POST' })
+    );
+    const { path } = await response.json();
+    if (tab) {
+      tab.location.href = `${API_URL}${path}`;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+}
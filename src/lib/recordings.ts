@@ -0,0 +1,47 @@
+/**
+ * Session Recordings API
+ *
+ * Purpose: List the user's recordings and download them for playback
+ * Contract: Casts are parsed from asciicast v2 (header line + one event per line)
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface RecordingInfo {
+  id: string;
+  sessionId: string;
+  channel: string;
+  user: string;
+  startedAt: string;
+  endedAt: string | null;
+  duration: number | null;
+}
+
+/** [seconds since start, "o" output | "i" input | "r" resize, data] */
+export type CastEvent = [number, 'o' | 'i' | 'r', string];
+
+export interface Cast {
+  width: number;
+  height: number;
+  duration: number;
+  events: CastEvent[];
+}
+
+export async function listRecordings(): Promise<RecordingInfo[]> {
+  const response = await expectOk(await apiFetch('/api/recordings'));
+  return (await response.json()).recordings;
+}
+
+export async function fetchCast(id: string): Promise<Cast> {
+  const response = await expectOk(await apiFetch(`/api/recordings/${encodeURIComponent(id)}/cast`));
+  const [headerLine, ...eventLines] = (await response.text()).split('\n').filter(Boolean);
+  const header = JSON.parse(headerLine);
+  const events: CastEvent[] = eventLines.map((line) => JSON.parse(line));
+
+  return {
+    width: header.width,
+    height: header.height,
+    duration: events.length > 0 ? events[events.length - 1][0] : 0,
+    events,
+  };
+}
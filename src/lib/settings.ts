@@ -0,0 +1,196 @@
+/**
+ * Terminal Settings
+ *
+ * Purpose: The user's terminal appearance and behavior, and where it is kept
+ * Contract: Settings always load as a complete, valid object (unknown or broken values fall back to
+ * the defaults); they are kept in localStorage and, when `sync` is on, on the server for the user
+ */
+
+import type { ITerminalOptions, ITheme } from '@xterm/xterm';
+import { apiFetch, expectOk } from './api';
+
+const SETTINGS_STORAGE_KEY = 'cloud-dev-env:terminal-settings';
+
+export type CursorStyle = 'block' | 'underline' | 'bar';
+// What the terminal does on a BEL character
+export type BellStyle = 'none' | 'visual' | 'sound';
+
+export interface TerminalColors {
+  background: string;
+  foreground: string;
+  cursor: string;
+  selection: string;
+}
+
+export interface TerminalSettings {
+  // A THEME_PRESETS key, or 'custom' to use `colors`
+  theme: string;
+  colors: TerminalColors;
+  fontFamily: string;
+  fontSize: number;
+  cursorStyle: CursorStyle;
+  cursorBlink: boolean;
+  // Lines kept above the screen
+  scrollback: number;
+  bell: BellStyle;
+  // Also save the settings to the user's account so other browsers pick them up
+  sync: boolean;
+}
+
+export const THEME_PRESETS: Record<string, { label: string; colors: TerminalColors }> = {
+  classic: {
+    label: 'Classic green',
+    colors: { background: '#1a1a1a', foreground: '#00ff00', cursor: '#00ff00', selection: '#404040' },
+  },
+  dark: {
+    label: 'Dark',
+    colors: { background: '#1e1e1e', foreground: '#d4d4d4', cursor: '#aeafad', selection: '#264f78' },
+  },
+  light: {
+    label: 'Light',
+    colors: { background: '#ffffff', foreground: '#333333', cursor: '#333333', selection: '#add6ff' },
+  },
+  solarized: {
+    label: 'Solarized dark',
+    colors: { background: '#002b36', foreground: '#839496', cursor: '#93a1a1', selection: '#073642' },
+  },
+  amber: {
+    label: 'Amber',
+    colors: { background: '#1a1200', foreground: '#ffb000', cursor: '#ffb000', selection: '#4d3500' },
+  },
+};
+
+export const FONT_FAMILIES = [
+  'Menlo, Monaco, "Courier New", monospace',
+  '"Fira Code", monospace',
+  '"JetBrains Mono", monospace',
+  '"Source Code Pro", monospace',
+  'Consolas, monospace',
+  'monospace',
+];
+
+export const FONT_SIZES = [10, 11, 12, 13, 14, 15, 16, 18, 20, 24, 28, 32];
+export const SCROLLBACK_LINES = [0, 1000, 5000, 10000, 50000, 100000];
+
+// Bounds for values loaded from storage
+const FONT_SIZE_RANGE = { min: 8, max: 32 };
+const SCROLLBACK_RANGE = { min: 0, max: 100000 };
+
+export const DEFAULT_SETTINGS: TerminalSettings = {
+  theme: 'classic',
+  colors: THEME_PRESETS.classic.colors,
+  fontFamily: FONT_FAMILIES[0],
+  fontSize: 14,
+  cursorStyle: 'block',
+  cursorBlink: true,
+  scrollback: 1000,
+  bell: 'none',
+  sync: false,
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function pick<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.round(value), range.min), range.max)
+    : fallback;
+}
+
+function color(value: unknown, fallback: string): string {
+  return typeof value === 'string' && COLOR_PATTERN.test(value) ? value : fallback;
+}
+
+/** Completes and repairs settings read from storage or the server */
+export function normalizeSettings(value: unknown): TerminalSettings {
+  const raw = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+  const colors =
+    typeof raw.colors === 'object' && raw.colors !== null ? (raw.colors as Record<string, unknown>) : {};
+  const defaults = DEFAULT_SETTINGS;
+  const knownTheme = typeof raw.theme === 'string' && (raw.theme === 'custom' || Object.keys(THEME_PRESETS).includes(raw.theme));
+  return {
+    theme: knownTheme ? (raw.theme as string) : defaults.theme,
+    colors: {
+      background: color(colors.background, defaults.colors.background),
+      foreground: color(colors.foreground, defaults.colors.foreground),
+      cursor: color(colors.cursor, defaults.colors.cursor),
+      selection: color(colors.selection, defaults.colors.selection),
+    },
+    fontFamily: typeof raw.fontFamily === 'string' && raw.fontFamily.trim() ? raw.fontFamily : defaults.fontFamily,
+    fontSize: clamp(raw.fontSize, FONT_SIZE_RANGE, defaults.fontSize),
+    cursorStyle: pick(raw.cursorStyle, ['block', 'underline', 'bar'] as const, defaults.cursorStyle),
+    cursorBlink: typeof raw.cursorBlink === 'boolean' ? raw.cursorBlink : defaults.cursorBlink,
+    scrollback: clamp(raw.scrollback, SCROLLBACK_RANGE, defaults.scrollback),
+    bell: pick(raw.bell, ['none', 'visual', 'sound'] as const, defaults.bell),
+    sync: raw.sync === true,
+  };
+}
+
+/** The colors in effect: the preset's, or the custom ones */
+export function themeColors(settings: TerminalSettings): TerminalColors {
+  return THEME_PRESETS[settings.theme]?.colors ?? settings.colors;
+}
+
+export function xtermTheme(settings: TerminalSettings): ITheme {
+  const colors = themeColors(settings);
+  return {
+    background: colors.background,
+    foreground: colors.foreground,
+    cursor: colors.cursor,
+    cursorAccent: colors.background,
+    selectionBackground: colors.selection,
+  };
+}
+
+/** xterm options that follow the settings; they can be changed on a live terminal */
+export function xtermOptions(settings: TerminalSettings): ITerminalOptions {
+  return {
+    theme: xtermTheme(settings),
+    fontFamily: settings.fontFamily,
+    fontSize: settings.fontSize,
+    cursorStyle: settings.cursorStyle,
+    cursorBlink: settings.cursorBlink,
+    scrollback: settings.scrollback,
+  };
+}
+
+export function loadLocalSettings(): TerminalSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? normalizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveLocalSettings(settings: TerminalSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** The settings saved to the user's account, or null if there are none */
+export async function fetchServerSettings(): Promise<TerminalSettings | null> {
+  const response = await expectOk(await apiFetch('/api/settings'));
+  const { settings } = await response.json();
+  return settings ? normalizeSettings(settings) : null;
+}
+
+export async function saveServerSettings(settings: TerminalSettings): Promise<void> {
+  await expectOk(
+    await apiFetch('/api/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ settings }),
+    })
+  );
+}
+
+/** Removes the account copy, e.g. when the user turns syncing off */
+export async function clearServerSettings(): Promise<void> {
+  const response = await apiFetch('/api/settings', { method: 'DELETE' });
+  if (response.status !== 404) {
+    await expectOk(response);
+  }
+}
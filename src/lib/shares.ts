@@ -0,0 +1,60 @@
+/**
+ * Session Sharing API
+ *
+ * Purpose: Create, list and revoke the links that let others join a live session
+ * Contract: Only the session's owner may manage its links; guests open `?share=<token>`
+ */
+
+import { apiFetch, expectOk } from './api';
+import type { ParticipantInfo } from '../../backend/src/websocket/protocol';
+
+// Editors may type into the terminals, viewers only watch
+export type ShareRole = 'editor' | 'viewer';
+
+export interface ShareLink {
+  id: string;
+  role: ShareRole;
+  // Frontend address carrying the link's token
+  url: string;
+  createdBy: string;
+  createdAt: string;
+  // Guests currently connected through the link
+  participants: number;
+}
+
+function sharesPath(sessionId: string, route = ''): string {
+  return `/api/sessions/${encodeURIComponent(sessionId)}/shares${route}`;
+}
+
+export async function listShares(sessionId: string): Promise<{ shares: ShareLink[]; participants: ParticipantInfo[] }> {
+  const response = await expectOk(await apiFetch(sharesPath(sessionId)));
+  return response.json();
+}
+
+export async function createShare(sessionId: string, role: ShareRole): Promise<ShareLink> {
+  const response = await expectOk(
+    await apiFetch(sharesPath(sessionId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    })
+  );
+  return response.json();
+}
+
+/** Revoking disconnects everyone who joined through the link */
+export async function revokeShare(sessionId: string, shareId: string): Promise<void> {
+  await expectOk(await apiFetch(sharesPath(sessionId, `/${encodeURIComponent(shareId)}`), { method: 'DELETE' }));
+}
+
+/** The share token the page was opened with, if it was opened through a share link */
+export function shareTokenFromLocation(): string | null {
+  return new URLSearchParams(window.location.search).get('share');
+}
+
+/** Drops the share token from the address bar, e.g. to start an own session instead */
+export function clearShareTokenFromLocation(): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('share');
+  window.history.replaceState(null, '', url);
+}
@@ -0,0 +1,66 @@
+/**
+ * Workspace Snapshots API
+ *
+ * Purpose: List, take, diff and restore snapshots of the user's workspace
+ * Contract: Listing needs no session; everything else runs in a live session's sandbox
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface SnapshotInfo {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  sessionId: string;
+  reason: 'manual' | 'session-end' | 'scheduled' | 'pre-restore';
+  label: string | null;
+  createdAt: string;
+  bytes: number;
+}
+
+export interface SnapshotChange {
+  path: string;
+  // Compared to the snapshot: "added" exists only in the current workspace
+  status: 'added' | 'removed' | 'modified';
+}
+
+function snapshotsPath(sessionId: string, route = ''): string {
+  return `/api/sessions/${encodeURIComponent(sessionId)}/snapshots${route}`;
+}
+
+/** Snapshots of the user's workspace, newest first */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  const response = await expectOk(await apiFetch('/api/snapshots'));
+  return (await response.json()).snapshots;
+}
+
+export async function createSnapshot(sessionId: string, label: string): Promise<SnapshotInfo> {
+  const response = await expectOk(
+    await apiFetch(snapshotsPath(sessionId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ label }),
+    })
+  );
+  return response.json();
+}
+
+export async function diffSnapshot(sessionId: string, snapshotId: string): Promise<SnapshotChange[]> {
+  const response = await expectOk(await apiFetch(snapshotsPath(sessionId, `/${encodeURIComponent(snapshotId)}/diff`)));
+  return (await response.json()).changes;
+}
+
+/** Unified diff of one file from the snapshot to the current workspace */
+export async function diffSnapshotFile(sessionId: string, snapshotId: string, path: string): Promise<string> {
+  const route = `/${encodeURIComponent(snapshotId)}/diff?path=${encodeURIComponent(path)}`;
+  const response = await expectOk(await apiFetch(snapshotsPath(sessionId, route)));
+  return (await response.json()).diff;
+}
+
+/** Restores into the running session; resolves with the snapshot of the state it replaced */
+export async function restoreSnapshot(sessionId: string, snapshotId: string): Promise<SnapshotInfo> {
+  const response = await expectOk(
+    await apiFetch(snapshotsPath(sessionId, `/${encodeURIComponent(snapshotId)}/restore`), { method: 'POST' })
+  );
+  return (await response.json()).backup;
+}
@@ -0,0 +1,45 @@
+/**
+ * Sandbox Templates API
+ *
+ * Purpose: List the sandbox templates a session can start from
+ * Contract: Every template is listed; `allowed` is false above the user's tier
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface SandboxTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tier: string;
+  cpus: number;
+  // Bytes
+  memory: number;
+  // Whether the persistent workspace is mounted
+  storage: boolean;
+  allowed: boolean;
+}
+
+export interface TemplateCatalog {
+  // Smallest first
+  tiers: string[];
+  // The highest tier the user may use
+  tier: string;
+  // Used when no template is chosen; null if the user's tier allows none
+  default: string | null;
+  templates: SandboxTemplate[];
+}
+
+export async function listTemplates(): Promise<TemplateCatalog> {
+  const response = await expectOk(await apiFetch('/api/templates'));
+  return response.json();
+}
+
+/** One-line summary of a template's resources, e.g. "2 vCPU, 4 GB" */
+export function describeResources(template: SandboxTemplate): string {
+  const memory =
+    template.memory >= 1024 ** 3
+      ? `${+(template.memory / 1024 ** 3).toFixed(1)} GB`
+      : `${Math.round(template.memory / 1024 ** 2)} MB`;
+  return `${template.cpus} vCPU, ${memory}${template.storage ? '' : ', no persistent storage'}`;
+}
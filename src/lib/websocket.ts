@@ -7,17 +7,90 @@
  * This module is self-contained and handles all WebSocket lifecycle:
  * - Connection state management
  * - Automatic reconnection with exponential backoff
- * - Message sending/receiving
+ * - Reattaching to the server-side session and replaying missed output
+ * - Authenticating with a token and stopping on rejection instead of looping
+ * - Multiplexing several terminals (channels) over one socket
+ * - Joining someone else's session as a guest through a share link
+ * - Reporting each terminal's size and resending it whenever a session is (re)attached
+ * - Protocol version handshake and heartbeat (see backend/src/websocket/protocol.ts)
+ * - Message validation, sending and receiving, with large input split to stay under the server's limits
  * - Error handling
  */
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+import {
+  CLOSE_MESSAGE_TOO_BIG,
+  Heartbeat,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  decodeOutputFrame,
+  parseServerMessage,
+  type ClientMessage,
+  type ExpiryReason,
+  type ParticipantInfo,
+  type ParticipantRole,
+  type ServerMessage,
+} from '../../backend/src/websocket/protocol';
+
+export type { ParticipantInfo, ParticipantRole };
+
+// Input is sent in pieces of at most this many characters; even fully escaped they stay under the server's message size limit
+const INPUT_CHUNK_SIZE = 16 * 1024;
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error' | 'unauthorized';
+
+/** Git repository a new session is checked out from */
+export interface RepositorySource {
+  url: string;
+  // Branch, tag or commit; the repository's default branch when omitted
+  ref?: string;
+  // Run once in the checkout by the first terminal
+  setupScript?: string;
+}
+
+/** The server is about to end the session; see SessionPolicy in the backend */
+export interface ExpiryWarning {
+  reason: ExpiryReason;
+  // Local time the session ends, from the seconds left when the warning arrived
+  expiresAt: number;
+  // Only idle sessions can be extended, with WebSocketManager.extend()
+  extendable: boolean;
+}
 
 export interface WebSocketManagerConfig {
   url: string;
   maxReconnectDelay?: number;
+  getToken?: () => string | null;
+  // Workspace to open instead of the user's own (admins only)
+  workspace?: string;
+  // Catalog ID of the sandbox template for new sessions; the server's default when omitted
+  template?: string;
+  // Snapshot restored into the session when it is created; ignored when reattaching
+  restoreSnapshot?: string;
+  // Repository checked out when the session is created; ignored when reattaching
+  repository?: RepositorySource;
+  // Share link token: join that session as a guest instead of starting one
+  share?: string;
+  // Called when a connection fails before opening; resolve false if credentials were rejected
+  verifyAuth?: () => Promise<boolean>;
   onStateChange?: (state: ConnectionState) => void;
-  onData?: (data: string) => void;
+  onData?: (channel: string, data: string) => void;
+  onReset?: (channel: string) => void;
+  onSession?: (sessionId: string, resumed: boolean, role: ParticipantRole) => void;
+  // Everyone attached to the session, whenever someone joins or leaves; `you` is our own entry's ID
+  onPresence?: (you: string, participants: ParticipantInfo[]) => void;
+  // The size the server runs the channel's PTY at; terminals render at exactly this size
+  onSize?: (channel: string, cols: number, rows: number) => void;
+  // Ports servers in the sandbox listen on, whenever they change; each can be opened as a preview
+  onPorts?: (ports: number[]) => void;
+  // The server's current set of channels, sent on every (re)connect
+  onChannels?: (channels: string[]) => void;
+  onChannelOpened?: (channel: string) => void;
+  onChannelClosed?: (channel: string, exitCode: number) => void;
+  onReady?: () => void;
+  // Progress messages from the server, e.g. "Initializing sandbox..."
+  onStatus?: (message: string) => void;
+  // A new or changed expiry warning, or null once it no longer applies
+  onExpiryWarning?: (warning: ExpiryWarning | null) => void;
   onError?: (error: Error) => void;
 }
 
@@ -28,9 +101,29 @@ export class WebSocketManager {
   private shouldReconnect = true;
   private state: ConnectionState = 'disconnected';
   private config: WebSocketManagerConfig;
+  private sessionId: string | null = null;
+  private role: ParticipantRole | null = null;
+  // The size each terminal would fit, resent on every (re)attach
+  private requestedSizes = new Map<string, { cols: number; rows: number }>();
+  // Output bytes received per channel, reported back when reattaching
+  private outputOffsets = new Map<string, number>();
+  // Output arrives as raw bytes, so multi-byte characters can straddle frames
+  private decoders = new Map<string, TextDecoder>();
+  // Messages other than hello/ping/pong are only sent once the server accepted our hello
+  private handshakeComplete = false;
+  private heartbeat: Heartbeat;
+  // Cleared once a session exists so an expired session isn't restored again on reconnect
+  private restoreSnapshot: string | undefined;
+  private repository: RepositorySource | undefined;
 
   constructor(config: WebSocketManagerConfig) {
     this.config = config;
+    this.restoreSnapshot = config.restoreSnapshot;
+    this.repository = config.repository;
+    this.heartbeat = new Heartbeat(
+      (ping) => this.sendRaw(ping),
+      () => this.handleHeartbeatTimeout()
+    );
   }
 
   connect(): void {
@@ -41,36 +134,65 @@ export class WebSocketManager {
     this.setState('connecting');
 
     try {
-      this.ws = new WebSocket(this.config.url);
+      const ws = new WebSocket(this.buildUrl());
+      ws.binaryType = 'arraybuffer';
+      let opened = false;
+      this.ws = ws;
 
-      this.ws.onopen = () => {
-        this.setState('connected');
-        this.reconnectDelay = 1000; // Reset delay on successful connection
+      ws.onopen = () => {
+        opened = true;
+        this.handshakeComplete = false;
+        this.sendRaw({
+          type: 'hello',
+          version: PROTOCOL_VERSION,
+          minVersion: MIN_PROTOCOL_VERSION,
+          template: this.config.template,
+          repository: this.repository?.url,
+          ref: this.repository?.ref,
+          setupScript: this.repository?.setupScript,
+        });
+        this.heartbeat.start();
       };
 
-      this.ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          if (message.type === 'output' && message.data) {
-            this.config.onData?.(message.data);
-          } else if (message.type === 'status') {
-            console.log('[WebSocket]', message.message);
-          } else if (message.type === 'error') {
-            console.error('[WebSocket]', message.message);
-          }
-        } catch (e) {
-          // If not JSON, pass through as-is
-          this.config.onData?.(event.data);
+      ws.onmessage = (event) => {
+        this.heartbeat.touch();
+        if (event.data instanceof ArrayBuffer) {
+          this.handleOutputFrame(new Uint8Array(event.data));
+          return;
+        }
+        const parsed = parseServerMessage(event.data);
+        if (!parsed.ok) {
+          console.error('[WebSocket] Ignoring invalid message:', parsed.error);
+          return;
         }
+        this.handleMessage(parsed.message);
       };
 
-      this.ws.onerror = () => {
+      ws.onerror = () => {
         const error = new Error('WebSocket error');
         this.config.onError?.(error);
         this.setState('error');
       };
 
-      this.ws.onclose = () => {
+      ws.onclose = async (event) => {
+        if (this.ws === ws) {
+          this.heartbeat.stop();
+          this.handshakeComplete = false;
+        }
+        if (event.code === CLOSE_MESSAGE_TOO_BIG) {
+          this.config.onError?.(new Error('The server closed the connection because a message was too large'));
+        }
+        // Browsers hide the HTTP status of a rejected upgrade, so ask the backend whether we are still authorized
+        if (!opened && this.shouldReconnect && this.config.verifyAuth && !(await this.config.verifyAuth())) {
+          this.shouldReconnect = false;
+          this.config.onError?.(new Error('Authentication failed - please sign in again'));
+          this.setState('unauthorized');
+          return;
+        }
+        if (this.ws !== ws || !this.shouldReconnect) {
+          // Replaced, or stopped for good (e.g. incompatible protocol version) with the state already set
+          return;
+        }
         this.setState('disconnected');
         this.scheduleReconnect();
       };
@@ -82,21 +204,58 @@ export class WebSocketManager {
     }
   }
 
-  send(data: string): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      // Send as JSON message matching backend's TerminalMessage interface
-      this.ws.send(JSON.stringify({ type: 'input', data }));
+  send(channel: string, data: string): void {
+    let start = 0;
+    while (start < data.length) {
+      let end = Math.min(start + INPUT_CHUNK_SIZE, data.length);
+      // Don't split a surrogate pair between pieces
+      const last = data.charCodeAt(end - 1);
+      if (end < data.length && last >= 0xd800 && last <= 0xdbff) {
+        end--;
+      }
+      this.sendMessage({ type: 'input', channel, data: data.slice(start, end) });
+      start = end;
     }
   }
 
+  /** Reports the size the channel's terminal would fit; the server answers with the size to use */
+  sendResize(channel: string, cols: number, rows: number): void {
+    this.requestedSizes.set(channel, { cols, rows });
+    this.sendMessage({ type: 'resize', channel, cols, rows });
+  }
+
+  openChannel(): void {
+    this.sendMessage({ type: 'open' });
+  }
+
+  closeChannel(channel: string): void {
+    this.sendMessage({ type: 'close', channel });
+  }
+
+  /** Asks for more time after an extendable expiry warning */
+  extend(): void {
+    this.sendMessage({ type: 'extend' });
+  }
+
   disconnect(): void {
     this.shouldReconnect = false;
     if (this.reconnectTimeout !== null) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
+    // An explicit disconnect ends the session instead of leaving it to the grace period; guests just leave
+    if (this.role === 'owner') {
+      this.sendMessage({ type: 'terminate' });
+    }
+    this.heartbeat.stop();
+    this.handshakeComplete = false;
     this.ws?.close();
     this.ws = null;
+    this.sessionId = null;
+    this.role = null;
+    this.outputOffsets.clear();
+    this.decoders.clear();
+    this.requestedSizes.clear();
     this.setState('disconnected');
   }
 
@@ -104,6 +263,195 @@ export class WebSocketManager {
     return this.state;
   }
 
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getRole(): ParticipantRole | null {
+    return this.role;
+  }
+
+  private buildUrl(): string {
+    const url = new URL(this.config.url);
+    const token = this.config.getToken?.();
+    if (token) {
+      url.searchParams.set('token', token);
+    }
+    if (this.config.workspace) {
+      url.searchParams.set('workspace', this.config.workspace);
+    }
+    if (this.restoreSnapshot) {
+      url.searchParams.set('restoreSnapshot', this.restoreSnapshot);
+    }
+    if (this.config.share) {
+      url.searchParams.set('share', this.config.share);
+    } else if (this.sessionId) {
+      url.searchParams.set('sessionId', this.sessionId);
+    }
+    if (this.sessionId) {
+      const offsets = [...this.outputOffsets].map(([channel, offset]) => `${channel}:${offset}`);
+      url.searchParams.set('offsets', offsets.join(','));
+    }
+    return url.toString();
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'hello':
+        this.handshakeComplete = true;
+        this.reconnectDelay = 1000; // Reset delay on successful connection
+        this.setState('connected');
+        break;
+      case 'session':
+        this.handleSession(message.sessionId, message.resumed, message.channels, message.role);
+        break;
+      case 'replay':
+        // Output frames for this channel continue from message.offset
+        if (message.reset) {
+          this.decoders.delete(message.channel);
+          this.config.onReset?.(message.channel);
+        }
+        this.outputOffsets.set(message.channel, message.offset);
+        break;
+      case 'opened':
+        this.config.onChannelOpened?.(message.channel);
+        break;
+      case 'closed':
+        this.outputOffsets.delete(message.channel);
+        this.decoders.delete(message.channel);
+        this.requestedSizes.delete(message.channel);
+        this.config.onChannelClosed?.(message.channel, message.exitCode);
+        break;
+      case 'ready':
+        this.config.onReady?.();
+        break;
+      case 'status':
+        this.config.onStatus?.(message.message);
+        break;
+      case 'expiry_warning':
+        this.config.onExpiryWarning?.({
+          reason: message.reason,
+          expiresAt: Date.now() + message.remaining * 1000,
+          extendable: message.extendable,
+        });
+        break;
+      case 'expiry_cleared':
+        this.config.onExpiryWarning?.(null);
+        break;
+      case 'presence':
+        this.config.onPresence?.(message.you, message.participants);
+        break;
+      case 'size':
+        this.config.onSize?.(message.channel, message.cols, message.rows);
+        break;
+      case 'ports':
+        this.config.onPorts?.(message.ports);
+        break;
+      case 'error':
+        if (
+          [
+            'unsupported_version',
+            'workspace_denied',
+            'snapshot_not_found',
+            'invalid_repository',
+            'template_denied',
+            'share_invalid',
+            'session_terminated',
+            'session_expired',
+            'quota_exceeded',
+            'too_many_sessions',
+            'rate_limited',
+          ].includes(message.code)
+        ) {
+          // Reconnecting can't help, or would quietly start a new session after this one was ended on purpose
+          this.config.onExpiryWarning?.(null);
+          this.shouldReconnect = false;
+          this.setState('error');
+        }
+        this.config.onError?.(new Error(message.message));
+        break;
+      case 'ping':
+        this.sendRaw({ type: 'pong', timestamp: message.timestamp });
+        break;
+      case 'pong':
+        // Receiving it already refreshed the heartbeat
+        break;
+    }
+  }
+
+  private handleOutputFrame(frame: Uint8Array): void {
+    const output = decodeOutputFrame(frame);
+    if (!output) {
+      console.error('[WebSocket] Ignoring malformed output frame');
+      return;
+    }
+
+    const { channel, data } = output;
+    this.outputOffsets.set(channel, (this.outputOffsets.get(channel) ?? 0) + data.length);
+
+    let decoder = this.decoders.get(channel);
+    if (!decoder) {
+      decoder = new TextDecoder();
+      this.decoders.set(channel, decoder);
+    }
+    const text = decoder.decode(data, { stream: true });
+    if (text) {
+      this.config.onData?.(channel, text);
+    }
+  }
+
+  private handleHeartbeatTimeout(): void {
+    // The socket looks open but the server stopped answering. A close handshake
+    // could hang on a dead link, so abandon the socket and reconnect right away.
+    console.warn('[WebSocket] Heartbeat timed out, reconnecting');
+    const dead = this.ws;
+    this.ws = null;
+    this.handshakeComplete = false;
+    dead?.close();
+    this.setState('disconnected');
+    this.scheduleReconnect();
+  }
+
+  private handleSession(sessionId: string, resumed: boolean, channels: string[], role: ParticipantRole): void {
+    const expired = !resumed && this.sessionId !== null;
+    if (!resumed) {
+      this.outputOffsets.clear();
+      this.decoders.clear();
+    }
+    this.sessionId = sessionId;
+    this.role = role;
+    this.restoreSnapshot = undefined;
+    this.repository = undefined;
+    this.config.onSession?.(sessionId, resumed, role);
+    this.config.onChannels?.(channels);
+
+    // The server arbitrates sizes between participants, so it needs ours again after every attach
+    for (const [channel, { cols, rows }] of this.requestedSizes) {
+      if (channels.includes(channel)) {
+        this.sendMessage({ type: 'resize', channel, cols, rows });
+      } else {
+        this.requestedSizes.delete(channel);
+      }
+    }
+
+    if (expired && channels.length > 0) {
+      // The server no longer had our session, so this is a fresh shell
+      this.config.onData?.(channels[0], '\r\n\x1b[33m[Previous session expired - started a new session]\x1b[0m\r\n');
+    }
+  }
+
+  private sendMessage(message: ClientMessage): void {
+    if (this.handshakeComplete) {
+      this.sendRaw(message);
+    }
+  }
+
+  private sendRaw(message: ClientMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
   private setState(state: ConnectionState): void {
     this.state = state;
     this.config.onStateChange?.(state);
@@ -0,0 +1,30 @@
+/**
+ * Workspaces API
+ *
+ * Purpose: Show the user's workspace usage and let admins pick any workspace
+ * Contract: Quotas and usage are in bytes; a quota of 0 means unlimited
+ */
+
+import { apiFetch, expectOk } from './api';
+
+export interface WorkspaceUsage {
+  workspaceId: string;
+  bytes: number;
+  quota: number;
+  state: 'ok' | 'warning' | 'exceeded';
+  measuredAt: string;
+}
+
+export interface WorkspaceInfo {
+  id: string;
+  quota: number;
+  // Null until a session has measured the workspace
+  usage: WorkspaceUsage | null;
+  activeSessions: number;
+}
+
+/** Every known workspace; admins only */
+export async function listWorkspaces(): Promise<WorkspaceInfo[]> {
+  const response = await expectOk(await apiFetch('/api/workspaces'));
+  return (await response.json()).workspaces;
+}